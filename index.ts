@@ -1,29 +1,124 @@
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { toolDefinitions } from "./tools";
+import { calendarFeedRoute } from "./tools/calendar-feed";
+import { rsvpRoute } from "./tools/rsvp-page";
+import { authorizeWeddingToolCall } from "./tools/wedding-permissions";
+import { configureWeddingStorage } from "./tools/wedding-store";
+import { widgetDefinitions } from "./tools/widgets";
+import { configureDefaultPhoneRegion } from "./utils/contact";
 import { createMcpServer } from "./utils/create-mcp-server";
-import { startSseServer } from "./utils/start-sse-server";
+import { createDocumentStorageFromEnv } from "./utils/document-storage";
+import { getExportsPath } from "./utils/export-files";
+import { createJwtVerifier } from "./utils/jwt";
+import { createLocalOAuthIssuer } from "./utils/local-oauth-issuer";
+import type { Logger } from "./utils/logger";
+import type { McpAuthOptions } from "./utils/mcp-auth";
+import { configurePublicBaseUrl, publicUrl } from "./utils/public-url";
+import { configureTokenSigning } from "./utils/signed-token";
+import { startHttpServer, type HttpRoute } from "./utils/start-http-server";
 import { createWidgetCatalog } from "./utils/widget-catalog";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const assetsDir = path.resolve(__dirname, "assets");
+const logger: Logger = console;
 
-const widgetCatalog = createWidgetCatalog(toolDefinitions, assetsDir);
+configureWeddingStorage(createDocumentStorageFromEnv());
+
+const widgetCatalog = createWidgetCatalog(toolDefinitions, widgetDefinitions, assetsDir);
+
+// Off by default: without OAuth every caller is the single local user.
+const trustHostSubject = process.env.TRUST_OPENAI_SUBJECT === "true";
 
 const createServerInstance = () =>
   createMcpServer({
     name: "wedding-planner-node",
     version: "0.1.0",
     widgetCatalog,
+    authorizeToolCall: authorizeWeddingToolCall,
+    validateToolOutput: process.env.NODE_ENV !== "production",
+    logger,
+    trustHostSubject,
   });
 
 const portEnv = Number(process.env.PORT ?? 8000);
 const port = Number.isFinite(portEnv) ? portEnv : 8000;
 
-startSseServer({
+configurePublicBaseUrl(process.env.PUBLIC_BASE_URL?.trim() || `http://localhost:${port}`);
+
+const defaultPhoneRegion = process.env.DEFAULT_PHONE_REGION?.trim();
+if (defaultPhoneRegion) {
+  configureDefaultPhoneRegion(defaultPhoneRegion);
+}
+
+const linkSigningSecret = process.env.LINK_SIGNING_SECRET?.trim();
+if (linkSigningSecret) {
+  configureTokenSigning({ secret: linkSigningSecret });
+} else {
+  logger.warn(
+    "LINK_SIGNING_SECRET is not set; RSVP and calendar links will stop working on restart.",
+  );
+}
+
+// "local" runs the bundled test issuer on /oauth; any other value is the
+// issuer URL of the authorization server whose tokens are accepted.
+const oauthIssuer = process.env.OAUTH_ISSUER?.trim();
+const oauthScopes = process.env.OAUTH_SCOPES?.split(/[\s,]+/).filter(Boolean);
+const mcpResourceUrl = publicUrl("/mcp");
+const authRoutes: HttpRoute[] = [];
+let auth: McpAuthOptions | undefined;
+
+if (oauthIssuer === "local") {
+  const localIssuer = createLocalOAuthIssuer({
+    issuerUrl: publicUrl("/oauth"),
+    resourceUrl: mcpResourceUrl,
+    scopes: oauthScopes,
+  });
+  authRoutes.push(...localIssuer.routes);
+  auth = {
+    verifier: localIssuer.verifier,
+    resourceUrl: mcpResourceUrl,
+    authorizationServers: [localIssuer.issuer],
+    scopesSupported: oauthScopes,
+    resourceName: "Wedding Planner",
+  };
+  logger.warn("OAUTH_ISSUER=local: anyone can sign in as anybody; use it for testing only.");
+} else if (oauthIssuer) {
+  auth = {
+    verifier: createJwtVerifier({
+      issuer: oauthIssuer,
+      audience: process.env.OAUTH_AUDIENCE?.trim() || mcpResourceUrl,
+      jwksUrl: process.env.OAUTH_JWKS_URL?.trim() || undefined,
+      requiredScopes: oauthScopes,
+    }),
+    resourceUrl: mcpResourceUrl,
+    authorizationServers: [oauthIssuer],
+    scopesSupported: oauthScopes,
+    resourceName: "Wedding Planner",
+  };
+} else {
+  logger.warn("OAUTH_ISSUER is not set; anyone who can reach the server can call every tool.");
+}
+
+if (trustHostSubject) {
+  logger.warn(
+    "TRUST_OPENAI_SUBJECT=true: callers without a token are identified by the openai/subject they send, which any client can forge.",
+  );
+}
+
+// "off" serves Streamable HTTP only.
+const ssePathEnv = process.env.MCP_SSE_PATH?.trim() || "/sse";
+
+startHttpServer({
   createMcpServer: createServerInstance,
+  logger,
   port,
   serverLabel: "Wedding Planner MCP server",
+  mcpPath: "/mcp",
+  ssePath: ssePathEnv === "off" ? null : ssePathEnv,
   staticAssetsDir: assetsDir,
   staticAssetsPath: "/assets",
+  exportsPath: getExportsPath(),
+  routes: [rsvpRoute, calendarFeedRoute, ...authRoutes],
+  auth,
 });
@@ -0,0 +1,58 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { InvalidInputError } from "../utils/tool-errors";
+import { readInviteCode } from "./collaborator-invites";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getUserId } from "./wedding-context";
+import { ROLE_LABELS } from "./wedding-permissions";
+import { acceptCollaboratorInvitation, getWeddingDashboardData } from "./wedding-store";
+
+const acceptCollaboratorInviteInput = z.object({
+  invite_code: z.string().trim().min(1).describe("Invite code returned by inviteCollaborator."),
+});
+
+export default defineTool({
+  name: "acceptCollaboratorInvite",
+  title: "Accept Collaborator Invite",
+  description:
+    "Join someone else's wedding with an invite code from inviteCollaborator. The wedding becomes the active one.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: acceptCollaboratorInviteInput,
+  output: dashboardOutput("event", ["collaborator"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Joining wedding",
+  invoked: "Joined wedding",
+  async handler(input, context) {
+    const target = readInviteCode(input.invite_code);
+
+    if (!target) {
+      throw new InvalidInputError("That invite code is not valid. Check it was copied in full.");
+    }
+
+    const userId = getUserId(context);
+    const { wedding, collaborator } = acceptCollaboratorInvitation(
+      userId,
+      target.weddingId,
+      target.invitationId,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Joined "${wedding.name}" as ${ROLE_LABELS[collaborator.role].toLowerCase()}.`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        collaborator,
+        data: getWeddingDashboardData({ userId, weddingId: wedding.id }),
+      },
+    };
+  },
+});
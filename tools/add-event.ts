@@ -0,0 +1,52 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { eventDetailsShape } from "./event-fields";
+import { getWeddingContext } from "./wedding-context";
+import { addEvent, getWeddingDashboardData } from "./wedding-store";
+
+const addEventInput = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Event name, e.g. Rehearsal dinner, Welcome drinks or Farewell brunch."),
+  ...eventDetailsShape,
+});
+
+export default defineTool({
+  name: "addEvent",
+  title: "Add Wedding Event",
+  description:
+    "Add an event around the wedding day, like a rehearsal dinner or farewell brunch, with its own date, time, venue and guest list. Events invite the whole guest list unless guest_ids is given.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: addEventInput,
+  output: dashboardOutput("event", ["event_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Adding event",
+  invoked: "Event added",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const event = addEvent(wedding, input);
+    const when = [event.date, event.start_time].filter(Boolean).join(" ");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Added ${event.name} (${event.id})${when ? ` on ${when}` : ""}${event.venue ? ` at ${event.venue}` : ""} with ${event.invited_guest_ids.length} invited guest(s).`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        event_id: event.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,71 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import {
+  addExpense,
+  EXPENSE_CATEGORIES,
+  getWeddingDashboardData,
+} from "./wedding-store";
+
+const addExpenseInput = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("What the expense is for, e.g. 'Venue deposit'."),
+  category: z.enum(EXPENSE_CATEGORIES).describe("Budget category."),
+  amount: z.number().min(0).describe("Amount in US dollars."),
+  vendor: z.string().trim().optional().describe("Vendor name, if any."),
+  paid: z
+    .boolean()
+    .default(false)
+    .describe("Whether the amount has already been paid."),
+  due_date: z
+    .string()
+    .trim()
+    .optional()
+    .describe("Payment due date as a string."),
+});
+
+export default defineTool({
+  name: "addExpense",
+  title: "Add Expense",
+  description:
+    "Record a wedding expense line item (paid or still owed) against a budget category.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: addExpenseInput,
+  output: dashboardOutput("budget"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Recording expense",
+  invoked: "Expense recorded",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const expense = addExpense(wedding, input);
+    const data = getWeddingDashboardData(wedding);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Recorded ${expense.category} expense "${expense.description}" for $${expense.amount} (${expense.paid ? "paid" : "unpaid"}) with id ${expense.id}.`,
+            ...data.budget.warnings,
+          ].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "budget",
+        data,
+      },
+    };
+  },
+});
@@ -1,39 +1,63 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { guestDetailsShape } from "./guest-fields";
+import { getWeddingContext } from "./wedding-context";
 import { addGuest, getWeddingDashboardData } from "./wedding-store";
 
 const addGuestInput = z.object({
   name: z.string().trim().min(1).describe("Guest name."),
-  contact: z.string().trim().min(1).describe("Guest contact information."),
+  contact: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      "Guest email address or phone number. Phone numbers without a country code are read in the server's default region.",
+    ),
+  ...guestDetailsShape,
 });
 
 export default defineTool({
   name: "addGuest",
   title: "Add Guest",
-  description: "Add a wedding guest.",
+  description:
+    "Add a wedding guest, optionally with household, side, plus-one, meal choice, dietary needs, age group, tags, and accessibility notes. Contacts are normalised, and guests with a similar name are reported so duplicates can be combined with mergeGuests.",
   annotations: {
     readOnlyHint: false,
     openWorldHint: false,
     destructiveHint: false,
   },
   input: addGuestInput,
+  output: dashboardOutput("guests", ["guest_id", "possible_duplicates"]),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Adding guest",
   invoked: "Guest added",
-  async handler(input) {
-    const guest = addGuest(input);
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { guest, possibleDuplicates } = addGuest(wedding, input);
 
     return {
       content: [
         {
           type: "text",
-          text: `Guest ${guest.name} added with id ${guest.id}.`,
+          text: [
+            `Guest ${guest.name} added with id ${guest.id} (${guest.contact}).`,
+            ...possibleDuplicates.map(
+              (match) =>
+                `Possible duplicate of ${match.name} (${match.guest_id}, ${match.contact}); use mergeGuests if they are the same person.`,
+            ),
+          ].join("\n"),
         },
       ],
       structuredContent: {
         view: "guests",
         guest_id: guest.id,
-        data: getWeddingDashboardData(),
+        possible_duplicates: possibleDuplicates,
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
@@ -1,38 +1,54 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { scheduleDetailsShape } from "./schedule-fields";
+import { getWeddingContext } from "./wedding-context";
 import { addScheduleItem, getWeddingDashboardData } from "./wedding-store";
 
 const addScheduleItemInput = z.object({
-  time: z.string().trim().min(1).describe("Time of schedule item."),
+  time: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Start time of the schedule item, e.g. 3pm or 15:00."),
   description: z.string().trim().min(1).describe("Schedule item description."),
+  ...scheduleDetailsShape,
 });
 
 export default defineTool({
   name: "addScheduleItem",
   title: "Add Schedule Item",
-  description: "Add a wedding day schedule item.",
+  description:
+    "Add a schedule item to the wedding day or one of its events. Items are kept in chronological order and overlaps or long gaps with other items on the same day are reported.",
   annotations: {
     readOnlyHint: false,
     openWorldHint: false,
     destructiveHint: false,
   },
   input: addScheduleItemInput,
+  output: dashboardOutput("schedule", ["schedule_item_id", "schedule_issues"]),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Adding schedule item",
   invoked: "Schedule item added",
-  async handler(input) {
-    const item = addScheduleItem(input);
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { item, issues } = addScheduleItem(wedding, input);
+    const lines = [
+      `Added schedule item at ${item.time}${item.end_time ? `-${item.end_time}` : ""}: ${item.description}`,
+      ...issues.map((issue) => `- ${issue.message}`),
+    ];
 
     return {
-      content: [
-        {
-          type: "text",
-          text: `Added schedule item at ${item.time}: ${item.description}`,
-        },
-      ],
+      content: [{ type: "text", text: lines.join("\n") }],
       structuredContent: {
         view: "schedule",
-        data: getWeddingDashboardData(),
+        schedule_item_id: item.id,
+        schedule_issues: issues,
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
@@ -0,0 +1,59 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import {
+  addSeatingConstraint,
+  getWeddingDashboardData,
+  SEATING_CONSTRAINT_TYPES,
+} from "./wedding-store";
+
+const addSeatingConstraintInput = z.object({
+  type: z
+    .enum(SEATING_CONSTRAINT_TYPES)
+    .describe(
+      "keep_together seats the guests at one table; keep_apart never seats any two of them together.",
+    ),
+  guest_ids: z
+    .array(z.string().trim().min(1))
+    .min(2)
+    .describe("Guest ids like guest_1. At least two."),
+});
+
+export default defineTool({
+  name: "addSeatingConstraint",
+  title: "Add Seating Constraint",
+  description:
+    "Record that guests must sit together or apart. Households are always kept together without a constraint.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: addSeatingConstraintInput,
+  output: dashboardOutput("seating"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Saving seating constraint",
+  invoked: "Seating constraint saved",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const constraint = addSeatingConstraint(wedding, input);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Added ${constraint.type.replace("_", " ")} constraint ${constraint.id} for ${constraint.guest_ids.join(", ")}. Run autoSeatGuests to apply it.`,
+        },
+      ],
+      structuredContent: {
+        view: "seating",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,48 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { addTable, getWeddingDashboardData, TABLE_SHAPES } from "./wedding-store";
+
+const addTableInput = z.object({
+  name: z.string().trim().min(1).describe("Table name, e.g. Table 1 or Head table."),
+  shape: z
+    .enum(TABLE_SHAPES)
+    .default("Round")
+    .describe("Table shape: Round, Rectangle, or Square."),
+  capacity: z.number().int().min(1).max(50).describe("Number of seats at the table."),
+});
+
+export default defineTool({
+  name: "addTable",
+  title: "Add Table",
+  description: "Add a reception table to the seating chart.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: addTableInput,
+  output: dashboardOutput("seating"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Adding table",
+  invoked: "Table added",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const table = addTable(wedding, input);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Added ${table.shape.toLowerCase()} table ${table.name} (${table.id}) with ${table.capacity} seats.`,
+        },
+      ],
+      structuredContent: {
+        view: "seating",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -1,10 +1,22 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { describeDue } from "./wedding-dates";
 import { addTask, getWeddingDashboardData } from "./wedding-store";
 
 const addTaskInput = z.object({
   title: z.string().trim().min(1).describe("Task title."),
-  due_date: z.string().trim().min(1).describe("Task due date as a string."),
+  due_date: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      'Due date, e.g. 2027-05-01, May 1, or relative to the wedding like "6 weeks before the wedding".',
+    ),
 });
 
 export default defineTool({
@@ -17,22 +29,25 @@ export default defineTool({
     destructiveHint: false,
   },
   input: addTaskInput,
+  output: dashboardOutput("tasks"),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Adding task",
   invoked: "Task added",
-  async handler(input) {
-    const task = addTask(input);
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const task = addTask(wedding, input);
 
     return {
       content: [
         {
           type: "text",
-          text: `Task "${task.title}" added with due date ${task.due_date}.`,
+          text: `Task "${task.title}" added, ${describeDue(task)}.`,
         },
       ],
       structuredContent: {
         view: "tasks",
-        data: getWeddingDashboardData(),
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
@@ -0,0 +1,56 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { vendorDetailsShape } from "./vendor-fields";
+import { getWeddingContext } from "./wedding-context";
+import {
+  addVendor,
+  getWeddingDashboardData,
+  VENDOR_CATEGORIES,
+} from "./wedding-store";
+
+const addVendorInput = z.object({
+  name: z.string().trim().min(1).describe("Vendor or business name."),
+  category: z
+    .enum(VENDOR_CATEGORIES)
+    .describe("Vendor category, e.g. Photographer, Florist, Caterer, or DJ."),
+  ...vendorDetailsShape,
+});
+
+export default defineTool({
+  name: "addVendor",
+  title: "Add Vendor",
+  description:
+    "Add a wedding vendor with contact details, quote, contract status, and payment due dates.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: addVendorInput,
+  output: dashboardOutput("vendors"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Adding vendor",
+  invoked: "Vendor added",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const vendor = addVendor(wedding, input);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${vendor.category} ${vendor.name} added with id ${vendor.id}.`,
+        },
+      ],
+      structuredContent: {
+        view: "vendors",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,60 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { assignGuestToTable, getWeddingDashboardData } from "./wedding-store";
+
+const assignGuestToTableInput = z.object({
+  guest_id: z.string().trim().min(1).describe("Guest id like guest_1."),
+  table_id: z
+    .string()
+    .trim()
+    .min(1)
+    .nullable()
+    .describe("Table id like table_1, or null to unseat the guest."),
+});
+
+export default defineTool({
+  name: "assignGuestToTable",
+  title: "Assign Guest To Table",
+  description:
+    "Seat a guest at a table, moving them from any previous table. Guests with a plus-one take two seats.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: assignGuestToTableInput,
+  output: dashboardOutput("seating", ["guest_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Updating seating",
+  invoked: "Seating updated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { guest, table } = assignGuestToTable(
+      wedding,
+      input.guest_id,
+      input.table_id,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: table
+            ? `${guest.name} is now seated at ${table.name}.`
+            : `${guest.name} no longer has a table.`,
+        },
+      ],
+      structuredContent: {
+        view: "seating",
+        guest_id: guest.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { autoSeatGuests, getWeddingDashboardData } from "./wedding-store";
+
+const autoSeatGuestsInput = z.object({
+  keep_existing: z
+    .boolean()
+    .default(true)
+    .describe("Keep confirmed guests at their current tables and only seat the rest."),
+});
+
+export default defineTool({
+  name: "autoSeatGuests",
+  title: "Auto-Seat Guests",
+  description:
+    "Assign confirmed (RSVP Yes) guests to tables, keeping households and keep-together groups at one table and keep-apart guests separate. Reports any constraint it could not satisfy.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: autoSeatGuestsInput,
+  output: dashboardOutput("seating", ["seating_report"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Seating guests",
+  invoked: "Guests seated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const report = autoSeatGuests(wedding, { keepExisting: input.keep_existing });
+    const lines = [
+      `Seated ${report.seated_guest_ids.length} guest(s); ${report.unseated_guest_ids.length} still need a table.`,
+      ...report.issues.map((issue) => `- ${issue}`),
+    ];
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: {
+        view: "seating",
+        seating_report: report,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, it } from "node:test";
+import { calendarFeedRoute } from "./calendar-feed";
+import { createCalendarFeedUrls } from "./calendar-links";
+import {
+  acceptCollaboratorInvitation,
+  addTask,
+  createWedding,
+  inviteCollaborator,
+  removeCollaborator,
+  setEventDetails,
+  updateTask,
+  type WeddingContext,
+} from "./wedding-store";
+
+type FeedResponse = { status: number; body: string };
+
+// Calls the route with just enough of a request and response for it.
+async function requestFeed(path: string, method = "GET"): Promise<FeedResponse> {
+  const response = { status: 0, body: "" };
+  const res = {
+    writeHead(status: number) {
+      response.status = status;
+      return res;
+    },
+    end(body?: string) {
+      response.body = body ?? "";
+      return res;
+    },
+  };
+
+  await calendarFeedRoute.handle(
+    { method } as IncomingMessage,
+    res as unknown as ServerResponse,
+    new URL(path, "http://localhost"),
+  );
+  return response;
+}
+
+function taskSequence(body: string): number {
+  const event = body.split("BEGIN:VEVENT").find((block) => block.includes("SUMMARY:Due: "));
+  return Number(/SEQUENCE:(\d+)/.exec(event ?? "")?.[1]);
+}
+
+function feedPath(ctx: WeddingContext): string {
+  return new URL(createCalendarFeedUrls(ctx).url).pathname;
+}
+
+let nextCouple = 1;
+
+function createCalendarWedding(): WeddingContext {
+  const userId = `calendar_${nextCouple}`;
+  nextCouple += 1;
+  const ctx = { userId, weddingId: createWedding(userId, { name: "Ann & Bo" }).id };
+  setEventDetails(ctx, { event_date: "2030-06-01", location: "Lake Como", budget: 30000 });
+  return ctx;
+}
+
+describe("calendar feed", () => {
+  it("serves the wedding day and task deadlines", async () => {
+    const ctx = createCalendarWedding();
+    addTask(ctx, { title: "Book florist", due_date: "2030-02-01" });
+
+    const { status, body } = await requestFeed(feedPath(ctx));
+
+    assert.equal(status, 200);
+    assert.match(body, /SUMMARY:Ann & Bo\r\n/);
+    assert.match(body, /SUMMARY:Due: Book florist\r\n/);
+    assert.match(body, /DTSTART;VALUE=DATE:20300601\r\n/);
+    assert.match(body, /DTSTART;VALUE=DATE:20300201\r\n/);
+  });
+
+  it("raises an event's SEQUENCE when what it is built from changes", async () => {
+    const ctx = createCalendarWedding();
+    const task = addTask(ctx, { title: "Book florist", due_date: "2030-02-01" });
+
+    const before = taskSequence((await requestFeed(feedPath(ctx))).body);
+    updateTask(ctx, task.id, { due_date: "2030-02-15" });
+    const after = taskSequence((await requestFeed(feedPath(ctx))).body);
+
+    assert.ok(after > before);
+  });
+
+  it("stops serving collaborators who lost access", async () => {
+    const owner = createCalendarWedding();
+    const invitation = inviteCollaborator(owner, { name: "Bob", role: "planner" });
+    acceptCollaboratorInvitation("bob", owner.weddingId, invitation.id);
+    const bobPath = feedPath({ userId: "bob", weddingId: owner.weddingId });
+
+    assert.equal((await requestFeed(bobPath)).status, 200);
+
+    removeCollaborator(owner, "bob");
+
+    assert.equal((await requestFeed(bobPath)).status, 404);
+    assert.equal((await requestFeed(feedPath(owner))).status, 200);
+  });
+
+  it("answers 404 for forged links and removed weddings", async () => {
+    const ctx = createCalendarWedding();
+    const path = feedPath(ctx);
+
+    assert.equal((await requestFeed(path.replace(".ics", "x.ics"))).status, 404);
+    assert.equal((await requestFeed("/calendar/not-a-token")).status, 404);
+    assert.equal(
+      (await requestFeed(feedPath({ userId: ctx.userId, weddingId: "wedding_missing" }))).status,
+      404,
+    );
+  });
+
+  it("refuses methods other than GET and HEAD", async () => {
+    const ctx = createCalendarWedding();
+
+    assert.equal((await requestFeed(feedPath(ctx), "POST")).status, 405);
+    assert.equal((await requestFeed(feedPath(ctx), "HEAD")).body, "");
+  });
+});
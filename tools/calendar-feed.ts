@@ -0,0 +1,72 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { formatICalendar } from "../utils/icalendar";
+import type { HttpRoute } from "../utils/start-http-server";
+import { NotFoundError } from "../utils/tool-errors";
+import { CALENDAR_PATH, readCalendarToken } from "./calendar-links";
+import { buildWeddingCalendar } from "./wedding-calendar";
+import {
+  getCollaboratorRole,
+  getEntityRevisions,
+  getWeddingDashboardData,
+  type EntityRevisions,
+  type WeddingDashboardData,
+} from "./wedding-store";
+
+function sendNotFound(res: ServerResponse) {
+  res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" }).end("Calendar not found");
+}
+
+// Serves GET /calendar/<token>.ics. The feed is rebuilt on every request so
+// subscribed calendars pick up schedule and task changes on their next refresh.
+// Unexpected errors are left to the HTTP server, which logs them and answers
+// 500.
+function handleCalendarRequest(req: IncomingMessage, res: ServerResponse, url: URL) {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.writeHead(405, { Allow: "GET, HEAD" }).end("Method Not Allowed");
+    return;
+  }
+
+  const match = /^([^/]+)\.ics$/.exec(url.pathname.slice(CALENDAR_PATH.length + 1));
+  const ctx = match ? readCalendarToken(match[1]) : null;
+
+  if (!ctx) {
+    sendNotFound(res);
+    return;
+  }
+
+  let data: WeddingDashboardData;
+  let revisions: EntityRevisions;
+  try {
+    // The link stops working once its owner no longer has access.
+    if (!getCollaboratorRole(ctx)) {
+      sendNotFound(res);
+      return;
+    }
+
+    data = getWeddingDashboardData(ctx);
+    revisions = getEntityRevisions(ctx);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+
+    // The wedding was removed after the link was shared.
+    sendNotFound(res);
+    return;
+  }
+
+  const body = formatICalendar(buildWeddingCalendar(data, revisions));
+  res.writeHead(200, {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": 'inline; filename="wedding.ics"',
+    "Cache-Control": "no-cache",
+    "Referrer-Policy": "no-referrer",
+  });
+  res.end(req.method === "HEAD" ? undefined : body);
+}
+
+export const calendarFeedRoute: HttpRoute = {
+  path: CALENDAR_PATH,
+  handle: handleCalendarRequest,
+};
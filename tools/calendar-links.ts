@@ -0,0 +1,42 @@
+import { publicUrl } from "../utils/public-url";
+import { createSignedToken, verifySignedToken } from "../utils/signed-token";
+import type { WeddingContext } from "./wedding-store";
+
+export const CALENDAR_PATH = "/calendar";
+
+type CalendarTokenPayload = {
+  t: "calendar";
+  u: string;
+  w: string;
+};
+
+export type CalendarFeedUrls = {
+  url: string;
+  // Same feed with the webcal scheme, which calendar apps open as a
+  // subscription rather than a one-off import.
+  webcal_url: string;
+};
+
+// The token encodes the wedding and the user who asked for the link, so the
+// URL stays the same for the life of the wedding and subscribers keep
+// receiving updates until that user loses access to it.
+export function createCalendarFeedUrls(ctx: WeddingContext): CalendarFeedUrls {
+  const token = createSignedToken({
+    t: "calendar",
+    u: ctx.userId,
+    w: ctx.weddingId,
+  } satisfies CalendarTokenPayload);
+  const url = publicUrl(`${CALENDAR_PATH}/${token}.ics`);
+
+  return { url, webcal_url: url.replace(/^https?:/, "webcal:") };
+}
+
+export function readCalendarToken(token: string): WeddingContext | null {
+  const payload = verifySignedToken<CalendarTokenPayload>(token);
+
+  if (payload?.t !== "calendar" || typeof payload.u !== "string" || typeof payload.w !== "string") {
+    return null;
+  }
+
+  return { userId: payload.u, weddingId: payload.w, toolName: "calendarFeed" };
+}
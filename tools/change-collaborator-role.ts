@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { ROLE_LABELS } from "./wedding-permissions";
+import { COLLABORATOR_ROLES, getWeddingDashboardData, setCollaboratorRole } from "./wedding-store";
+
+const changeCollaboratorRoleInput = z.object({
+  user_id: z.string().trim().min(1).describe("Collaborator user id returned by listCollaborators."),
+  role: z.enum(COLLABORATOR_ROLES).describe("New role for the collaborator."),
+});
+
+export default defineTool({
+  name: "changeCollaboratorRole",
+  title: "Change Collaborator Role",
+  description:
+    "Change what a collaborator can do on the current wedding. Only owners can change roles, and the last owner cannot be demoted.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: changeCollaboratorRoleInput,
+  output: dashboardOutput("event", ["collaborator"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Changing role",
+  invoked: "Role changed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const collaborator = setCollaboratorRole(wedding, input.user_id, input.role);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${collaborator.name ?? collaborator.user_id} is now ${ROLE_LABELS[collaborator.role].toLowerCase()}.`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        collaborator,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
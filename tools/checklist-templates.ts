@@ -0,0 +1,156 @@
+import type { DueOffset } from "./wedding-dates";
+
+export const CHECKLIST_TEMPLATE_IDS = [
+  "classic_12_month",
+  "small_3_month",
+  "destination",
+  "elopement",
+] as const;
+
+export type ChecklistTemplateId = (typeof CHECKLIST_TEMPLATE_IDS)[number];
+
+export type ChecklistTemplateTask = {
+  title: string;
+  due_offset: DueOffset;
+};
+
+export type ChecklistTemplate = {
+  id: ChecklistTemplateId;
+  name: string;
+  description: string;
+  tasks: ChecklistTemplateTask[];
+};
+
+function monthsBefore(amount: number): DueOffset {
+  return { amount: -amount, unit: "months" };
+}
+
+function weeksBefore(amount: number): DueOffset {
+  return { amount: -amount, unit: "weeks" };
+}
+
+function daysBefore(amount: number): DueOffset {
+  return { amount: -amount, unit: "days" };
+}
+
+function weeksAfter(amount: number): DueOffset {
+  return { amount, unit: "weeks" };
+}
+
+function task(title: string, due_offset: DueOffset): ChecklistTemplateTask {
+  return { title, due_offset };
+}
+
+export const CHECKLIST_TEMPLATES: Record<ChecklistTemplateId, ChecklistTemplate> = {
+  classic_12_month: {
+    id: "classic_12_month",
+    name: "Classic 12-month plan",
+    description: "A full year of planning for a traditional wedding with a venue and vendors.",
+    tasks: [
+      task("Set the overall budget", monthsBefore(12)),
+      task("Create guest list", monthsBefore(12)),
+      task("Find venue", monthsBefore(11)),
+      task("Book the officiant", monthsBefore(10)),
+      task("Book photographer", monthsBefore(10)),
+      task("Book caterer", monthsBefore(9)),
+      task("Choose the wedding party", monthsBefore(9)),
+      task("Send save-the-dates", monthsBefore(8)),
+      task("Book band or DJ", monthsBefore(8)),
+      task("Buy wedding attire", monthsBefore(8)),
+      task("Book florist", monthsBefore(7)),
+      task("Reserve hotel room blocks for guests", monthsBefore(6)),
+      task("Set up the gift registry", monthsBefore(6)),
+      task("Order the wedding cake", monthsBefore(5)),
+      task("Book hair and makeup", monthsBefore(5)),
+      task("Arrange transportation", monthsBefore(4)),
+      task("Buy wedding rings", monthsBefore(3)),
+      task("Make invitations", monthsBefore(3)),
+      task("Send invitations", weeksBefore(8)),
+      task("Create schedule", weeksBefore(6)),
+      task("Apply for the marriage license", weeksBefore(6)),
+      task("Final attire fitting", weeksBefore(4)),
+      task("Chase outstanding RSVPs", weeksBefore(4)),
+      task("Finalize the seating chart", weeksBefore(2)),
+      task("Confirm final numbers with vendors", weeksBefore(2)),
+      task("Prepare vendor tips and final payments", weeksBefore(1)),
+      task("Pack for the honeymoon", daysBefore(3)),
+      task("Send thank-you notes", weeksAfter(8)),
+    ],
+  },
+  small_3_month: {
+    id: "small_3_month",
+    name: "Small wedding in 3 months",
+    description: "A compressed plan for an intimate wedding with a short guest list.",
+    tasks: [
+      task("Set the overall budget", monthsBefore(3)),
+      task("Create guest list", monthsBefore(3)),
+      task("Find venue", monthsBefore(3)),
+      task("Book the officiant", weeksBefore(11)),
+      task("Book photographer", weeksBefore(10)),
+      task("Arrange food and drinks", weeksBefore(10)),
+      task("Make invitations", weeksBefore(9)),
+      task("Send invitations", weeksBefore(8)),
+      task("Buy wedding attire", weeksBefore(8)),
+      task("Buy wedding rings", weeksBefore(6)),
+      task("Apply for the marriage license", weeksBefore(4)),
+      task("Create schedule", weeksBefore(3)),
+      task("Chase outstanding RSVPs", weeksBefore(3)),
+      task("Confirm final numbers with vendors", weeksBefore(1)),
+      task("Send thank-you notes", weeksAfter(4)),
+    ],
+  },
+  destination: {
+    id: "destination",
+    name: "Destination wedding",
+    description: "Planning for a wedding abroad, with travel and local legal requirements.",
+    tasks: [
+      task("Set the overall budget", monthsBefore(14)),
+      task("Choose the destination", monthsBefore(13)),
+      task("Check local marriage requirements", monthsBefore(12)),
+      task("Create guest list", monthsBefore(12)),
+      task("Find venue", monthsBefore(11)),
+      task("Book a local wedding planner", monthsBefore(11)),
+      task("Send save-the-dates", monthsBefore(10)),
+      task("Reserve hotel room blocks for guests", monthsBefore(10)),
+      task("Build a travel info page for guests", monthsBefore(9)),
+      task("Book photographer", monthsBefore(9)),
+      task("Book the officiant", monthsBefore(8)),
+      task("Book caterer", monthsBefore(7)),
+      task("Buy wedding attire", monthsBefore(7)),
+      task("Make invitations", monthsBefore(4)),
+      task("Send invitations", monthsBefore(3)),
+      task("Check passports and visas", monthsBefore(3)),
+      task("Arrange airport transfers", weeksBefore(8)),
+      task("Prepare legal documents and translations", weeksBefore(8)),
+      task("Create schedule", weeksBefore(6)),
+      task("Chase outstanding RSVPs", weeksBefore(6)),
+      task("Plan the welcome event", weeksBefore(4)),
+      task("Finalize the seating chart", weeksBefore(2)),
+      task("Confirm final numbers with vendors", weeksBefore(2)),
+      task("Send thank-you notes", weeksAfter(8)),
+    ],
+  },
+  elopement: {
+    id: "elopement",
+    name: "Elopement",
+    description: "The essentials for a ceremony with just the couple and a few witnesses.",
+    tasks: [
+      task("Choose the location", weeksBefore(8)),
+      task("Check permits for the location", weeksBefore(8)),
+      task("Book the officiant", weeksBefore(6)),
+      task("Book photographer", weeksBefore(6)),
+      task("Arrange witnesses", weeksBefore(4)),
+      task("Buy wedding attire", weeksBefore(4)),
+      task("Buy wedding rings", weeksBefore(4)),
+      task("Apply for the marriage license", weeksBefore(3)),
+      task("Create schedule", weeksBefore(1)),
+      task("Send the announcement", weeksAfter(2)),
+    ],
+  },
+};
+
+// Titles match loosely so "create guestlist" and "Create guest list" are the
+// same task.
+export function taskTitleKey(title: string): string {
+  return title.toLowerCase().replace(/&/g, "and").replace(/[^a-z0-9]/g, "");
+}
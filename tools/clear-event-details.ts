@@ -0,0 +1,44 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { clearEventDetails, getWeddingDashboardData } from "./wedding-store";
+
+const clearEventDetailsInput = z.object({});
+
+export default defineTool({
+  name: "clearEventDetails",
+  title: "Clear Wedding Event Details",
+  description: "Clear the wedding date, location, and budget.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: clearEventDetailsInput,
+  output: dashboardOutput("event"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Clearing event details",
+  invoked: "Event details cleared",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const previous = clearEventDetails(wedding);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Cleared the wedding details (was ${previous.event_date} in ${previous.location}).`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,33 @@
+import { createSignedToken, verifySignedToken } from "../utils/signed-token";
+import type { WeddingContext } from "./wedding-store";
+
+type InviteTokenPayload = {
+  t: "invite";
+  w: string;
+  i: string;
+};
+
+export type InviteTarget = {
+  weddingId: string;
+  invitationId: string;
+};
+
+// The code only names the invitation; whether it is still open is checked
+// against the wedding when it is redeemed.
+export function createInviteCode(ctx: WeddingContext, invitationId: string): string {
+  return createSignedToken({
+    t: "invite",
+    w: ctx.weddingId,
+    i: invitationId,
+  } satisfies InviteTokenPayload);
+}
+
+export function readInviteCode(code: string): InviteTarget | null {
+  const payload = verifySignedToken<InviteTokenPayload>(code.trim());
+
+  if (payload?.t !== "invite" || typeof payload.w !== "string" || typeof payload.i !== "string") {
+    return null;
+  }
+
+  return { weddingId: payload.w, invitationId: payload.i };
+}
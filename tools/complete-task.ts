@@ -0,0 +1,46 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { completeTask, getWeddingDashboardData } from "./wedding-store";
+
+const completeTaskInput = z.object({
+  task_id: z.string().trim().min(1).describe("Task id like task_1."),
+});
+
+export default defineTool({
+  name: "completeTask",
+  title: "Complete Task",
+  description: "Mark a wedding checklist task as done.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: completeTaskInput,
+  output: dashboardOutput("tasks"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Completing task",
+  invoked: "Task completed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const task = completeTask(wedding, input.task_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Task "${task.title}" marked as done.`,
+        },
+      ],
+      structuredContent: {
+        view: "tasks",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
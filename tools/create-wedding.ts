@@ -0,0 +1,51 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getUserId } from "./wedding-context";
+import { createWedding, getWeddingDashboardData } from "./wedding-store";
+
+const createWeddingInput = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Wedding name, for example 'Sam & Alex, June 2026'."),
+});
+
+export default defineTool({
+  name: "createWedding",
+  title: "Create Wedding",
+  description:
+    "Create a new wedding plan for the current user and make it the active wedding.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: createWeddingInput,
+  output: dashboardOutput("event"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Creating wedding",
+  invoked: "Wedding created",
+  async handler(input, context) {
+    const userId = getUserId(context);
+    const wedding = createWedding(userId, input);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Created wedding "${wedding.name}" with id ${wedding.id}. It is now the active wedding.`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        data: getWeddingDashboardData({ userId, weddingId: wedding.id }),
+      },
+    };
+  },
+});
@@ -0,0 +1,422 @@
+import { z } from "zod/v3";
+import {
+  AGE_GROUPS,
+  COLLABORATOR_ROLES,
+  CONTRACT_STATUSES,
+  DUE_STATUSES,
+  EXPENSE_CATEGORIES,
+  GUEST_SIDES,
+  RSVP_STATUSES,
+  SEATING_CONSTRAINT_TYPES,
+  TABLE_SHAPES,
+  TASK_STATUSES,
+  VENDOR_CATEGORIES,
+  VENUE_SEARCH_PROVIDERS,
+} from "./wedding-enums";
+
+// structuredContent of the tools that render the wedding planner dashboard.
+// defineTool publishes it as each tool's outputSchema and checks handler
+// results against it, and the dashboard widget reads its types from here.
+//
+// This module only depends on zod and wedding-enums.ts so the widget can
+// import its types. Since every handler's return type is inferred from these
+// schemas, the store's types have to stay assignable to them or the tools stop
+// compiling.
+
+const rsvpStatus = z.enum(RSVP_STATUSES);
+const collaboratorRole = z.enum(COLLABORATOR_ROLES);
+const guestSide = z.enum(GUEST_SIDES);
+const ageGroup = z.enum(AGE_GROUPS);
+const taskStatus = z.enum(TASK_STATUSES);
+const dueStatus = z.enum(DUE_STATUSES);
+const contractStatus = z.enum(CONTRACT_STATUSES);
+const expenseCategory = z.enum(EXPENSE_CATEGORIES);
+const vendorCategory = z.enum(VENDOR_CATEGORIES);
+
+export const dashboardViews = [
+  "event",
+  "guests",
+  "tasks",
+  "schedule",
+  "invitation",
+  "budget",
+  "vendors",
+  "seating",
+  "activity",
+] as const;
+
+const weddingSummary = z.object({
+  id: z.string(),
+  name: z.string(),
+  owner_id: z.string(),
+  created_at: z.string(),
+});
+
+const collaborator = z.object({
+  user_id: z.string(),
+  name: z.string().nullable(),
+  role: collaboratorRole,
+  joined_at: z.string(),
+});
+
+const collaboratorInvitation = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: collaboratorRole,
+  invited_by: z.string(),
+  created_at: z.string(),
+  accepted_by: z.string().nullable(),
+  accepted_at: z.string().nullable(),
+});
+
+const eventDetails = z.object({
+  event_date: z.string(),
+  location: z.string(),
+  budget: z.number(),
+  time_zone: z.string(),
+});
+
+const weddingEvent = z.object({
+  id: z.string(),
+  name: z.string(),
+  date: z.string(),
+  start_time: z.string().nullable(),
+  end_time: z.string().nullable(),
+  venue: z.string().nullable(),
+  guest_ids: z.array(z.string()).nullable(),
+  invited_guest_ids: z.array(z.string()),
+  rsvp_counts: z.object({
+    Pending: z.number(),
+    Yes: z.number(),
+    No: z.number(),
+    Maybe: z.number(),
+  }),
+});
+
+const household = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+const guest = z.object({
+  id: z.string(),
+  name: z.string(),
+  contact: z.string(),
+  contact_type: z.enum(["email", "phone"]),
+  rsvp_status: rsvpStatus,
+  household_id: z.string().nullable(),
+  side: guestSide,
+  plus_one_allowed: z.boolean(),
+  plus_one_name: z.string().nullable(),
+  tags: z.array(z.string()),
+  meal_choice: z.string().nullable(),
+  dietary_restrictions: z.array(z.string()),
+  age_group: ageGroup,
+  accessibility_notes: z.string().nullable(),
+  rsvp_note: z.string().nullable(),
+  rsvp_responded_at: z.string().nullable(),
+  event_rsvps: z.record(z.string(), rsvpStatus),
+});
+
+const task = z.object({
+  id: z.string(),
+  title: z.string(),
+  due_date: z.string(),
+  due_offset: z
+    .object({ amount: z.number(), unit: z.enum(["days", "weeks", "months"]) })
+    .nullable(),
+  status: taskStatus,
+  completed_at: z.string().nullable(),
+});
+
+const pendingTask = task.extend({
+  due_status: dueStatus,
+  days_until_due: z.number().nullable(),
+});
+
+const weddingCountdown = z.object({
+  today: z.string(),
+  time_zone: z.string(),
+  event_date: z.string().nullable(),
+  days_until_wedding: z.number().nullable(),
+});
+
+const scheduleItem = z.object({
+  id: z.string(),
+  event_id: z.string().nullable(),
+  time: z.string(),
+  end_time: z.string().nullable(),
+  duration_minutes: z.number().nullable(),
+  description: z.string(),
+  location: z.string().nullable(),
+  owner: z.string().nullable(),
+});
+
+const scheduleIssue = z.object({
+  type: z.enum(["overlap", "gap"]),
+  item_ids: z.tuple([z.string(), z.string()]),
+  minutes: z.number(),
+  message: z.string(),
+});
+
+const invitationDraft = z.object({
+  theme: z.string(),
+  text: z.string(),
+  image_url: z.string().nullable(),
+});
+
+const expense = z.object({
+  id: z.string(),
+  description: z.string(),
+  category: expenseCategory,
+  vendor: z.string().nullable(),
+  amount: z.number(),
+  paid: z.boolean(),
+  due_date: z.string(),
+});
+
+const budgetCategorySummary = z.object({
+  category: expenseCategory,
+  allocated: z.number(),
+  spent: z.number(),
+  paid: z.number(),
+  remaining: z.number(),
+  over_budget: z.boolean(),
+});
+
+const budgetSummary = z.object({
+  total_budget: z.number(),
+  allocated: z.number(),
+  unallocated: z.number(),
+  spent: z.number(),
+  paid: z.number(),
+  unpaid: z.number(),
+  remaining: z.number(),
+  over_budget: z.boolean(),
+  categories: z.array(budgetCategorySummary),
+  warnings: z.array(z.string()),
+});
+
+const vendor = z.object({
+  id: z.string(),
+  name: z.string(),
+  category: vendorCategory,
+  contact_name: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  website: z.string().nullable(),
+  quote: z.number().nullable(),
+  contract_status: contractStatus,
+  deposit_amount: z.number().nullable(),
+  deposit_due_date: z.string(),
+  balance_due_date: z.string(),
+  notes: z.string(),
+  source: z.object({ provider: z.enum(VENUE_SEARCH_PROVIDERS), url: z.string() }).nullable(),
+});
+
+const seatingConstraint = z.object({
+  id: z.string(),
+  type: z.enum(SEATING_CONSTRAINT_TYPES),
+  guest_ids: z.array(z.string()),
+});
+
+const seatingChart = z.object({
+  tables: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      shape: z.enum(TABLE_SHAPES),
+      capacity: z.number(),
+      guest_ids: z.array(z.string()),
+      seats_used: z.number(),
+    }),
+  ),
+  constraints: z.array(seatingConstraint),
+  unassigned_guest_ids: z.array(z.string()),
+});
+
+const changeSummary = z.object({
+  id: z.string(),
+  at: z.string(),
+  user_id: z.string(),
+  tool: z.string().nullable(),
+  summary: z.string(),
+  reverts: z.string().nullable(),
+  reverted_by: z.string().nullable(),
+});
+
+const activityEntry = changeSummary.extend({
+  can_revert: z.boolean(),
+});
+
+const changeEntry = changeSummary.extend({
+  changes: z.array(
+    z.object({
+      field: z.string(),
+      entity_id: z.string().nullable(),
+      label: z.string(),
+      before: z.record(z.string(), z.unknown()).nullable(),
+      after: z.record(z.string(), z.unknown()).nullable(),
+      position: z.number().nullable(),
+    }),
+  ),
+});
+
+const possibleDuplicate = z.object({
+  guest_id: z.string(),
+  name: z.string(),
+  contact: z.string(),
+});
+
+const guestImportReport = z.object({
+  created: z.array(z.object({ row: z.number(), guest_id: z.string(), name: z.string() })),
+  skipped: z.array(
+    z.object({
+      row: z.number(),
+      name: z.string(),
+      contact: z.string(),
+      existing_guest_id: z.string(),
+    }),
+  ),
+  invalid: z.array(z.object({ row: z.number(), reason: z.string() })),
+  possible_duplicates: z.array(
+    z.object({
+      row: z.number(),
+      guest_id: z.string(),
+      name: z.string(),
+      matches: z.array(possibleDuplicate),
+    }),
+  ),
+});
+
+const autoSeatReport = z.object({
+  seated_guest_ids: z.array(z.string()),
+  unseated_guest_ids: z.array(z.string()),
+  issues: z.array(z.string()),
+});
+
+const planFromTemplateReport = z.object({
+  template: z.object({ id: z.string(), name: z.string() }),
+  added: z.array(task),
+  scheduled: z.array(task),
+  skipped: z.array(z.object({ title: z.string(), existing_task_id: z.string() })),
+});
+
+export const publishedExport = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  url: z.string(),
+  expires_at: z.string(),
+});
+
+export const dashboardData = z.object({
+  wedding: weddingSummary,
+  collaborators: z.array(collaborator),
+  currentUserRole: collaboratorRole.nullable(),
+  eventDetails: eventDetails.nullable(),
+  events: z.array(weddingEvent),
+  guests: z.array(guest),
+  households: z.array(household),
+  tasks: z.array(task),
+  pendingTasks: z.array(pendingTask),
+  countdown: weddingCountdown,
+  schedule: z.array(scheduleItem),
+  scheduleIssues: z.array(scheduleIssue),
+  latestInvitation: invitationDraft.nullable(),
+  expenses: z.array(expense),
+  budget: budgetSummary,
+  vendors: z.array(vendor),
+  seating: seatingChart,
+  activity: z.array(activityEntry),
+});
+
+// What individual tools report about the call itself, next to the snapshot.
+// Each tool picks the fields it sets when it builds its output schema.
+const reportFields = {
+  guest_id: z.string(),
+  event_id: z.string(),
+  vendor_id: z.string(),
+  change_id: z.string(),
+  schedule_item_id: z.string(),
+  possible_duplicates: z.array(possibleDuplicate),
+  schedule_issues: z.array(scheduleIssue),
+  seating_report: autoSeatReport,
+  import_report: guestImportReport,
+  plan_report: planFromTemplateReport,
+  rsvp_links: z.array(
+    z.object({ guest_id: z.string(), name: z.string(), contact: z.string(), url: z.string() }),
+  ),
+  invitation_text: z.string(),
+  invitation_image_url: z.string().nullable(),
+  calendar_feed: z.object({
+    url: z.string(),
+    webcal_url: z.string(),
+    event_count: z.number(),
+    ics: z.string(),
+  }),
+  budget: budgetSummary,
+  countdown: weddingCountdown,
+  history: z.array(changeEntry),
+  weddings: z.array(weddingSummary.extend({ active: z.boolean(), role: collaboratorRole })),
+  collaborator,
+  collaborators: z.array(collaborator),
+  invitations: z.array(collaboratorInvitation),
+  invitation: collaboratorInvitation.extend({ invite_code: z.string() }),
+};
+
+type ReportFields = typeof reportFields;
+
+// Published once per outputSchema under `definitions`; `data` refers to it.
+export const dashboardOutputDefinitions = { WeddingDashboardData: dashboardData };
+
+// Output schema of one dashboard tool: the tab it opens (`view`), the report
+// fields it sets and the dashboard snapshot (`data`).
+export function dashboardOutput<
+  const TView extends DashboardView,
+  const TReport extends keyof ReportFields = never,
+>(view: TView, reports: readonly TReport[] = []) {
+  return z.object({
+    view: z.literal(view),
+    ...(Object.fromEntries(reports.map((key) => [key, reportFields[key]])) as Pick<
+      ReportFields,
+      TReport
+    >),
+    data: dashboardData,
+  });
+}
+
+export type DashboardView = (typeof dashboardViews)[number];
+// Any dashboard tool's structuredContent, as the widget sees it.
+export type DashboardOutput = {
+  view: DashboardView;
+  data: DashboardData;
+} & Partial<{ [K in keyof ReportFields]: z.infer<ReportFields[K]> }>;
+export type DashboardData = z.infer<typeof dashboardData>;
+export type RSVPStatus = z.infer<typeof rsvpStatus>;
+export type CollaboratorRole = z.infer<typeof collaboratorRole>;
+export type GuestSide = z.infer<typeof guestSide>;
+export type AgeGroup = z.infer<typeof ageGroup>;
+export type TaskStatus = z.infer<typeof taskStatus>;
+export type DueStatus = z.infer<typeof dueStatus>;
+export type ContractStatus = z.infer<typeof contractStatus>;
+export type WeddingSummary = z.infer<typeof weddingSummary>;
+export type Collaborator = z.infer<typeof collaborator>;
+export type EventDetails = z.infer<typeof eventDetails>;
+export type WeddingEvent = z.infer<typeof weddingEvent>;
+export type Household = z.infer<typeof household>;
+export type Guest = z.infer<typeof guest>;
+export type Task = z.infer<typeof task>;
+export type PendingTask = z.infer<typeof pendingTask>;
+export type WeddingCountdown = z.infer<typeof weddingCountdown>;
+export type ScheduleItem = z.infer<typeof scheduleItem>;
+export type ScheduleIssue = z.infer<typeof scheduleIssue>;
+export type InvitationDraft = z.infer<typeof invitationDraft>;
+export type Expense = z.infer<typeof expense>;
+export type BudgetSummary = z.infer<typeof budgetSummary>;
+export type Vendor = z.infer<typeof vendor>;
+export type SeatingConstraint = z.infer<typeof seatingConstraint>;
+export type SeatingChart = z.infer<typeof seatingChart>;
+export type ActivityEntry = z.infer<typeof activityEntry>;
+export type GuestImportReport = z.infer<typeof guestImportReport>;
+export type AutoSeatReport = z.infer<typeof autoSeatReport>;
+export type PublishedExport = z.infer<typeof publishedExport>;
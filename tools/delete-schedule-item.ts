@@ -0,0 +1,50 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { deleteScheduleItem, getWeddingDashboardData } from "./wedding-store";
+
+const deleteScheduleItemInput = z.object({
+  schedule_item_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Schedule item id like schedule_1."),
+});
+
+export default defineTool({
+  name: "deleteScheduleItem",
+  title: "Delete Schedule Item",
+  description: "Remove an item from the wedding day schedule.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: deleteScheduleItemInput,
+  output: dashboardOutput("schedule"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Deleting schedule item",
+  invoked: "Schedule item deleted",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const item = deleteScheduleItem(wedding, input.schedule_item_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed ${item.time} ${item.description} from the schedule.`,
+        },
+      ],
+      structuredContent: {
+        view: "schedule",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { deleteTask, getWeddingDashboardData } from "./wedding-store";
+
+const deleteTaskInput = z.object({
+  task_id: z.string().trim().min(1).describe("Task id like task_1."),
+});
+
+export default defineTool({
+  name: "deleteTask",
+  title: "Delete Task",
+  description:
+    "Permanently delete a wedding checklist task. Prefer updateTask with status Cancelled to keep it on record.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: deleteTaskInput,
+  output: dashboardOutput("tasks"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Deleting task",
+  invoked: "Task deleted",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const task = deleteTask(wedding, input.task_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Deleted task "${task.title}".`,
+        },
+      ],
+      structuredContent: {
+        view: "tasks",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,37 @@
+import { z } from "zod/v3";
+
+// Optional event attributes shared by addEvent and updateEvent.
+export const eventDetailsShape = {
+  date: z
+    .string()
+    .trim()
+    .optional()
+    .describe("Event date, e.g. 2027-06-11 or June 11, 2027. Empty to clear it."),
+  start_time: z
+    .string()
+    .trim()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe("When the event starts, e.g. 7pm or 19:00."),
+  end_time: z
+    .string()
+    .trim()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe("When the event ends, e.g. 10pm."),
+  venue: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Where the event takes place, e.g. Villa Balbiano terrace."),
+  guest_ids: z
+    .array(z.string().trim().min(1))
+    .nullable()
+    .optional()
+    .describe(
+      "Guests invited to this event, like ['guest_1', 'guest_4']. Null invites the whole guest list.",
+    ),
+};
@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { publishExportFile } from "../utils/export-files";
+import { publishedExport } from "./dashboard-output";
+import { buildBackupFile } from "./wedding-backup";
+import { getWeddingContext } from "./wedding-context";
+import { exportWeddingBackup } from "./wedding-store";
+
+// Larger backups are only linked, not repeated in the model-visible text.
+const INLINE_CONTENT_LIMIT = 20_000;
+
+const exportWeddingBackupInput = z.object({});
+
+export default defineTool({
+  name: "exportWeddingBackup",
+  title: "Export Wedding Backup",
+  description:
+    "Save the whole wedding plan (event details, events, guests, tasks, schedule, budget, vendors, seating, invitation draft and id counters) as a versioned JSON backup that importWeddingBackup can restore. Returns a download link valid for one hour.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: exportWeddingBackupInput,
+  output: z.object({ export: publishedExport }),
+  invoking: "Preparing backup",
+  invoked: "Backup ready",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const backup = exportWeddingBackup(wedding);
+    const file = buildBackupFile(backup);
+    const published = publishExportFile(file);
+    const lines = [
+      `Download ${published.filename}: ${published.url} (expires ${published.expires_at}).`,
+      `Backup of ${backup.data.guests.length} guest(s), ${backup.data.tasks.length} task(s) and ${backup.data.schedule.length} schedule item(s), schema version ${backup.schema_version}.`,
+    ];
+
+    if (file.content.length <= INLINE_CONTENT_LIMIT) {
+      lines.push("", file.content);
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: { export: published },
+    };
+  },
+});
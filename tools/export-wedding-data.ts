@@ -0,0 +1,54 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { publishExportFile } from "../utils/export-files";
+import { publishedExport } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { buildExportFile, EXPORT_FORMATS } from "./wedding-export";
+import { getWeddingDashboardData } from "./wedding-store";
+
+// Larger files are only linked, not repeated in the model-visible text.
+const INLINE_CONTENT_LIMIT = 20_000;
+
+const exportWeddingDataInput = z.object({
+  format: z
+    .enum(EXPORT_FORMATS)
+    .describe(
+      "guests_csv (spreadsheet, re-importable with importGuests), guests_vcard (contacts), tasks_csv (checklist), or summary_markdown (full planning summary).",
+    ),
+});
+
+export default defineTool({
+  name: "exportWeddingData",
+  title: "Export Wedding Data",
+  description:
+    "Export the guest list as CSV or vCard, the checklist as CSV, or a full planning summary as Markdown. Returns a download link valid for one hour.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: exportWeddingDataInput,
+  output: z.object({ export: publishedExport }),
+  // The dashboard's export buttons call it; the file is the whole result.
+  widgetAccessible: true,
+  invoking: "Preparing export",
+  invoked: "Export ready",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const data = getWeddingDashboardData(wedding);
+    const file = buildExportFile(input.format, data);
+    const published = publishExportFile(file);
+    const lines = [
+      `Download ${published.filename}: ${published.url} (expires ${published.expires_at}).`,
+    ];
+
+    if (file.content.length <= INLINE_CONTENT_LIMIT) {
+      lines.push("", file.content);
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: { export: published },
+    };
+  },
+});
@@ -1,5 +1,7 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
 import {
   getWeddingDashboardData,
   setLatestInvitation,
@@ -212,10 +214,14 @@ export default defineTool({
     destructiveHint: false,
   },
   input: generateInvitationTextInput,
+  output: dashboardOutput("invitation", ["invitation_text", "invitation_image_url"]),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Generating invitation text",
   invoked: "Invitation text ready",
-  async handler(input) {
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+
     let invitationText = buildFallbackInvitationText(input.theme);
     let invitationImageUrl: string | null = null;
 
@@ -234,6 +240,7 @@ export default defineTool({
     }
 
     const invitation = setLatestInvitation(
+      wedding,
       input.theme,
       invitationText,
       invitationImageUrl,
@@ -245,7 +252,7 @@ export default defineTool({
         view: "invitation",
         invitation_text: invitation.text,
         invitation_image_url: invitation.image_url,
-        data: getWeddingDashboardData(),
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
@@ -0,0 +1,56 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { CHECKLIST_TEMPLATE_IDS, CHECKLIST_TEMPLATES } from "./checklist-templates";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { describeDue } from "./wedding-dates";
+import { generatePlanFromTemplate, getWeddingDashboardData } from "./wedding-store";
+
+const templateList = CHECKLIST_TEMPLATE_IDS.map(
+  (id) => `${id} (${CHECKLIST_TEMPLATES[id].description})`,
+).join("; ");
+
+const generatePlanFromTemplateInput = z.object({
+  template_id: z
+    .enum(CHECKLIST_TEMPLATE_IDS)
+    .describe(`Checklist template to apply: ${templateList}.`),
+});
+
+export default defineTool({
+  name: "generatePlanFromTemplate",
+  title: "Generate Plan From Template",
+  description:
+    "Add a checklist template's tasks to the wedding checklist, due relative to the wedding date. Tasks already on the checklist are not duplicated; ones without a due date take the template's. Steps that would be due before the wedding was created are due on that day instead.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: generatePlanFromTemplateInput,
+  output: dashboardOutput("tasks", ["plan_report"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Generating plan",
+  invoked: "Plan generated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const report = generatePlanFromTemplate(wedding, input.template_id);
+    const lines = [
+      `Applied the ${report.template.name} template: ${report.added.length} task(s) added, ${report.scheduled.length} existing task(s) scheduled, ${report.skipped.length} already on the checklist.`,
+      ...report.added.map((task) => `- ${task.title}, ${describeDue(task)}`),
+    ];
+
+    if (report.added.some((task) => !task.due_date)) {
+      lines.push("Set the wedding date to fill in the due dates.");
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: {
+        view: "tasks",
+        plan_report: report,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
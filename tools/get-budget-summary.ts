@@ -0,0 +1,54 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getBudgetSummary, getWeddingDashboardData } from "./wedding-store";
+
+const getBudgetSummaryInput = z.object({});
+
+export default defineTool({
+  name: "getBudgetSummary",
+  title: "Get Budget Summary",
+  description:
+    "Get total budget, spend, paid and unpaid amounts, per-category allocations, and over-budget warnings.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: getBudgetSummaryInput,
+  output: dashboardOutput("budget", ["budget"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Loading budget",
+  invoked: "Budget loaded",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const summary = getBudgetSummary(wedding);
+    const lines = summary.categories.map(
+      (category) =>
+        `- ${category.category}: $${category.spent} spent${category.allocated > 0 ? ` of $${category.allocated}` : ""}${category.over_budget ? " (over)" : ""}`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `$${summary.spent} of $${summary.total_budget} committed ($${summary.paid} paid, $${summary.unpaid} unpaid).`,
+            ...lines,
+            ...summary.warnings,
+          ].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "budget",
+        budget: summary,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,55 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { formatICalendar } from "../utils/icalendar";
+import { createCalendarFeedUrls } from "./calendar-links";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { buildWeddingCalendar } from "./wedding-calendar";
+import { getWeddingContext } from "./wedding-context";
+import { getEntityRevisions, getWeddingDashboardData } from "./wedding-store";
+
+const getCalendarFeedInput = z.object({});
+
+export default defineTool({
+  name: "getCalendarFeed",
+  title: "Get Calendar Feed",
+  description:
+    "Get a calendar (.ics) subscription link for the wedding day, its events, their schedules and task due dates. Calendar apps that subscribe to it see changes as the plan is updated.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: getCalendarFeedInput,
+  output: dashboardOutput("schedule", ["calendar_feed"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Preparing calendar feed",
+  invoked: "Calendar feed ready",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const data = getWeddingDashboardData(wedding);
+    const feed = buildWeddingCalendar(data, getEntityRevisions(wedding));
+    const urls = createCalendarFeedUrls(wedding);
+    const lines = [
+      `Subscribe to ${feed.events.length} calendar event(s): ${urls.webcal_url}`,
+      `Or download the file: ${urls.url}`,
+    ];
+
+    if (!data.eventDetails?.event_date) {
+      lines.push("Set the wedding date to add the wedding day schedule to the calendar.");
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: {
+        view: "schedule",
+        calendar_feed: {
+          ...urls,
+          event_count: feed.events.length,
+          ics: formatICalendar(feed),
+        },
+        data,
+      },
+    };
+  },
+});
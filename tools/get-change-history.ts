@@ -0,0 +1,61 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getChangeHistory, getWeddingDashboardData } from "./wedding-store";
+
+const getChangeHistoryInput = z.object({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe("How many recent changes to return, newest first."),
+});
+
+export default defineTool({
+  name: "getChangeHistory",
+  title: "Get Change History",
+  description:
+    "List recent changes to the wedding plan with who made them, when, which tool, and the before/after values. Use the change ids with revertChange.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: getChangeHistoryInput,
+  output: dashboardOutput("activity", ["history"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Loading change history",
+  invoked: "Change history loaded",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const history = getChangeHistory(wedding, input.limit);
+    const lines = history.map(
+      (entry) =>
+        `- ${entry.id} at ${entry.at} by ${entry.user_id}${entry.tool ? ` via ${entry.tool}` : ""}: ${entry.summary}${entry.reverted_by ? ` (reverted by ${entry.reverted_by})` : ""}`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            history.length > 0
+              ? [`Found ${history.length} change(s).`, ...lines].join("\n")
+              : "No changes recorded yet.",
+        },
+      ],
+      structuredContent: {
+        view: "activity",
+        history,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
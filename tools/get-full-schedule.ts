@@ -1,34 +1,61 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
 import { getFullSchedule, getWeddingDashboardData } from "./wedding-store";
 
-const getFullScheduleInput = z.object({});
+const getFullScheduleInput = z.object({
+  event_id: z
+    .string()
+    .trim()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe(
+      "Only this event's schedule, like event_1, or null for the wedding day. Defaults to every day.",
+    ),
+});
 
 export default defineTool({
   name: "getFullSchedule",
   title: "Get Full Schedule",
-  description: "Get the full wedding schedule.",
+  description:
+    "Get the schedule for the wedding day and its events in chronological order, with overlapping items and long gaps flagged.",
   annotations: {
     readOnlyHint: true,
     openWorldHint: false,
     destructiveHint: false,
   },
   input: getFullScheduleInput,
+  output: dashboardOutput("schedule", ["schedule_issues"]),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Loading full schedule",
   invoked: "Full schedule loaded",
-  async handler() {
-    const schedule = getFullSchedule();
-    const message =
-      schedule.length > 0
-        ? `Loaded ${schedule.length} schedule item(s).`
-        : "No schedule items yet.";
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const schedule = getFullSchedule(wedding, input.event_id);
+    const lines =
+      schedule.items.length > 0
+        ? [
+            `Loaded ${schedule.items.length} schedule item(s).`,
+            ...schedule.items.map(
+              (item) =>
+                `- ${item.event_id ? `[${item.event_id}] ` : ""}${item.time}${item.end_time ? `-${item.end_time}` : ""} ${item.description} (${item.id})${item.location ? ` at ${item.location}` : ""}${item.owner ? `, owner ${item.owner}` : ""}`,
+            ),
+            ...schedule.issues.map((issue) => `! ${issue.message}`),
+          ]
+        : ["No schedule items yet."];
 
     return {
-      content: [{ type: "text", text: message }],
+      content: [{ type: "text", text: lines.join("\n") }],
       structuredContent: {
         view: "schedule",
-        data: getWeddingDashboardData(),
+        schedule_issues: schedule.issues,
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
@@ -1,5 +1,11 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { describeDue } from "./wedding-dates";
 import { getPendingTasks, getWeddingDashboardData } from "./wedding-store";
 
 const getPendingTasksInput = z.object({});
@@ -7,28 +13,45 @@ const getPendingTasksInput = z.object({});
 export default defineTool({
   name: "getPendingTasks",
   title: "Get Pending Tasks",
-  description: "Get the list of pending wedding tasks.",
+  description:
+    "Get the list of open wedding tasks (Pending or In progress), flagged as overdue, due soon, or upcoming, plus the countdown to the wedding.",
   annotations: {
     readOnlyHint: true,
     openWorldHint: false,
     destructiveHint: false,
   },
   input: getPendingTasksInput,
+  output: dashboardOutput("tasks", ["countdown"]),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Loading pending tasks",
   invoked: "Pending tasks loaded",
-  async handler() {
-    const pendingTasks = getPendingTasks();
-    const message =
-      pendingTasks.length > 0
-        ? `Found ${pendingTasks.length} pending task(s).`
-        : "No pending tasks left.";
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const { tasks, countdown } = getPendingTasks(wedding);
+    const overdue = tasks.filter((task) => task.due_status === "overdue");
+    const dueSoon = tasks.filter((task) => task.due_status === "due_soon");
+    const lines = [
+      countdown.days_until_wedding === null
+        ? "The wedding date is not set yet."
+        : countdown.days_until_wedding >= 0
+          ? `${countdown.days_until_wedding} day(s) until the wedding on ${countdown.event_date}.`
+          : `The wedding was ${-countdown.days_until_wedding} day(s) ago.`,
+      tasks.length > 0
+        ? `Found ${tasks.length} pending task(s): ${overdue.length} overdue, ${dueSoon.length} due soon.`
+        : "No pending tasks left.",
+      ...[...overdue, ...dueSoon].map(
+        (task) =>
+          `- ${task.due_status === "overdue" ? "OVERDUE" : "Soon"}: ${task.title} (${task.id}), ${describeDue(task)}`,
+      ),
+    ];
 
     return {
-      content: [{ type: "text", text: message }],
+      content: [{ type: "text", text: lines.join("\n") }],
       structuredContent: {
         view: "tasks",
-        data: getWeddingDashboardData(),
+        countdown,
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
@@ -0,0 +1,83 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { NotFoundError } from "../utils/tool-errors";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { createRsvpUrl } from "./rsvp-links";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, setMealOptions } from "./wedding-store";
+
+const getRsvpLinksInput = z.object({
+  guest_ids: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe("Guests to create links for, like guest_1. Defaults to every guest."),
+  meal_options: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe(
+      "Meals guests can choose from on their RSVP page, e.g. ['Chicken', 'Fish', 'Vegetarian']. Replaces the current list; an empty list lets guests type their meal.",
+    ),
+});
+
+export default defineTool({
+  name: "getRsvpLinks",
+  title: "Get RSVP Links",
+  description:
+    "Create a private RSVP link for each guest. Guests open it to answer Yes, No or Maybe, pick a meal and leave a note, and their answer is saved to the guest list.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: getRsvpLinksInput,
+  output: dashboardOutput("guests", ["rsvp_links"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Creating RSVP links",
+  invoked: "RSVP links ready",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+
+    if (input.meal_options) {
+      setMealOptions(wedding, input.meal_options);
+    }
+
+    const data = getWeddingDashboardData(wedding);
+    const guestsById = new Map(data.guests.map((guest) => [guest.id, guest]));
+    const guests = input.guest_ids
+      ? input.guest_ids.map((guestId) => {
+          const guest = guestsById.get(guestId);
+          if (!guest) {
+            throw new NotFoundError(`Guest with id "${guestId}" was not found.`);
+          }
+          return guest;
+        })
+      : data.guests;
+    const links = guests.map((guest) => ({
+      guest_id: guest.id,
+      name: guest.name,
+      contact: guest.contact,
+      url: createRsvpUrl(wedding, guest.id),
+    }));
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            links.length > 0
+              ? [
+                  `RSVP links for ${links.length} guest(s):`,
+                  ...links.map((link) => `- ${link.name} (${link.contact}): ${link.url}`),
+                ].join("\n")
+              : "There are no guests to create RSVP links for yet.",
+        },
+      ],
+      structuredContent: {
+        view: "guests",
+        rsvp_links: links,
+        data,
+      },
+    };
+  },
+});
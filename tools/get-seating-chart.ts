@@ -0,0 +1,55 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getSeatingChart, getWeddingDashboardData } from "./wedding-store";
+
+const getSeatingChartInput = z.object({});
+
+export default defineTool({
+  name: "getSeatingChart",
+  title: "Get Seating Chart",
+  description:
+    "Show tables with their seated guests, seating constraints, and confirmed guests still without a table.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: getSeatingChartInput,
+  output: dashboardOutput("seating"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Loading seating chart",
+  invoked: "Seating chart loaded",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const seating = getSeatingChart(wedding);
+    const lines = seating.tables.map(
+      (table) =>
+        `- ${table.name} (${table.id}), ${table.seats_used}/${table.capacity} seats: ${table.guest_ids.join(", ") || "empty"}`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            seating.tables.length > 0
+              ? `${seating.tables.length} table(s).`
+              : "No tables yet.",
+            ...lines,
+            `Unassigned confirmed guests: ${seating.unassigned_guest_ids.join(", ") || "none"}.`,
+          ].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "seating",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
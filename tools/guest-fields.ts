@@ -0,0 +1,54 @@
+import { z } from "zod/v3";
+import { AGE_GROUPS, GUEST_SIDES } from "./wedding-store";
+
+// Optional guest attributes shared by addGuest and updateGuest.
+export const guestDetailsShape = {
+  household: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe(
+      "Household name, e.g. 'The Smiths'. Guests in the same household share one invitation. Null removes the guest from their household.",
+    ),
+  side: z
+    .enum(GUEST_SIDES)
+    .optional()
+    .describe("Whose side the guest is on: Partner A, Partner B, or Mutual."),
+  plus_one_allowed: z
+    .boolean()
+    .optional()
+    .describe("Whether the guest may bring a plus-one."),
+  plus_one_name: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Name of the guest's plus-one, if known."),
+  tags: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe("Free-form labels such as 'college' or 'work'. Replaces existing tags."),
+  meal_choice: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Selected meal, e.g. 'Chicken', 'Fish', or 'Vegetarian'."),
+  dietary_restrictions: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe(
+      "Dietary needs such as 'vegan', 'gluten-free', or 'nut allergy'. Replaces existing entries.",
+    ),
+  age_group: z
+    .enum(AGE_GROUPS)
+    .optional()
+    .describe("Age group: Adult, Teen, Child, or Infant."),
+  accessibility_notes: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Accessibility needs, e.g. 'wheelchair access'."),
+};
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { InvalidInputError } from "../utils/tool-errors";
+import { parseGuestCsv, parseGuestVCards } from "./guest-import";
+import { addGuest, createWedding, importGuests } from "./wedding-store";
+
+describe("parseGuestCsv", () => {
+  it("recognises common headers and numbers rows as a spreadsheet does", () => {
+    const { rows, invalid } = parseGuestCsv(
+      [
+        "First Name;Last Name;E-mail;Plus One;Dietary",
+        "Ann;Lee;ann@example.com;yes;vegan, nut allergy",
+        "Bo;;;no;",
+        ";;cy@example.com;;",
+      ].join("\n"),
+    );
+
+    assert.deepEqual(rows, [
+      {
+        row: 2,
+        name: "Ann Lee",
+        contact: "ann@example.com",
+        plus_one_allowed: true,
+        dietary_restrictions: ["vegan", "nut allergy"],
+      },
+    ]);
+    assert.deepEqual(invalid, [
+      { row: 3, reason: "Missing email or phone for Bo." },
+      { row: 4, reason: "Missing name." },
+    ]);
+  });
+
+  it("follows an explicit column mapping", () => {
+    const { rows } = parseGuestCsv("Who,How to reach,Team\nAnn,ann@example.com,partner b\n", {
+      name: "Who",
+      contact: "How to reach",
+      side: "Team",
+    });
+
+    assert.deepEqual(rows, [
+      { row: 2, name: "Ann", contact: "ann@example.com", side: "Partner B" },
+    ]);
+  });
+
+  it("reports values it cannot map instead of guessing", () => {
+    const { invalid } = parseGuestCsv(
+      "Name,Email,Side,Plus one\nAnn,ann@example.com,groom,\nBo,bo@example.com,,maybe\n",
+    );
+
+    assert.deepEqual(invalid, [
+      { row: 2, reason: 'Unknown side "groom" for Ann.' },
+      { row: 3, reason: 'Plus-one value "maybe" for Bo should be yes or no.' },
+    ]);
+  });
+
+  it("refuses files without a name or contact column", () => {
+    assert.throws(() => parseGuestCsv("Email\nann@example.com\n"), /No name column found/);
+    assert.throws(() => parseGuestCsv("Name\nAnn\n"), /No contact, email or phone column/);
+    assert.throws(() => parseGuestCsv("Name,Email\n", { phone: "Mobile" }), InvalidInputError);
+    assert.throws(() => parseGuestCsv(""), /The CSV data is empty/);
+  });
+});
+
+describe("parseGuestVCards", () => {
+  it("takes each contact's first email, falling back to a phone number", () => {
+    const { rows, invalid } = parseGuestVCards(
+      [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "FN:Ann Lee",
+        "EMAIL;TYPE=home:ann@example.com",
+        "EMAIL;TYPE=work:ann@work.example.com",
+        "END:VCARD",
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "N:Park;Bo;;;",
+        "TEL;TYPE=cell:+1 512 555 0100",
+        "END:VCARD",
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "FN:Cy",
+        "END:VCARD",
+      ].join("\r\n"),
+    );
+
+    assert.deepEqual(rows, [
+      { row: 1, name: "Ann Lee", contact: "ann@example.com" },
+      { row: 2, name: "Bo Park", contact: "+1 512 555 0100" },
+    ]);
+    assert.deepEqual(invalid, [{ row: 3, reason: "Missing email or phone for Cy." }]);
+  });
+
+  it("refuses text without vCards", () => {
+    assert.throws(() => parseGuestVCards("Ann, ann@example.com"), /No vCard entries/);
+  });
+});
+
+describe("importGuests", () => {
+  it("reports created, skipped, invalid and look-alike rows", () => {
+    const ctx = { userId: "importer", weddingId: createWedding("importer", { name: "A & B" }).id };
+    const { guest: existing } = addGuest(ctx, { name: "Jon Smith", contact: "+15125550100" });
+
+    const report = importGuests(ctx, [
+      { row: 2, name: "Ann Lee", contact: "ANN@example.com" },
+      { row: 3, name: "Jonathan", contact: "(512) 555-0100" },
+      { row: 4, name: "Annie", contact: "ann@example.com" },
+      { row: 5, name: "john smith", contact: "john@example.com" },
+      { row: 6, name: "Dee", contact: "not a contact" },
+    ]);
+
+    assert.deepEqual(
+      report.created.map((created) => [created.row, created.name]),
+      [
+        [2, "Ann Lee"],
+        [5, "john smith"],
+      ],
+    );
+    assert.deepEqual(
+      report.skipped.map((skipped) => [skipped.row, skipped.existing_guest_id]),
+      [
+        [3, existing.id],
+        [4, report.created[0].guest_id],
+      ],
+    );
+    assert.deepEqual(
+      report.possible_duplicates.map((duplicate) => [duplicate.row, duplicate.matches[0].guest_id]),
+      [[5, existing.id]],
+    );
+    assert.deepEqual(
+      report.invalid.map((entry) => entry.row),
+      [6],
+    );
+  });
+});
@@ -0,0 +1,258 @@
+import { parseCsv } from "../utils/csv";
+import { InvalidInputError } from "../utils/tool-errors";
+import { parseVCards } from "../utils/vcard";
+import {
+  AGE_GROUPS,
+  GUEST_SIDES,
+  type GuestImportReport,
+  type GuestImportRow,
+} from "./wedding-store";
+
+export const GUEST_IMPORT_FIELDS = [
+  "name",
+  "first_name",
+  "last_name",
+  "contact",
+  "email",
+  "phone",
+  "household",
+  "side",
+  "plus_one_allowed",
+  "plus_one_name",
+  "tags",
+  "meal_choice",
+  "dietary_restrictions",
+  "age_group",
+  "accessibility_notes",
+] as const;
+
+export type GuestImportField = (typeof GUEST_IMPORT_FIELDS)[number];
+
+// Maps a guest field to the CSV header holding it.
+export type GuestColumnMapping = Partial<Record<GuestImportField, string>>;
+
+export type ParsedGuestImport = {
+  rows: GuestImportRow[];
+  invalid: GuestImportReport["invalid"];
+};
+
+// Header spellings recognised when no explicit mapping is given, compared
+// after normalizeHeader.
+const HEADER_ALIASES: Record<GuestImportField, string[]> = {
+  name: ["name", "full name", "guest", "guest name", "display name"],
+  first_name: ["first name", "firstname", "given name", "first"],
+  last_name: ["last name", "lastname", "surname", "family name", "last"],
+  contact: ["contact", "contact info"],
+  email: ["email", "e mail", "email address", "e mail address"],
+  phone: ["phone", "phone number", "mobile", "cell", "telephone", "tel"],
+  household: ["household", "household name", "family", "party"],
+  side: ["side"],
+  plus_one_allowed: ["plus one", "plus one allowed", "+1"],
+  plus_one_name: ["plus one name", "companion"],
+  tags: ["tags", "tag", "group", "groups", "labels"],
+  meal_choice: ["meal", "meal choice", "entree", "menu"],
+  dietary_restrictions: ["dietary", "dietary restrictions", "diet", "allergies"],
+  age_group: ["age group", "age"],
+  accessibility_notes: ["accessibility", "accessibility notes", "access needs"],
+};
+
+const YES_VALUES = ["yes", "y", "true", "1", "x"];
+const NO_VALUES = ["no", "n", "false", "0"];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_-]+/g, " ").replace(/\s+/g, " ");
+}
+
+function resolveColumns(
+  headers: string[],
+  mapping: GuestColumnMapping,
+): Partial<Record<GuestImportField, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<GuestImportField, number>> = {};
+
+  for (const field of GUEST_IMPORT_FIELDS) {
+    const mapped = mapping[field];
+
+    if (mapped !== undefined) {
+      const index = normalized.indexOf(normalizeHeader(mapped));
+
+      if (index < 0) {
+        throw new InvalidInputError(
+          `Column "${mapped}" mapped to ${field} was not found. Columns: ${headers.join(", ")}.`,
+        );
+      }
+
+      columns[field] = index;
+      continue;
+    }
+
+    const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+    if (index >= 0) {
+      columns[field] = index;
+    }
+  }
+
+  if (columns.name === undefined && columns.first_name === undefined) {
+    throw new InvalidInputError(
+      `No name column found. Map one with column_mapping.name. Columns: ${headers.join(", ")}.`,
+    );
+  }
+
+  if (
+    columns.contact === undefined &&
+    columns.email === undefined &&
+    columns.phone === undefined
+  ) {
+    throw new InvalidInputError(
+      `No contact, email or phone column found. Map one with column_mapping. Columns: ${headers.join(", ")}.`,
+    );
+  }
+
+  return columns;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[;,|]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function matchOption<T extends string>(value: string, options: readonly T[]): T | null {
+  return options.find((option) => option.toLowerCase() === value.toLowerCase()) ?? null;
+}
+
+function toImportRow(
+  row: number,
+  value: (field: GuestImportField) => string,
+): GuestImportRow | { row: number; reason: string } {
+  const name =
+    value("name") || [value("first_name"), value("last_name")].filter(Boolean).join(" ");
+  const contact = value("contact") || value("email") || value("phone");
+
+  if (!name) {
+    return { row, reason: "Missing name." };
+  }
+
+  if (!contact) {
+    return { row, reason: `Missing email or phone for ${name}.` };
+  }
+
+  const guest: GuestImportRow = { row, name, contact };
+
+  if (value("household")) {
+    guest.household = value("household");
+  }
+
+  if (value("side")) {
+    const side = matchOption(value("side"), GUEST_SIDES);
+    if (!side) {
+      return { row, reason: `Unknown side "${value("side")}" for ${name}.` };
+    }
+    guest.side = side;
+  }
+
+  if (value("age_group")) {
+    const ageGroup = matchOption(value("age_group"), AGE_GROUPS);
+    if (!ageGroup) {
+      return { row, reason: `Unknown age group "${value("age_group")}" for ${name}.` };
+    }
+    guest.age_group = ageGroup;
+  }
+
+  const plusOne = value("plus_one_allowed").toLowerCase();
+  if (YES_VALUES.includes(plusOne)) {
+    guest.plus_one_allowed = true;
+  } else if (NO_VALUES.includes(plusOne)) {
+    guest.plus_one_allowed = false;
+  } else if (plusOne) {
+    return { row, reason: `Plus-one value "${plusOne}" for ${name} should be yes or no.` };
+  }
+
+  if (value("plus_one_name")) {
+    if (guest.plus_one_allowed === false) {
+      return { row, reason: `${name} has a named plus-one but no plus-one allowance.` };
+    }
+    guest.plus_one_name = value("plus_one_name");
+  }
+
+  if (value("tags")) {
+    guest.tags = splitList(value("tags"));
+  }
+
+  if (value("meal_choice")) {
+    guest.meal_choice = value("meal_choice");
+  }
+
+  if (value("dietary_restrictions")) {
+    guest.dietary_restrictions = splitList(value("dietary_restrictions"));
+  }
+
+  if (value("accessibility_notes")) {
+    guest.accessibility_notes = value("accessibility_notes");
+  }
+
+  return guest;
+}
+
+// The first record is the header row; rows are numbered as a spreadsheet
+// would show them, so the first guest is row 2.
+export function parseGuestCsv(text: string, mapping: GuestColumnMapping = {}): ParsedGuestImport {
+  const [headers, ...records] = parseCsv(text);
+
+  if (!headers) {
+    throw new InvalidInputError("The CSV data is empty.");
+  }
+
+  const columns = resolveColumns(headers, mapping);
+  const result: ParsedGuestImport = { rows: [], invalid: [] };
+
+  records.forEach((record, index) => {
+    const parsed = toImportRow(index + 2, (field) => {
+      const column = columns[field];
+      return column === undefined ? "" : (record[column] ?? "").trim();
+    });
+
+    if ("reason" in parsed) {
+      result.invalid.push(parsed);
+    } else {
+      result.rows.push(parsed);
+    }
+  });
+
+  return result;
+}
+
+// Each contact's first email is used, falling back to the first phone number.
+export function parseGuestVCards(text: string): ParsedGuestImport {
+  const contacts = parseVCards(text);
+
+  if (contacts.length === 0) {
+    throw new InvalidInputError("No vCard entries (BEGIN:VCARD ... END:VCARD) were found.");
+  }
+
+  const result: ParsedGuestImport = { rows: [], invalid: [] };
+
+  contacts.forEach((contact, index) => {
+    const parsed = toImportRow(index + 1, (field) => {
+      if (field === "name") {
+        return contact.name;
+      }
+      if (field === "email") {
+        return contact.emails[0] ?? "";
+      }
+      if (field === "phone") {
+        return contact.phones[0] ?? "";
+      }
+      return "";
+    });
+
+    if ("reason" in parsed) {
+      result.invalid.push(parsed);
+    } else {
+      result.rows.push(parsed);
+    }
+  });
+
+  return result;
+}
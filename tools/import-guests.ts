@@ -0,0 +1,84 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import {
+  GUEST_IMPORT_FIELDS,
+  parseGuestCsv,
+  parseGuestVCards,
+  type GuestImportField,
+} from "./guest-import";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, importGuests } from "./wedding-store";
+
+const columnMappingShape = Object.fromEntries(
+  GUEST_IMPORT_FIELDS.map((field) => [field, z.string().trim().min(1).optional()]),
+) as Record<GuestImportField, z.ZodOptional<z.ZodString>>;
+
+const importGuestsInput = z.object({
+  format: z.enum(["csv", "vcard"]).describe("Format of the data: csv or vcard."),
+  data: z
+    .string()
+    .min(1)
+    .describe(
+      "The file contents. CSV needs a header row; comma, semicolon and tab delimiters are detected.",
+    ),
+  column_mapping: z
+    .object(columnMappingShape)
+    .optional()
+    .describe(
+      "CSV only: header name for each guest field, e.g. {\"name\": \"Full Name\", \"email\": \"E-mail\"}. Common headers are recognised without a mapping. A name (or first_name/last_name) and a contact, email or phone column are required.",
+    ),
+});
+
+export default defineTool({
+  name: "importGuests",
+  title: "Import Guests",
+  description:
+    "Add many guests at once from CSV or vCard data. Guests whose email or phone number is already on the list are skipped, rows that cannot be read are reported as invalid, and new guests whose names look like existing ones are flagged for mergeGuests.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: importGuestsInput,
+  output: dashboardOutput("guests", ["import_report"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Importing guests",
+  invoked: "Guests imported",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const parsed =
+      input.format === "csv"
+        ? parseGuestCsv(input.data, input.column_mapping)
+        : parseGuestVCards(input.data);
+    const imported = importGuests(wedding, parsed.rows);
+    const report = {
+      ...imported,
+      invalid: [...parsed.invalid, ...imported.invalid].sort(
+        (left, right) => left.row - right.row,
+      ),
+    };
+    const lines = [
+      `Imported ${report.created.length} guest(s); skipped ${report.skipped.length} duplicate(s); ${report.invalid.length} invalid row(s).`,
+      ...report.skipped.map(
+        (entry) =>
+          `- Row ${entry.row}: ${entry.name} skipped, ${entry.contact} is already guest ${entry.existing_guest_id}.`,
+      ),
+      ...report.invalid.map((entry) => `- Row ${entry.row}: ${entry.reason}`),
+      ...report.possible_duplicates.map(
+        (entry) =>
+          `- Row ${entry.row}: ${entry.name} (${entry.guest_id}) looks like ${entry.matches.map((match) => `${match.name} (${match.guest_id})`).join(", ")}; use mergeGuests if they are the same person.`,
+      ),
+    ];
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: {
+        view: "guests",
+        import_report: report,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
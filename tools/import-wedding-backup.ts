@@ -0,0 +1,53 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { parseWeddingBackup } from "./wedding-backup";
+import { getUserId } from "./wedding-context";
+import { getWeddingDashboardData, restoreWeddingBackup } from "./wedding-store";
+
+const importWeddingBackupInput = z.object({
+  backup: z.string().min(1).describe("Contents of a JSON backup file made by exportWeddingBackup."),
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("Name for the restored wedding. Defaults to the name in the backup."),
+});
+
+export default defineTool({
+  name: "importWeddingBackup",
+  title: "Import Wedding Backup",
+  description:
+    "Restore a backup from exportWeddingBackup as a new wedding owned by the current user and make it the active wedding. Backups from older versions of the planner are upgraded as they are restored.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: importWeddingBackupInput,
+  output: dashboardOutput("event"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Restoring backup",
+  invoked: "Backup restored",
+  async handler(input, context) {
+    const userId = getUserId(context);
+    const backup = parseWeddingBackup(input.backup);
+    const wedding = restoreWeddingBackup(userId, backup, { name: input.name });
+    const data = getWeddingDashboardData({ userId, weddingId: wedding.id });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Restored "${wedding.name}" (${wedding.id}) from the backup of ${backup.exported_at}: ${data.guests.length} guest(s), ${data.tasks.length} task(s), ${data.schedule.length} schedule item(s).`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        data,
+      },
+    };
+  },
+});
@@ -1,23 +1,119 @@
 import type { ToolDefinition } from "../utils/define-tool";
+import acceptCollaboratorInviteTool from "./accept-collaborator-invite";
+import addEventTool from "./add-event";
+import addExpenseTool from "./add-expense";
 import addGuestTool from "./add-guest";
 import addScheduleItemTool from "./add-schedule-item";
+import addSeatingConstraintTool from "./add-seating-constraint";
+import addTableTool from "./add-table";
 import addTaskTool from "./add-task";
+import addVendorTool from "./add-vendor";
+import assignGuestToTableTool from "./assign-guest-to-table";
+import autoSeatGuestsTool from "./auto-seat-guests";
+import changeCollaboratorRoleTool from "./change-collaborator-role";
+import clearEventDetailsTool from "./clear-event-details";
+import completeTaskTool from "./complete-task";
+import createWeddingTool from "./create-wedding";
+import deleteScheduleItemTool from "./delete-schedule-item";
+import deleteTaskTool from "./delete-task";
+import exportWeddingBackupTool from "./export-wedding-backup";
+import exportWeddingDataTool from "./export-wedding-data";
 import generateInvitationTextTool from "./generate-invitation-text";
-import hctgVenueSearchTool from "./hctg-venue-search";
+import generatePlanFromTemplateTool from "./generate-plan-from-template";
+import getBudgetSummaryTool from "./get-budget-summary";
+import getCalendarFeedTool from "./get-calendar-feed";
+import getChangeHistoryTool from "./get-change-history";
 import getFullScheduleTool from "./get-full-schedule";
 import getPendingTasksTool from "./get-pending-tasks";
+import getRsvpLinksTool from "./get-rsvp-links";
+import getSeatingChartTool from "./get-seating-chart";
+import hctgVenueSearchTool from "./hctg-venue-search";
+import importGuestsTool from "./import-guests";
+import importWeddingBackupTool from "./import-wedding-backup";
+import inviteCollaboratorTool from "./invite-collaborator";
+import listCollaboratorsTool from "./list-collaborators";
+import listEventsTool from "./list-events";
+import listVendorsTool from "./list-vendors";
+import listWeddingsTool from "./list-weddings";
+import mergeGuestsTool from "./merge-guests";
+import removeCollaboratorTool from "./remove-collaborator";
+import removeEventTool from "./remove-event";
+import removeGuestTool from "./remove-guest";
+import removeSeatingConstraintTool from "./remove-seating-constraint";
+import removeTableTool from "./remove-table";
+import removeVendorTool from "./remove-vendor";
+import reopenTaskTool from "./reopen-task";
+import revertChangeTool from "./revert-change";
+import saveVenueAsVendorTool from "./save-venue-as-vendor";
+import setBudgetAllocationTool from "./set-budget-allocation";
 import setEventDetailsTool from "./set-event-details";
+import switchWeddingTool from "./switch-wedding";
 import tripadvisorVenueSearchTool from "./tripadvisor-venue-search";
+import undoLastChangeTool from "./undo-last-change";
+import updateEventTool from "./update-event";
+import updateExpenseTool from "./update-expense";
+import updateGuestTool from "./update-guest";
 import updateGuestStatusTool from "./update-guest-status";
+import updateScheduleItemTool from "./update-schedule-item";
+import updateTaskTool from "./update-task";
+import updateVendorTool from "./update-vendor";
 
 export const toolDefinitions: ToolDefinition[] = [
+  createWeddingTool,
+  listWeddingsTool,
+  switchWeddingTool,
+  inviteCollaboratorTool,
+  acceptCollaboratorInviteTool,
+  listCollaboratorsTool,
+  changeCollaboratorRoleTool,
+  removeCollaboratorTool,
   setEventDetailsTool,
+  clearEventDetailsTool,
+  addEventTool,
+  updateEventTool,
+  removeEventTool,
+  listEventsTool,
   addGuestTool,
+  updateGuestTool,
   updateGuestStatusTool,
+  removeGuestTool,
+  mergeGuestsTool,
+  importGuestsTool,
+  getRsvpLinksTool,
   addTaskTool,
+  updateTaskTool,
+  completeTaskTool,
+  reopenTaskTool,
+  deleteTaskTool,
+  generatePlanFromTemplateTool,
   getPendingTasksTool,
   addScheduleItemTool,
+  updateScheduleItemTool,
+  deleteScheduleItemTool,
+  addTableTool,
+  removeTableTool,
+  assignGuestToTableTool,
+  addSeatingConstraintTool,
+  removeSeatingConstraintTool,
+  autoSeatGuestsTool,
+  getSeatingChartTool,
   getFullScheduleTool,
+  getCalendarFeedTool,
+  addExpenseTool,
+  updateExpenseTool,
+  setBudgetAllocationTool,
+  getBudgetSummaryTool,
+  addVendorTool,
+  updateVendorTool,
+  removeVendorTool,
+  listVendorsTool,
+  saveVenueAsVendorTool,
+  exportWeddingDataTool,
+  exportWeddingBackupTool,
+  importWeddingBackupTool,
+  getChangeHistoryTool,
+  undoLastChangeTool,
+  revertChangeTool,
   generateInvitationTextTool,
   tripadvisorVenueSearchTool,
   hctgVenueSearchTool,
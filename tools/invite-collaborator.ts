@@ -0,0 +1,63 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { createInviteCode } from "./collaborator-invites";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { ROLE_LABELS } from "./wedding-permissions";
+import { COLLABORATOR_ROLES, getWeddingDashboardData, inviteCollaborator } from "./wedding-store";
+
+const inviteCollaboratorInput = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .describe("Who the invitation is for, for example 'Mum' or 'Jordan (planner)'."),
+  role: z
+    .enum(COLLABORATOR_ROLES)
+    .default("planner")
+    .describe(
+      "owner manages access, planner can change the plan, family_viewer can only look at it.",
+    ),
+});
+
+export default defineTool({
+  name: "inviteCollaborator",
+  title: "Invite Collaborator",
+  description:
+    "Create a one-time invite code that gives someone access to the current wedding with the chosen role. Only wedding owners can invite; the code expires after two weeks.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: inviteCollaboratorInput,
+  output: dashboardOutput("event", ["invitation"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Creating invitation",
+  invoked: "Invitation created",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const invitation = inviteCollaborator(wedding, input);
+    const inviteCode = createInviteCode(wedding, invitation.id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Invited ${invitation.name} as ${ROLE_LABELS[invitation.role].toLowerCase()}.`,
+            `Share this code; they can join with acceptCollaboratorInvite before ${invitation.expires_at}:`,
+            inviteCode,
+          ].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        invitation: { ...invitation, invite_code: inviteCode },
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,55 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { ROLE_LABELS } from "./wedding-permissions";
+import { getCollaborators, getWeddingDashboardData } from "./wedding-store";
+
+const listCollaboratorsInput = z.object({});
+
+export default defineTool({
+  name: "listCollaborators",
+  title: "List Collaborators",
+  description:
+    "List who has access to the current wedding, with their roles, and the invitations that have not been accepted yet.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: listCollaboratorsInput,
+  output: dashboardOutput("event", ["collaborators", "invitations"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Loading collaborators",
+  invoked: "Collaborators loaded",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const { collaborators, invitations } = getCollaborators(wedding);
+    const lines = [
+      ...collaborators.map(
+        (collaborator) =>
+          `- ${collaborator.name ?? collaborator.user_id} (${collaborator.user_id}): ${ROLE_LABELS[collaborator.role]}${collaborator.user_id === wedding.userId ? " [you]" : ""}`,
+      ),
+      ...invitations.map(
+        (invitation) =>
+          `- ${invitation.name}: ${ROLE_LABELS[invitation.role]}, invitation pending (${invitation.id})`,
+      ),
+    ];
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [`${collaborators.length} collaborator(s).`, ...lines].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        collaborators,
+        invitations,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
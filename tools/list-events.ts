@@ -0,0 +1,51 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getEvents, getWeddingDashboardData } from "./wedding-store";
+
+const listEventsInput = z.object({});
+
+export default defineTool({
+  name: "listEvents",
+  title: "List Wedding Events",
+  description:
+    "List the events around the wedding day in date order, with venue, time, invited guest count and RSVP totals for each.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: listEventsInput,
+  output: dashboardOutput("event"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Loading events",
+  invoked: "Events loaded",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const events = getEvents(wedding);
+    const lines = events.map((event) => {
+      const when = [event.date || "date TBD", event.start_time].filter(Boolean).join(" ");
+      const counts = event.rsvp_counts;
+
+      return `- ${event.name} (${event.id}): ${when}${event.venue ? ` at ${event.venue}` : ""}, ${event.invited_guest_ids.length} invited (${counts.Yes} yes, ${counts.Maybe} maybe, ${counts.No} no, ${counts.Pending} pending)`;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            events.length > 0
+              ? [`Found ${events.length} event(s).`, ...lines].join("\n")
+              : "No events besides the wedding day yet.",
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,52 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getVendors, getWeddingDashboardData } from "./wedding-store";
+
+const listVendorsInput = z.object({});
+
+export default defineTool({
+  name: "listVendors",
+  title: "List Vendors",
+  description:
+    "List the wedding's vendors with category, contract status, quote, and payment due dates.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: listVendorsInput,
+  output: dashboardOutput("vendors"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Loading vendors",
+  invoked: "Vendors loaded",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const vendors = getVendors(wedding);
+    const lines = vendors.map(
+      (vendor) =>
+        `- ${vendor.name} (${vendor.id}): ${vendor.category}, ${vendor.contract_status}${vendor.quote !== null ? `, quote $${vendor.quote}` : ""}`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            vendors.length > 0
+              ? [`Found ${vendors.length} vendor(s).`, ...lines].join("\n")
+              : "No vendors yet.",
+        },
+      ],
+      structuredContent: {
+        view: "vendors",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,51 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getUserId, getWeddingContext } from "./wedding-context";
+import { ROLE_LABELS } from "./wedding-permissions";
+import { getWeddingDashboardData, listWeddings } from "./wedding-store";
+
+const listWeddingsInput = z.object({});
+
+export default defineTool({
+  name: "listWeddings",
+  title: "List Weddings",
+  description:
+    "List the weddings the current user owns or collaborates on, with their role on each.",
+  annotations: {
+    readOnlyHint: true,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: listWeddingsInput,
+  output: dashboardOutput("event", ["weddings"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Loading weddings",
+  invoked: "Weddings loaded",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const weddings = listWeddings(getUserId(context));
+    const lines = weddings.map(
+      (entry) =>
+        `- ${entry.name} (${entry.id}), ${ROLE_LABELS[entry.role].toLowerCase()}${entry.active ? " [active]" : ""}`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [`Found ${weddings.length} wedding(s).`, ...lines].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        weddings,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,63 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, mergeGuests } from "./wedding-store";
+
+const mergeGuestsInput = z.object({
+  guest_id: z.string().trim().min(1).describe("Guest id to keep, like guest_1."),
+  duplicate_guest_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Guest id of the duplicate record, which is removed after the merge."),
+  use_duplicate_contact: z
+    .boolean()
+    .default(false)
+    .describe("Keep the duplicate's email or phone number instead of the kept guest's."),
+});
+
+export default defineTool({
+  name: "mergeGuests",
+  title: "Merge Guests",
+  description:
+    "Combine two records for the same person into one. The most recent RSVP answer wins, missing details are filled in from the duplicate, and its table, event invitations and seating constraints move to the kept guest.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: mergeGuestsInput,
+  output: dashboardOutput("guests", ["guest_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Merging guests",
+  invoked: "Guests merged",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const {
+      guest,
+      removed_guest: removed,
+      rsvp_from: rsvpFrom,
+    } = mergeGuests(wedding, input.guest_id, input.duplicate_guest_id, {
+      useDuplicateContact: input.use_duplicate_contact,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Merged ${removed.name} (${removed.id}) into ${guest.name} (${guest.id}).`,
+            `RSVP ${guest.rsvp_status} kept from ${rsvpFrom === guest.id ? guest.name : removed.name}; contact is ${guest.contact}.`,
+          ].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "guests",
+        guest_id: guest.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
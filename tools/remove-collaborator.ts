@@ -0,0 +1,45 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, removeCollaborator } from "./wedding-store";
+
+const removeCollaboratorInput = z.object({
+  user_id: z.string().trim().min(1).describe("Collaborator user id returned by listCollaborators."),
+});
+
+export default defineTool({
+  name: "removeCollaborator",
+  title: "Remove Collaborator",
+  description:
+    "Take away a collaborator's access to the current wedding. Only owners can remove collaborators, and the last owner cannot be removed.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: removeCollaboratorInput,
+  output: dashboardOutput("event", ["collaborator"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Removing collaborator",
+  invoked: "Collaborator removed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const collaborator = removeCollaborator(wedding, input.user_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed ${collaborator.name ?? collaborator.user_id}'s access to the wedding.`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        collaborator,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,48 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, removeEvent } from "./wedding-store";
+
+const removeEventInput = z.object({
+  event_id: z.string().trim().min(1).describe("Event id like event_1."),
+});
+
+export default defineTool({
+  name: "removeEvent",
+  title: "Remove Wedding Event",
+  description:
+    "Delete an event along with its schedule items and the guests' answers for it. The wedding day itself is not affected.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: removeEventInput,
+  output: dashboardOutput("event"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Removing event",
+  invoked: "Event removed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { event, removedScheduleItems } = removeEvent(wedding, input.event_id);
+    const scheduleText =
+      removedScheduleItems.length > 0
+        ? ` Removed ${removedScheduleItems.length} schedule item(s) with it.`
+        : "";
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed ${event.name}.${scheduleText}`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
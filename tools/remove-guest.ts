@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, removeGuest } from "./wedding-store";
+
+const removeGuestInput = z.object({
+  guest_id: z.string().trim().min(1).describe("Guest id like guest_1."),
+});
+
+export default defineTool({
+  name: "removeGuest",
+  title: "Remove Guest",
+  description:
+    "Delete a guest from the guest list. To keep a record of a declined guest, set their RSVP to No instead.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: removeGuestInput,
+  output: dashboardOutput("guests"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Removing guest",
+  invoked: "Guest removed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const guest = removeGuest(wedding, input.guest_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed ${guest.name} from the guest list.`,
+        },
+      ],
+      structuredContent: {
+        view: "guests",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
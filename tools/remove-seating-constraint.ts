@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, removeSeatingConstraint } from "./wedding-store";
+
+const removeSeatingConstraintInput = z.object({
+  constraint_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Seating constraint id like constraint_1."),
+});
+
+export default defineTool({
+  name: "removeSeatingConstraint",
+  title: "Remove Seating Constraint",
+  description: "Delete a keep-together or keep-apart seating constraint.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: removeSeatingConstraintInput,
+  output: dashboardOutput("seating"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Removing seating constraint",
+  invoked: "Seating constraint removed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const constraint = removeSeatingConstraint(wedding, input.constraint_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed seating constraint ${constraint.id}.`,
+        },
+      ],
+      structuredContent: {
+        view: "seating",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, removeTable } from "./wedding-store";
+
+const removeTableInput = z.object({
+  table_id: z.string().trim().min(1).describe("Table id like table_1."),
+});
+
+export default defineTool({
+  name: "removeTable",
+  title: "Remove Table",
+  description:
+    "Delete a table from the seating chart. Guests seated there become unassigned.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: removeTableInput,
+  output: dashboardOutput("seating"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Removing table",
+  invoked: "Table removed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const table = removeTable(wedding, input.table_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed table ${table.name}.`,
+        },
+      ],
+      structuredContent: {
+        view: "seating",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,46 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, removeVendor } from "./wedding-store";
+
+const removeVendorInput = z.object({
+  vendor_id: z.string().trim().min(1).describe("Vendor id like vendor_1."),
+});
+
+export default defineTool({
+  name: "removeVendor",
+  title: "Remove Vendor",
+  description: "Delete a vendor record from the wedding plan.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: removeVendorInput,
+  output: dashboardOutput("vendors"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Removing vendor",
+  invoked: "Vendor removed",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const vendor = removeVendor(wedding, input.vendor_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed vendor ${vendor.name}.`,
+        },
+      ],
+      structuredContent: {
+        view: "vendors",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,47 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, reopenTask } from "./wedding-store";
+
+const reopenTaskInput = z.object({
+  task_id: z.string().trim().min(1).describe("Task id like task_1."),
+});
+
+export default defineTool({
+  name: "reopenTask",
+  title: "Reopen Task",
+  description:
+    "Move a done or cancelled wedding checklist task back to Pending.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: reopenTaskInput,
+  output: dashboardOutput("tasks"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Reopening task",
+  invoked: "Task reopened",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const task = reopenTask(wedding, input.task_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Task "${task.title}" reopened.`,
+        },
+      ],
+      structuredContent: {
+        view: "tasks",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,52 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, revertChange } from "./wedding-store";
+
+const revertChangeInput = z.object({
+  change_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Change id like change_3, from getChangeHistory."),
+});
+
+export default defineTool({
+  name: "revertChange",
+  title: "Revert Change",
+  description:
+    "Restore everything a specific change touched to its previous value. Fails if those records were edited again afterwards.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: revertChangeInput,
+  output: dashboardOutput("activity", ["change_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Reverting change",
+  invoked: "Change reverted",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const revert = revertChange(wedding, input.change_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${revert.summary} (recorded as ${revert.id}).`,
+        },
+      ],
+      structuredContent: {
+        view: "activity",
+        change_id: revert.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,42 @@
+import { publicUrl } from "../utils/public-url";
+import { createSignedToken, verifySignedToken } from "../utils/signed-token";
+import type { WeddingContext } from "./wedding-store";
+
+export const RSVP_PATH = "/rsvp";
+
+// `t` keeps tokens for one kind of link from being accepted by another.
+type RsvpTokenPayload = {
+  t: "rsvp";
+  w: string;
+  g: string;
+};
+
+export type RsvpLinkTarget = {
+  ctx: WeddingContext;
+  guestId: string;
+};
+
+export function createRsvpUrl(ctx: WeddingContext, guestId: string): string {
+  const token = createSignedToken({
+    t: "rsvp",
+    w: ctx.weddingId,
+    g: guestId,
+  } satisfies RsvpTokenPayload);
+
+  return publicUrl(`${RSVP_PATH}/${token}`);
+}
+
+export function readRsvpToken(token: string): RsvpLinkTarget | null {
+  const payload = verifySignedToken<RsvpTokenPayload>(token);
+
+  if (payload?.t !== "rsvp" || typeof payload.w !== "string" || typeof payload.g !== "string") {
+    return null;
+  }
+
+  // Answers are the guest's own, so the change history credits the guest
+  // rather than whoever shared the link.
+  return {
+    ctx: { userId: `guest:${payload.g}`, weddingId: payload.w, toolName: "guestRsvpPage" },
+    guestId: payload.g,
+  };
+}
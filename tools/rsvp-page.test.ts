@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { createSignedToken } from "../utils/signed-token";
+import { createRsvpUrl } from "./rsvp-links";
+import { rsvpRoute } from "./rsvp-page";
+import {
+  addGuest,
+  createWedding,
+  getChangeHistory,
+  getWeddingDashboardData,
+  removeGuest,
+  setMealOptions,
+  type WeddingContext,
+} from "./wedding-store";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    Promise.resolve(rsvpRoute.handle(req, res, url)).catch(() => {
+      res.writeHead(500).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+let nextCouple = 1;
+
+function createInvitedGuest(): { ctx: WeddingContext; guestId: string; path: string } {
+  const userId = `couple_${nextCouple}`;
+  nextCouple += 1;
+  const ctx = { userId, weddingId: createWedding(userId, { name: "Ann & Bo" }).id };
+  const { guest } = addGuest(ctx, { name: "Cy", contact: "cy@example.com" });
+  return { ctx, guestId: guest.id, path: new URL(createRsvpUrl(ctx, guest.id)).pathname };
+}
+
+function post(path: string, fields: Record<string, string>) {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    body: new URLSearchParams(fields),
+    redirect: "manual",
+  });
+}
+
+describe("RSVP page", () => {
+  it("shows the form for a valid link", async () => {
+    const { path } = createInvitedGuest();
+    const response = await fetch(`${baseUrl}${path}`);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("referrer-policy"), "no-referrer");
+    assert.match(await response.text(), /Will you attend, Cy\?/);
+  });
+
+  it("answers 404 for forged, foreign and stale links", async () => {
+    const { ctx, guestId, path } = createInvitedGuest();
+    const foreign = createSignedToken({ t: "calendar", w: ctx.weddingId, g: guestId });
+
+    for (const candidate of [`${path}x`, `/rsvp/${foreign}`, `${path}/extra`]) {
+      const response = await fetch(`${baseUrl}${candidate}`);
+      assert.equal(response.status, 404, candidate);
+    }
+
+    removeGuest(ctx, guestId);
+    assert.equal((await fetch(`${baseUrl}${path}`)).status, 404);
+  });
+
+  it("saves the answer, redirects back and credits the guest", async () => {
+    const { ctx, guestId, path } = createInvitedGuest();
+    const response = await post(path, {
+      rsvp_status: "Yes",
+      meal_choice: "Fish",
+      note: " See you! ",
+    });
+
+    assert.equal(response.status, 303);
+    assert.equal(response.headers.get("location"), `${path}?saved=1`);
+
+    const guest = getWeddingDashboardData(ctx).guests.find((entry) => entry.id === guestId);
+    assert.equal(guest?.rsvp_status, "Yes");
+    assert.equal(guest?.meal_choice, "Fish");
+    assert.equal(guest?.rsvp_note, "See you!");
+
+    const [change] = getChangeHistory(ctx);
+    assert.equal(change.user_id, `guest:${guestId}`);
+    assert.equal(change.tool, "guestRsvpPage");
+  });
+
+  it("answers 400 with the reason and keeps what was entered", async () => {
+    const { ctx, path } = createInvitedGuest();
+    setMealOptions(ctx, ["Fish", "Risotto"]);
+
+    const missing = await post(path, { note: "Hello" });
+    assert.equal(missing.status, 400);
+    assert.match(await missing.text(), /Please choose whether you will attend/);
+
+    const refused = await post(path, { rsvp_status: "Yes", meal_choice: "Steak" });
+    const page = await refused.text();
+    assert.equal(refused.status, 400);
+    assert.match(page, /&quot;Steak&quot; is not one of the meal options/);
+    assert.match(page, /value="Yes" required checked/);
+  });
+
+  it("refuses other methods", async () => {
+    const { path } = createInvitedGuest();
+    const response = await fetch(`${baseUrl}${path}`, { method: "PUT" });
+
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get("allow"), "GET, POST");
+  });
+});
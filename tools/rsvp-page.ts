@@ -0,0 +1,285 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import type { HttpRoute } from "../utils/start-http-server";
+import { InvalidInputError, NotFoundError, ToolError } from "../utils/tool-errors";
+import { readRsvpToken, RSVP_PATH } from "./rsvp-links";
+import {
+  getGuestRsvpDetails,
+  respondToRsvp,
+  type GuestRsvpDetails,
+  type RsvpResponseInput,
+} from "./wedding-store";
+
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_NOTE_LENGTH = 1000;
+
+const RESPONSE_OPTIONS: Array<{ value: RsvpResponseInput["rsvp_status"]; label: string }> = [
+  { value: "Yes", label: "Joyfully accepts" },
+  { value: "Maybe", label: "Not sure yet" },
+  { value: "No", label: "Regretfully declines" },
+];
+
+const PAGE_STYLES = `
+  body { margin: 0; font-family: Georgia, "Times New Roman", serif; background: #faf6f1; color: #3d3129; }
+  main { max-width: 520px; margin: 0 auto; padding: 40px 20px; }
+  h1 { font-weight: normal; font-size: 1.9rem; margin: 0 0 4px; }
+  .meta { color: #7b6a5d; margin: 0 0 28px; }
+  form { display: grid; gap: 18px; background: #fff; border: 1px solid #eadfd3; border-radius: 14px; padding: 24px; }
+  fieldset { border: 0; padding: 0; margin: 0; display: grid; gap: 8px; }
+  legend, label { font-weight: bold; font-size: 0.95rem; }
+  .choice { font-weight: normal; display: flex; gap: 8px; align-items: center; }
+  .event-meta { color: #7b6a5d; font-size: 0.9rem; margin: 0; }
+  input[type="text"], select, textarea { font: inherit; padding: 8px 10px; border: 1px solid #d9cbbd; border-radius: 8px; width: 100%; box-sizing: border-box; }
+  button { font: inherit; background: #b28b6b; color: #fff; border: 0; border-radius: 999px; padding: 10px 20px; cursor: pointer; }
+  .notice { border-radius: 10px; padding: 10px 14px; margin: 0 0 18px; }
+  .notice.saved { background: #eef6ea; color: #3f6b33; }
+  .notice.error { background: #fdf0ec; color: #9c4a38; }
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function sendPage(res: ServerResponse, status: number, title: string, body: string) {
+  res.writeHead(status, {
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+    // The token in the URL must not leak to other sites.
+    "Referrer-Policy": "no-referrer",
+    "Content-Security-Policy":
+      "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'; frame-ancestors 'none'",
+  });
+  res.end(`<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body><main>${body}</main></body>
+</html>`);
+}
+
+function sendInvalidLink(res: ServerResponse) {
+  sendPage(
+    res,
+    404,
+    "RSVP link not found",
+    "<h1>This RSVP link is not valid</h1><p class=\"meta\">Please check the link you were sent, or contact the couple directly.</p>",
+  );
+}
+
+function eventFieldName(eventId: string): string {
+  return `event_${eventId}`;
+}
+
+function renderChoices(name: string, selected: string, required: boolean): string {
+  return RESPONSE_OPTIONS.map(
+    (option) => `<label class="choice">
+            <input type="radio" name="${escapeHtml(name)}" value="${option.value}"${required ? " required" : ""}${selected === option.value ? " checked" : ""}>
+            ${option.label}
+          </label>`,
+  ).join("");
+}
+
+function renderEventFields(
+  details: GuestRsvpDetails,
+  submitted: Partial<Record<string, string>>,
+): string {
+  return details.events
+    .map((event) => {
+      const name = eventFieldName(event.id);
+      const status = submitted[name] ?? (event.rsvp_status === "Pending" ? "" : event.rsvp_status);
+      const when = [event.date, event.start_time, event.venue].filter(Boolean).join(" · ");
+
+      return `<fieldset>
+        <legend>${escapeHtml(event.name)}</legend>
+        ${when ? `<p class="event-meta">${escapeHtml(when)}</p>` : ""}
+        ${renderChoices(name, status, false)}
+      </fieldset>`;
+    })
+    .join("");
+}
+
+function renderForm(
+  details: GuestRsvpDetails,
+  notice: { kind: "saved" | "error"; text: string } | null,
+  submitted: Partial<Record<string, string>> = {},
+): string {
+  const { guest } = details;
+  const status = submitted.rsvp_status ?? (guest.rsvp_status === "Pending" ? "" : guest.rsvp_status);
+  const meal = submitted.meal_choice ?? guest.meal_choice ?? "";
+  const when = [details.event_date, details.location].filter(Boolean).join(" · ");
+
+  const mealField =
+    details.meal_options.length > 0
+      ? `<select id="meal_choice" name="meal_choice">
+          <option value="">Choose a meal</option>
+          ${details.meal_options
+            .map(
+              (option) =>
+                `<option value="${escapeHtml(option)}"${option === meal ? " selected" : ""}>${escapeHtml(option)}</option>`,
+            )
+            .join("")}
+        </select>`
+      : `<input type="text" id="meal_choice" name="meal_choice" maxlength="100" value="${escapeHtml(meal)}">`;
+
+  const plusOneField = guest.plus_one_allowed
+    ? `<label for="plus_one_name">Your guest's name</label>
+       <input type="text" id="plus_one_name" name="plus_one_name" maxlength="100" value="${escapeHtml(submitted.plus_one_name ?? guest.plus_one_name ?? "")}">`
+    : "";
+
+  return `
+    <h1>${escapeHtml(details.wedding_name)}</h1>
+    <p class="meta">${escapeHtml(when || "Date and place to be announced")}</p>
+    ${notice ? `<p class="notice ${notice.kind}" role="status">${escapeHtml(notice.text)}</p>` : ""}
+    <form method="post">
+      <fieldset>
+        <legend>Will you attend, ${escapeHtml(guest.name)}?</legend>
+        ${renderChoices("rsvp_status", status, true)}
+      </fieldset>
+      ${renderEventFields(details, submitted)}
+      <label for="meal_choice">Meal</label>
+      ${mealField}
+      ${plusOneField}
+      <label for="note">Note for the couple</label>
+      <textarea id="note" name="note" rows="3" maxlength="${MAX_NOTE_LENGTH}">${escapeHtml(submitted.note ?? guest.rsvp_note ?? "")}</textarea>
+      <button type="submit">Send RSVP</button>
+    </form>`;
+}
+
+async function readFormBody(req: IncomingMessage): Promise<URLSearchParams | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return null;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+function findResponse(value: string | null) {
+  return RESPONSE_OPTIONS.find((option) => option.value === value);
+}
+
+// Events the guest leaves unanswered keep their previous answer.
+function parseResponse(form: URLSearchParams, details: GuestRsvpDetails): RsvpResponseInput {
+  const status = findResponse(form.get("rsvp_status"));
+
+  if (!status) {
+    throw new InvalidInputError("Please choose whether you will attend.");
+  }
+
+  const note = form.get("note")?.trim() ?? "";
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new InvalidInputError(`Please keep your note under ${MAX_NOTE_LENGTH} characters.`);
+  }
+
+  const eventRsvps: NonNullable<RsvpResponseInput["event_rsvps"]> = {};
+  for (const event of details.events) {
+    const eventStatus = findResponse(form.get(eventFieldName(event.id)));
+    if (eventStatus) {
+      eventRsvps[event.id] = eventStatus.value;
+    }
+  }
+
+  return {
+    rsvp_status: status.value,
+    event_rsvps: eventRsvps,
+    meal_choice: form.get("meal_choice") ?? undefined,
+    plus_one_name: form.has("plus_one_name") ? form.get("plus_one_name") : undefined,
+    note,
+  };
+}
+
+// GET shows the form; POST saves the answer and redirects back to GET so a
+// refresh does not resubmit it. Unexpected errors are left to the HTTP server,
+// which logs them and answers 500.
+async function handleRsvpRequest(req: IncomingMessage, res: ServerResponse, url: URL) {
+  const [token, ...rest] = url.pathname.slice(RSVP_PATH.length + 1).split("/");
+  const target = token && rest.length === 0 ? readRsvpToken(token) : null;
+
+  if (!target) {
+    sendInvalidLink(res);
+    return;
+  }
+
+  let details: GuestRsvpDetails;
+  try {
+    details = getGuestRsvpDetails(target.ctx, target.guestId);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+
+    // The guest or wedding was removed after the link was sent.
+    sendInvalidLink(res);
+    return;
+  }
+
+  if (req.method === "GET") {
+    const saved = url.searchParams.has("saved");
+    sendPage(
+      res,
+      200,
+      `RSVP · ${details.wedding_name}`,
+      renderForm(
+        details,
+        saved ? { kind: "saved", text: "Thank you! Your RSVP has been saved." } : null,
+      ),
+    );
+    return;
+  }
+
+  if (req.method !== "POST") {
+    res.writeHead(405, { Allow: "GET, POST" }).end("Method Not Allowed");
+    return;
+  }
+
+  const form = await readFormBody(req);
+  if (!form) {
+    res.writeHead(413).end("Request too large");
+    return;
+  }
+
+  try {
+    respondToRsvp(target.ctx, target.guestId, parseResponse(form, details));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      sendInvalidLink(res);
+      return;
+    }
+
+    if (!(error instanceof ToolError)) {
+      throw error;
+    }
+
+    // The answer was refused: show why, keeping what the guest entered.
+    sendPage(
+      res,
+      400,
+      `RSVP · ${details.wedding_name}`,
+      renderForm(details, { kind: "error", text: error.message }, Object.fromEntries(form)),
+    );
+    return;
+  }
+
+  res.writeHead(303, { Location: `${url.pathname}?saved=1` }).end();
+}
+
+export const rsvpRoute: HttpRoute = {
+  path: RSVP_PATH,
+  handle: handleRsvpRequest,
+};
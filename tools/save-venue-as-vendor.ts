@@ -0,0 +1,79 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import {
+  getWeddingDashboardData,
+  saveVenueAsVendor,
+  VENDOR_CATEGORIES,
+  VENUE_SEARCH_PROVIDERS,
+} from "./wedding-store";
+
+const saveVenueAsVendorInput = z.object({
+  provider: z
+    .enum(VENUE_SEARCH_PROVIDERS)
+    .describe(
+      "Search the venue came from: hctg (hctg-venue-search) or tripadvisor (tripadvisor-venue-search).",
+    ),
+  name: z.string().trim().min(1).describe("Venue name from the search result."),
+  url: z
+    .string()
+    .trim()
+    .url()
+    .describe("Venue page URL from the search result (url or tripadvisorUrl)."),
+  location: z
+    .string()
+    .trim()
+    .optional()
+    .describe("City/region or details line from the search result."),
+  description: z
+    .string()
+    .trim()
+    .optional()
+    .describe("Review bullets or description from the search result."),
+  category: z
+    .enum(VENDOR_CATEGORIES)
+    .default("Venue")
+    .describe("Vendor category. Defaults to Venue."),
+});
+
+export default defineTool({
+  name: "saveVenueAsVendor",
+  title: "Save Venue As Vendor",
+  description:
+    "Save a result from hctg-venue-search or tripadvisor-venue-search as a vendor record. Saving the same result again returns the existing vendor.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: saveVenueAsVendorInput,
+  output: dashboardOutput("vendors", ["vendor_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Saving venue",
+  invoked: "Venue saved",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { vendor, created } = saveVenueAsVendor(wedding, input);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: created
+            ? `Saved ${vendor.name} as a vendor with id ${vendor.id}.`
+            : `${vendor.name} is already saved as vendor ${vendor.id}.`,
+        },
+      ],
+      structuredContent: {
+        view: "vendors",
+        vendor_id: vendor.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
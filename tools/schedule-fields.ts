@@ -0,0 +1,40 @@
+import { z } from "zod/v3";
+
+// Optional schedule item attributes shared by addScheduleItem and
+// updateScheduleItem.
+export const scheduleDetailsShape = {
+  event_id: z
+    .string()
+    .trim()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe("Event the item belongs to, like event_1. Null for the wedding day itself."),
+  end_time: z
+    .string()
+    .trim()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe("When the item ends, e.g. 4:30pm. Alternative to duration_minutes."),
+  duration_minutes: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 60)
+    .nullable()
+    .optional()
+    .describe("How long the item lasts in minutes."),
+  location: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Where it happens, e.g. Garden terrace."),
+  owner: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Person or vendor responsible, e.g. DJ or Maid of honor."),
+};
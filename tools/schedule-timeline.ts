@@ -0,0 +1,161 @@
+import { formatTimeOfDay, parseTimeOfDay } from "../utils/time-of-day";
+import { InvalidInputError } from "../utils/tool-errors";
+import type { ScheduleItem } from "./wedding-store";
+
+export type ScheduleIssue = {
+  type: "overlap" | "gap";
+  item_ids: [string, string];
+  minutes: number;
+  message: string;
+};
+
+// The wedding day runs past midnight, so 1am belongs after the 11pm send-off
+// rather than before the morning hair appointments.
+const DAY_START_MINUTES = 5 * 60;
+const MINUTES_PER_DAY = 24 * 60;
+const SCHEDULE_GAP_MINUTES = 60;
+
+export type ScheduleTiming = {
+  time: string;
+  end_time: string | null;
+  duration_minutes: number | null;
+};
+
+// Normalizes a start time plus an optional end time or duration. When both
+// are given they must agree.
+export function resolveScheduleTiming(input: {
+  time: string;
+  end_time?: string | null;
+  duration_minutes?: number | null;
+}): ScheduleTiming {
+  const start = parseTimeOfDay(input.time);
+
+  if (start === null) {
+    throw new InvalidInputError(
+      `Could not understand the time "${input.time}". Use a time like 3pm, 3:30 PM, or 15:30.`,
+    );
+  }
+
+  let duration = input.duration_minutes ?? null;
+
+  if (input.end_time) {
+    const end = parseTimeOfDay(input.end_time);
+
+    if (end === null) {
+      throw new InvalidInputError(
+        `Could not understand the end time "${input.end_time}". Use a time like 5pm or 17:00.`,
+      );
+    }
+
+    const endDuration = (end - start + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+    if (duration !== null && duration !== endDuration) {
+      throw new InvalidInputError(
+        `End time ${formatTimeOfDay(end)} does not match a ${duration} minute duration from ${formatTimeOfDay(start)}.`,
+      );
+    }
+
+    duration = endDuration;
+  }
+
+  return {
+    time: formatTimeOfDay(start),
+    end_time: duration ? formatTimeOfDay(start + duration) : null,
+    duration_minutes: duration || null,
+  };
+}
+
+// Items between midnight and the day start happen on the calendar day after
+// the wedding date.
+export function scheduleDayOffset(time: string): number {
+  const minutes = parseTimeOfDay(time);
+  return minutes !== null && minutes < DAY_START_MINUTES ? 1 : 0;
+}
+
+function dayMinutes(time: string): number | null {
+  const minutes = parseTimeOfDay(time);
+  return minutes === null
+    ? null
+    : (minutes - DAY_START_MINUTES + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+// Items whose time could not be parsed (written before times were
+// structured) keep their relative order at the end.
+export function sortScheduleItems<T extends ScheduleItem>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index, start: dayMinutes(item.time) }))
+    .sort(
+      (left, right) =>
+        (left.start ?? Number.POSITIVE_INFINITY) -
+          (right.start ?? Number.POSITIVE_INFINITY) || left.index - right.index,
+    )
+    .map((entry) => entry.item);
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) {
+    return `${rest} min`;
+  }
+
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}min`;
+}
+
+// Gaps are only measured after items with a known duration; a bare start
+// time says nothing about when that part of the day ends.
+export function findScheduleIssues(items: ScheduleItem[]): ScheduleIssue[] {
+  const timed = sortScheduleItems(items).flatMap((item) => {
+    const start = dayMinutes(item.time);
+    return start === null
+      ? []
+      : [{ item, start, end: item.duration_minutes ? start + item.duration_minutes : null }];
+  });
+  const issues: ScheduleIssue[] = [];
+
+  timed.forEach((current, index) => {
+    for (const later of timed.slice(index + 1)) {
+      if (current.end === null || later.start >= current.end) {
+        break;
+      }
+
+      const minutes =
+        later.end === null ? 0 : Math.min(current.end, later.end) - later.start;
+      const span = `"${current.item.description}" (${current.item.time}-${current.item.end_time})`;
+      issues.push({
+        type: "overlap",
+        item_ids: [current.item.id, later.item.id],
+        minutes,
+        message:
+          minutes > 0
+            ? `${span} overlaps "${later.item.description}" at ${later.item.time} by ${formatMinutes(minutes)}.`
+            : `"${later.item.description}" at ${later.item.time} falls during ${span}.`,
+      });
+    }
+
+    const next = timed[index + 1];
+    if (!next) {
+      return;
+    }
+
+    // Measure from whichever earlier item runs latest, not just the previous one.
+    const latest = timed
+      .slice(0, index + 1)
+      .reduce((best, entry) =>
+        (entry.end ?? entry.start) > (best.end ?? best.start) ? entry : best,
+      );
+    const gap = latest.end === null ? 0 : next.start - latest.end;
+
+    if (gap >= SCHEDULE_GAP_MINUTES) {
+      issues.push({
+        type: "gap",
+        item_ids: [latest.item.id, next.item.id],
+        minutes: gap,
+        message: `${formatMinutes(gap)} with nothing planned between "${latest.item.description}" and "${next.item.description}".`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planSeating, type SeatingPlanInput } from "./seating-planner";
+import type { Guest, SeatingConstraint, SeatingTable } from "./wedding-store";
+
+function guest(id: string, overrides: Partial<Guest> = {}): Guest {
+  return {
+    id,
+    name: id,
+    contact: `${id}@example.com`,
+    contact_type: "email",
+    rsvp_status: "Yes",
+    household_id: null,
+    side: "Mutual",
+    plus_one_allowed: false,
+    plus_one_name: null,
+    tags: [],
+    meal_choice: null,
+    dietary_restrictions: [],
+    age_group: "Adult",
+    accessibility_notes: null,
+    rsvp_note: null,
+    rsvp_responded_at: null,
+    event_rsvps: {},
+    ...overrides,
+  };
+}
+
+function table(id: string, capacity: number): SeatingTable {
+  return { id, name: id, shape: "Round", capacity };
+}
+
+function constraint(type: SeatingConstraint["type"], guestIds: string[]): SeatingConstraint {
+  return { id: `constraint_${type}_${guestIds.join("_")}`, type, guest_ids: guestIds };
+}
+
+function plan(input: Partial<SeatingPlanInput>) {
+  const result = planSeating({ guests: [], tables: [], constraints: [], fixed: [], ...input });
+  const tableOf = new Map(
+    result.assignments.map((assignment) => [assignment.guest_id, assignment.table_id]),
+  );
+  return { ...result, tableOf };
+}
+
+describe("planSeating", () => {
+  it("keeps households together", () => {
+    const { tableOf, issues } = plan({
+      guests: [
+        guest("ann", { household_id: "household_1" }),
+        guest("bo"),
+        guest("cy", { household_id: "household_1" }),
+      ],
+      tables: [table("t1", 2), table("t2", 2)],
+    });
+
+    assert.deepEqual(issues, []);
+    assert.equal(tableOf.get("ann"), tableOf.get("cy"));
+    assert.notEqual(tableOf.get("ann"), tableOf.get("bo"));
+  });
+
+  it("counts a plus-one as a second seat", () => {
+    const { tableOf, unseated_guest_ids, issues } = plan({
+      guests: [guest("ann", { plus_one_allowed: true }), guest("bo"), guest("cy")],
+      tables: [table("t1", 2), table("t2", 2)],
+    });
+
+    assert.deepEqual(unseated_guest_ids, []);
+    assert.deepEqual(issues, []);
+    assert.equal(tableOf.get("bo"), tableOf.get("cy"));
+    assert.notEqual(tableOf.get("ann"), tableOf.get("bo"));
+  });
+
+  it("honours keep-together and keep-apart constraints", () => {
+    const { tableOf, issues } = plan({
+      guests: [guest("ann"), guest("bo"), guest("cy"), guest("di")],
+      tables: [table("t1", 2), table("t2", 2)],
+      constraints: [
+        constraint("keep_together", ["ann", "bo"]),
+        constraint("keep_apart", ["ann", "cy"]),
+      ],
+    });
+
+    assert.deepEqual(issues, []);
+    assert.equal(tableOf.get("ann"), tableOf.get("bo"));
+    assert.notEqual(tableOf.get("ann"), tableOf.get("cy"));
+  });
+
+  it("reports guests it cannot seat instead of overfilling a table", () => {
+    const { unseated_guest_ids, issues, assignments } = plan({
+      guests: [
+        guest("ann", { household_id: "household_1" }),
+        guest("bo", { household_id: "household_1" }),
+        guest("cy", { household_id: "household_1" }),
+      ],
+      tables: [table("t1", 2)],
+    });
+
+    assert.deepEqual(assignments, []);
+    assert.deepEqual(unseated_guest_ids.sort(), ["ann", "bo", "cy"]);
+    assert.match(issues[0], /no table has 3 free seat\(s\) left/);
+  });
+
+  it("reports keep-apart conflicts it cannot avoid", () => {
+    const { unseated_guest_ids, issues } = plan({
+      guests: [guest("ann"), guest("bo")],
+      tables: [table("t1", 4)],
+      constraints: [constraint("keep_apart", ["ann", "bo"])],
+    });
+
+    assert.equal(unseated_guest_ids.length, 1);
+    assert.match(issues[0], /keep apart/);
+  });
+
+  it("keeps guests together when constraints contradict each other", () => {
+    const { tableOf, issues } = plan({
+      guests: [
+        guest("ann", { household_id: "household_1" }),
+        guest("bo", { household_id: "household_1" }),
+      ],
+      tables: [table("t1", 4), table("t2", 4)],
+      constraints: [constraint("keep_apart", ["ann", "bo"])],
+    });
+
+    assert.equal(tableOf.get("ann"), tableOf.get("bo"));
+    assert.match(issues[0], /keeping them together/);
+  });
+
+  it("leaves fixed assignments in place and seats the rest of their group with them", () => {
+    const { tableOf, issues } = plan({
+      guests: [
+        guest("ann", { household_id: "household_1" }),
+        guest("bo", { household_id: "household_1" }),
+        guest("cy"),
+      ],
+      tables: [table("t1", 4), table("t2", 2)],
+      fixed: [{ guest_id: "ann", table_id: "t2" }],
+    });
+
+    assert.deepEqual(issues, []);
+    assert.equal(tableOf.get("ann"), "t2");
+    assert.equal(tableOf.get("bo"), "t2");
+    assert.equal(tableOf.get("cy"), "t1");
+  });
+
+  it("ignores constraint members who are not being seated", () => {
+    const { issues } = plan({
+      guests: [guest("ann"), guest("bo")],
+      tables: [table("t1", 4)],
+      constraints: [constraint("keep_together", ["ann", "zed"])],
+    });
+
+    assert.match(issues[0], /ignores zed/);
+  });
+});
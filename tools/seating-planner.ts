@@ -0,0 +1,230 @@
+import type {
+  Guest,
+  SeatAssignment,
+  SeatingConstraint,
+  SeatingTable,
+} from "./wedding-store";
+
+export type SeatingPlanInput = {
+  guests: Guest[];
+  tables: SeatingTable[];
+  constraints: SeatingConstraint[];
+  // Assignments that must stay where they are.
+  fixed: SeatAssignment[];
+};
+
+export type SeatingPlanResult = {
+  assignments: SeatAssignment[];
+  unseated_guest_ids: string[];
+  issues: string[];
+};
+
+type GuestGroup = {
+  guestIds: string[];
+  seats: number;
+  tableId: string | null;
+};
+
+// A guest with a plus-one allowance holds a second seat for their companion.
+export function seatsForGuest(guest: Guest): number {
+  return guest.plus_one_allowed ? 2 : 1;
+}
+
+function createUnionFind(ids: string[]) {
+  const parent = new Map(ids.map((id) => [id, id]));
+
+  function find(id: string): string {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  }
+
+  return {
+    find,
+    union(left: string, right: string) {
+      parent.set(find(left), find(right));
+    },
+  };
+}
+
+// Greedy best-fit-decreasing placement: households and keep-together
+// constraints form groups, groups are placed largest first at the fullest
+// table that still fits them without seating keep-apart guests together.
+// It does not backtrack, so every constraint it cannot honour is reported in
+// `issues` instead of being silently broken.
+export function planSeating(input: SeatingPlanInput): SeatingPlanResult {
+  const guestsById = new Map(input.guests.map((guest) => [guest.id, guest]));
+  const tablesById = new Map(input.tables.map((table) => [table.id, table]));
+  const issues: string[] = [];
+  const nameOf = (guestId: string) => guestsById.get(guestId)?.name ?? guestId;
+
+  const unionFind = createUnionFind(input.guests.map((guest) => guest.id));
+  const householdAnchors = new Map<string, string>();
+
+  for (const guest of input.guests) {
+    if (!guest.household_id) {
+      continue;
+    }
+
+    const anchor = householdAnchors.get(guest.household_id);
+    if (anchor) {
+      unionFind.union(anchor, guest.id);
+    } else {
+      householdAnchors.set(guest.household_id, guest.id);
+    }
+  }
+
+  const apartPairs: Array<[string, string]> = [];
+
+  for (const constraint of input.constraints) {
+    const seatedIds = constraint.guest_ids.filter((guestId) => guestsById.has(guestId));
+    const skippedIds = constraint.guest_ids.filter((guestId) => !guestsById.has(guestId));
+
+    if (skippedIds.length > 0) {
+      issues.push(
+        `Constraint ${constraint.id} ignores ${skippedIds.join(", ")}: only confirmed guests are seated.`,
+      );
+    }
+
+    if (constraint.type === "keep_together") {
+      for (const guestId of seatedIds.slice(1)) {
+        unionFind.union(seatedIds[0], guestId);
+      }
+      continue;
+    }
+
+    for (let left = 0; left < seatedIds.length; left += 1) {
+      for (let right = left + 1; right < seatedIds.length; right += 1) {
+        apartPairs.push([seatedIds[left], seatedIds[right]]);
+      }
+    }
+  }
+
+  const apartFrom = new Map<string, Set<string>>();
+
+  for (const [left, right] of apartPairs) {
+    if (unionFind.find(left) === unionFind.find(right)) {
+      issues.push(
+        `${nameOf(left)} and ${nameOf(right)} must sit together (household or keep-together) and apart at the same time; keeping them together.`,
+      );
+      continue;
+    }
+
+    apartFrom.set(left, (apartFrom.get(left) ?? new Set()).add(right));
+    apartFrom.set(right, (apartFrom.get(right) ?? new Set()).add(left));
+  }
+
+  const occupants = new Map(input.tables.map((table) => [table.id, [] as string[]]));
+  const usedSeats = new Map(input.tables.map((table) => [table.id, 0]));
+  const assignments: SeatAssignment[] = [];
+
+  function seat(guestId: string, tableId: string) {
+    occupants.get(tableId)!.push(guestId);
+    usedSeats.set(
+      tableId,
+      usedSeats.get(tableId)! + seatsForGuest(guestsById.get(guestId)!),
+    );
+    assignments.push({ guest_id: guestId, table_id: tableId });
+  }
+
+  const fixedTableByGuest = new Map<string, string>();
+
+  for (const assignment of input.fixed) {
+    if (guestsById.has(assignment.guest_id) && tablesById.has(assignment.table_id)) {
+      seat(assignment.guest_id, assignment.table_id);
+      fixedTableByGuest.set(assignment.guest_id, assignment.table_id);
+    }
+  }
+
+  for (const [left, right] of apartPairs) {
+    const tableId = fixedTableByGuest.get(left);
+
+    if (tableId && tableId === fixedTableByGuest.get(right)) {
+      issues.push(
+        `${nameOf(left)} and ${nameOf(right)} are already seated together at ${tablesById.get(tableId)!.name} despite a keep-apart constraint.`,
+      );
+    }
+  }
+
+  const groupsByRoot = new Map<string, GuestGroup>();
+
+  for (const guest of input.guests) {
+    const root = unionFind.find(guest.id);
+    const group = groupsByRoot.get(root) ?? { guestIds: [], seats: 0, tableId: null };
+    const fixedTableId = fixedTableByGuest.get(guest.id);
+
+    if (fixedTableId) {
+      group.tableId ??= fixedTableId;
+    } else {
+      group.guestIds.push(guest.id);
+      group.seats += seatsForGuest(guest);
+    }
+
+    groupsByRoot.set(root, group);
+  }
+
+  const groups = [...groupsByRoot.values()]
+    .filter((group) => group.guestIds.length > 0)
+    .sort((left, right) => right.seats - left.seats);
+
+  const freeSeats = (tableId: string) =>
+    tablesById.get(tableId)!.capacity - usedSeats.get(tableId)!;
+  const conflictsAt = (group: GuestGroup, tableId: string) =>
+    group.guestIds.flatMap((guestId) =>
+      occupants
+        .get(tableId)!
+        .filter((occupantId) => apartFrom.get(guestId)?.has(occupantId))
+        .map((occupantId) => [guestId, occupantId] as const),
+    );
+  const unseated: string[] = [];
+
+  for (const group of groups) {
+    const names = group.guestIds.map((guestId) => nameOf(guestId)).join(", ");
+
+    if (group.tableId) {
+      const table = tablesById.get(group.tableId)!;
+
+      if (freeSeats(table.id) >= group.seats) {
+        group.guestIds.forEach((guestId) => seat(guestId, table.id));
+      } else {
+        unseated.push(...group.guestIds);
+        issues.push(
+          `${names} should join their group at ${table.name}, but it only has ${freeSeats(table.id)} free seat(s).`,
+        );
+      }
+      continue;
+    }
+
+    const fitting = input.tables.filter((table) => freeSeats(table.id) >= group.seats);
+    const candidates = fitting
+      .filter((table) => conflictsAt(group, table.id).length === 0)
+      .sort((left, right) => freeSeats(left.id) - freeSeats(right.id));
+
+    if (candidates.length > 0) {
+      group.guestIds.forEach((guestId) => seat(guestId, candidates[0].id));
+      continue;
+    }
+
+    unseated.push(...group.guestIds);
+
+    if (fitting.length > 0) {
+      const [guestId, occupantId] = conflictsAt(group, fitting[0].id)[0];
+      issues.push(
+        `Could not seat ${names}: every table with room would put ${nameOf(guestId)} with ${nameOf(occupantId)} (keep apart).`,
+      );
+    } else {
+      issues.push(
+        `Could not seat ${names}: no table has ${group.seats} free seat(s) left.`,
+      );
+    }
+  }
+
+  return {
+    assignments,
+    unseated_guest_ids: unseated,
+    issues,
+  };
+}
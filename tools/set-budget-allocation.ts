@@ -0,0 +1,55 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import {
+  EXPENSE_CATEGORIES,
+  getWeddingDashboardData,
+  setBudgetAllocation,
+} from "./wedding-store";
+
+const setBudgetAllocationInput = z.object({
+  category: z.enum(EXPENSE_CATEGORIES).describe("Budget category."),
+  amount: z
+    .number()
+    .min(0)
+    .describe("Amount of the wedding budget set aside for this category. 0 removes it."),
+});
+
+export default defineTool({
+  name: "setBudgetAllocation",
+  title: "Set Budget Allocation",
+  description:
+    "Set how much of the overall wedding budget is allocated to a category such as Venue or Catering.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: setBudgetAllocationInput,
+  output: dashboardOutput("budget"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Saving budget allocation",
+  invoked: "Budget allocation saved",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const summary = setBudgetAllocation(wedding, input.category, input.amount);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `${input.category} allocation set to $${input.amount}. $${summary.unallocated} of the budget is unallocated.`,
+            ...summary.warnings,
+          ].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "budget",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
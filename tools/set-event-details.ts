@@ -1,42 +1,64 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
 import {
   getWeddingDashboardData,
   setEventDetails as setWeddingEventDetails,
 } from "./wedding-store";
 
 const setEventDetailsInput = z.object({
-  event_date: z.string().trim().min(1).describe("Wedding date as a string."),
+  event_date: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Wedding date, e.g. 2027-06-12 or June 12, 2027."),
   location: z.string().trim().min(1).describe("Wedding location."),
   budget: z.number().min(0).describe("Wedding budget."),
+  time_zone: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe(
+      "IANA time zone of the wedding, e.g. Europe/Rome. Defaults to the current one, or UTC.",
+    ),
 });
 
 export default defineTool({
   name: "setEventDetails",
   title: "Set Wedding Event Details",
-  description: "Set the wedding date, location, and budget.",
+  description:
+    "Set the wedding date, location, budget, and time zone. Tasks due relative to the wedding move with the date.",
   annotations: {
     readOnlyHint: false,
     openWorldHint: false,
     destructiveHint: false,
   },
   input: setEventDetailsInput,
+  output: dashboardOutput("event"),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Saving event details",
   invoked: "Event details saved",
-  async handler(input) {
-    const eventDetails = setWeddingEventDetails(input);
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { eventDetails, shiftedTasks } = setWeddingEventDetails(wedding, input);
+    const shiftedText =
+      shiftedTasks.length > 0
+        ? ` Moved ${shiftedTasks.length} task due date(s) to follow the new date.`
+        : "";
 
     return {
       content: [
         {
           type: "text",
-          text: `Wedding details set for ${eventDetails.event_date} in ${eventDetails.location} with a budget of $${eventDetails.budget}.`,
+          text: `Wedding details set for ${eventDetails.event_date} (${eventDetails.time_zone}) in ${eventDetails.location} with a budget of $${eventDetails.budget}.${shiftedText}`,
         },
       ],
       structuredContent: {
         view: "event",
-        data: getWeddingDashboardData(),
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
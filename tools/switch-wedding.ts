@@ -0,0 +1,51 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getUserId } from "./wedding-context";
+import { getWeddingDashboardData, selectWedding } from "./wedding-store";
+
+const switchWeddingInput = z.object({
+  wedding_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Wedding id returned by listWeddings or createWedding."),
+});
+
+export default defineTool({
+  name: "switchWedding",
+  title: "Switch Wedding",
+  description:
+    "Make another of the current user's weddings the active one for future planning calls.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: switchWeddingInput,
+  output: dashboardOutput("event"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Switching wedding",
+  invoked: "Wedding switched",
+  async handler(input, context) {
+    const userId = getUserId(context);
+    const wedding = selectWedding(userId, input.wedding_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Switched to wedding "${wedding.name}".`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        data: getWeddingDashboardData({ userId, weddingId: wedding.id }),
+      },
+    };
+  },
+});
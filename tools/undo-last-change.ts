@@ -0,0 +1,46 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, undoLastChange } from "./wedding-store";
+
+const undoLastChangeInput = z.object({});
+
+export default defineTool({
+  name: "undoLastChange",
+  title: "Undo Last Change",
+  description:
+    "Undo the most recent change to the wedding plan that has not been undone yet.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: true,
+  },
+  input: undoLastChangeInput,
+  output: dashboardOutput("activity", ["change_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Undoing last change",
+  invoked: "Change undone",
+  async handler(_input, context) {
+    const wedding = getWeddingContext(context);
+    const revert = undoLastChange(wedding);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${revert.summary} (recorded as ${revert.id}).`,
+        },
+      ],
+      structuredContent: {
+        view: "activity",
+        change_id: revert.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
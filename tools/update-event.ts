@@ -0,0 +1,52 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { eventDetailsShape } from "./event-fields";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, updateEvent } from "./wedding-store";
+
+const updateEventInput = z.object({
+  event_id: z.string().trim().min(1).describe("Event id like event_1."),
+  name: z.string().trim().min(1).optional().describe("New event name."),
+  ...eventDetailsShape,
+});
+
+export default defineTool({
+  name: "updateEvent",
+  title: "Update Wedding Event",
+  description:
+    "Change an event's name, date, time, venue or guest list. Guests removed from the guest list lose their answer for the event.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: updateEventInput,
+  output: dashboardOutput("event", ["event_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Updating event",
+  invoked: "Event updated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { event_id: eventId, ...patch } = input;
+    const event = updateEvent(wedding, eventId, patch);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Updated ${event.name} (${event.id}).`,
+        },
+      ],
+      structuredContent: {
+        view: "event",
+        event_id: event.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
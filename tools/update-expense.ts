@@ -0,0 +1,76 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import {
+  EXPENSE_CATEGORIES,
+  getWeddingDashboardData,
+  updateExpense,
+} from "./wedding-store";
+
+const updateExpenseInput = z.object({
+  expense_id: z.string().trim().min(1).describe("Expense id like expense_1."),
+  description: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("New expense description."),
+  category: z.enum(EXPENSE_CATEGORIES).optional().describe("Budget category."),
+  amount: z.number().min(0).optional().describe("Amount in US dollars."),
+  vendor: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Vendor name. Null clears it."),
+  paid: z.boolean().optional().describe("Whether the amount has been paid."),
+  due_date: z
+    .string()
+    .trim()
+    .optional()
+    .describe("Payment due date as a string."),
+});
+
+export default defineTool({
+  name: "updateExpense",
+  title: "Update Expense",
+  description:
+    "Update a recorded wedding expense, for example to mark it paid or correct the amount.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: updateExpenseInput,
+  output: dashboardOutput("budget"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Updating expense",
+  invoked: "Expense updated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { expense_id: expenseId, ...patch } = input;
+    const expense = updateExpense(wedding, expenseId, patch);
+    const data = getWeddingDashboardData(wedding);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Updated expense "${expense.description}": $${expense.amount}, ${expense.paid ? "paid" : "unpaid"}.`,
+            ...data.budget.warnings,
+          ].join("\n"),
+        },
+      ],
+      structuredContent: {
+        view: "budget",
+        data,
+      },
+    };
+  },
+});
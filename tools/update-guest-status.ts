@@ -1,49 +1,80 @@
 import { z } from "zod/v3";
 import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
 import {
   getWeddingDashboardData,
-  type RSVPStatus,
+  RSVP_STATUSES,
   updateGuestStatus,
 } from "./wedding-store";
 
-const rsvpValues = ["Yes", "No", "Maybe", "Pending"] as const;
-
 const updateGuestStatusInput = z.object({
   guest_id: z.string().trim().min(1).describe("Guest id like guest_1."),
   rsvp_status: z
-    .enum(rsvpValues)
+    .enum(RSVP_STATUSES)
     .describe("RSVP status: Yes, No, Maybe, or Pending."),
+  meal_choice: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Meal the guest picked with their RSVP."),
+  plus_one_name: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Name of the plus-one the guest is bringing, if allowed."),
+  event_id: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("Event id like event_1 to record the answer for that event instead of the wedding."),
 });
 
 export default defineTool({
   name: "updateGuestStatus",
   title: "Update Guest RSVP Status",
-  description: "Update guest RSVP status.",
+  description:
+    "Update guest RSVP status for the wedding or one of its events, optionally recording their meal choice and plus-one name.",
   annotations: {
     readOnlyHint: false,
     openWorldHint: false,
     destructiveHint: false,
   },
   input: updateGuestStatusInput,
+  output: dashboardOutput("guests"),
+  outputDefinitions: dashboardOutputDefinitions,
   ui: "wedding-planner-dashboard",
   invoking: "Updating RSVP status",
   invoked: "RSVP updated",
-  async handler(input) {
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
     const guest = updateGuestStatus(
+      wedding,
       input.guest_id,
-      input.rsvp_status as RSVPStatus,
+      input.rsvp_status,
+      {
+        meal_choice: input.meal_choice,
+        plus_one_name: input.plus_one_name,
+        event_id: input.event_id,
+      },
     );
+    const status = input.event_id
+      ? (guest.event_rsvps[input.event_id] ?? "Pending")
+      : guest.rsvp_status;
 
     return {
       content: [
         {
           type: "text",
-          text: `Updated RSVP for ${guest.name} to ${guest.rsvp_status}.`,
+          text: `Updated RSVP for ${guest.name}${input.event_id ? ` for ${input.event_id}` : ""} to ${status}.`,
         },
       ],
       structuredContent: {
         view: "guests",
-        data: getWeddingDashboardData(),
+        data: getWeddingDashboardData(wedding),
       },
     };
   },
@@ -0,0 +1,66 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { guestDetailsShape } from "./guest-fields";
+import { getWeddingContext } from "./wedding-context";
+import {
+  getWeddingDashboardData,
+  RSVP_STATUSES,
+  updateGuest,
+} from "./wedding-store";
+
+const updateGuestInput = z.object({
+  guest_id: z.string().trim().min(1).describe("Guest id like guest_1."),
+  name: z.string().trim().min(1).optional().describe("Corrected guest name."),
+  contact: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("Corrected guest email address or phone number."),
+  rsvp_status: z
+    .enum(RSVP_STATUSES)
+    .optional()
+    .describe("RSVP status: Yes, No, Maybe, or Pending."),
+  ...guestDetailsShape,
+});
+
+export default defineTool({
+  name: "updateGuest",
+  title: "Update Guest",
+  description:
+    "Update any guest field: name, contact, RSVP, household, side, plus-one, meal choice, dietary needs, age group, tags, or accessibility notes. Omitted fields are left unchanged.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: updateGuestInput,
+  output: dashboardOutput("guests", ["guest_id"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Updating guest",
+  invoked: "Guest updated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { guest_id: guestId, ...patch } = input;
+    const guest = updateGuest(wedding, guestId, patch);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Updated guest ${guest.name} (${guest.id}).`,
+        },
+      ],
+      structuredContent: {
+        view: "guests",
+        guest_id: guest.id,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
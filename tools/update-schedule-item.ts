@@ -0,0 +1,67 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { scheduleDetailsShape } from "./schedule-fields";
+import { getWeddingContext } from "./wedding-context";
+import { getWeddingDashboardData, updateScheduleItem } from "./wedding-store";
+
+const updateScheduleItemInput = z.object({
+  schedule_item_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Schedule item id like schedule_1."),
+  time: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("New start time, e.g. 3pm or 15:00. Keeps the current duration."),
+  description: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("New schedule item description."),
+  ...scheduleDetailsShape,
+});
+
+export default defineTool({
+  name: "updateScheduleItem",
+  title: "Update Schedule Item",
+  description:
+    "Change the time, duration, event, location, owner, or description of a schedule item. Omitted fields are left unchanged.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: updateScheduleItemInput,
+  output: dashboardOutput("schedule", ["schedule_item_id", "schedule_issues"]),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Updating schedule item",
+  invoked: "Schedule item updated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { schedule_item_id: itemId, ...patch } = input;
+    const { item, issues } = updateScheduleItem(wedding, itemId, patch);
+    const lines = [
+      `Schedule item updated: ${item.time}${item.end_time ? `-${item.end_time}` : ""} ${item.description}`,
+      ...issues.map((issue) => `- ${issue.message}`),
+    ];
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: {
+        view: "schedule",
+        schedule_item_id: item.id,
+        schedule_issues: issues,
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,67 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import {
+  dashboardOutput,
+  dashboardOutputDefinitions,
+} from "./dashboard-output";
+import { getWeddingContext } from "./wedding-context";
+import { describeDue } from "./wedding-dates";
+import {
+  getWeddingDashboardData,
+  TASK_STATUSES,
+  updateTask,
+} from "./wedding-store";
+
+const updateTaskInput = z.object({
+  task_id: z.string().trim().min(1).describe("Task id like task_1."),
+  title: z.string().trim().min(1).optional().describe("New task title."),
+  due_date: z
+    .string()
+    .trim()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe(
+      'New due date, e.g. 2027-05-01, May 1, or relative to the wedding like "2 weeks before the wedding". Null clears it and leaves the task unscheduled.',
+    ),
+  status: z
+    .enum(TASK_STATUSES)
+    .optional()
+    .describe("Task status: Pending, In progress, Done, or Cancelled."),
+});
+
+export default defineTool({
+  name: "updateTask",
+  title: "Update Task",
+  description:
+    "Update a wedding checklist task's title, due date, or status. Use status Cancelled to drop a task and a null due_date to unschedule it.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: updateTaskInput,
+  output: dashboardOutput("tasks"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Updating task",
+  invoked: "Task updated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { task_id: taskId, ...patch } = input;
+    const task = updateTask(wedding, taskId, patch);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Task "${task.title}" is now ${task.status}, ${describeDue(task)}.`,
+        },
+      ],
+      structuredContent: {
+        view: "tasks",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,53 @@
+import { z } from "zod/v3";
+import { defineTool } from "../utils/define-tool";
+import { dashboardOutput, dashboardOutputDefinitions } from "./dashboard-output";
+import { vendorDetailsShape } from "./vendor-fields";
+import { getWeddingContext } from "./wedding-context";
+import {
+  getWeddingDashboardData,
+  updateVendor,
+  VENDOR_CATEGORIES,
+} from "./wedding-store";
+
+const updateVendorInput = z.object({
+  vendor_id: z.string().trim().min(1).describe("Vendor id like vendor_1."),
+  name: z.string().trim().min(1).optional().describe("Vendor or business name."),
+  category: z.enum(VENDOR_CATEGORIES).optional().describe("Vendor category."),
+  ...vendorDetailsShape,
+});
+
+export default defineTool({
+  name: "updateVendor",
+  title: "Update Vendor",
+  description:
+    "Update a wedding vendor, for example to record a quote, mark the contract booked, or set deposit dates. Omitted fields are left unchanged.",
+  annotations: {
+    readOnlyHint: false,
+    openWorldHint: false,
+    destructiveHint: false,
+  },
+  input: updateVendorInput,
+  output: dashboardOutput("vendors"),
+  outputDefinitions: dashboardOutputDefinitions,
+  ui: "wedding-planner-dashboard",
+  invoking: "Updating vendor",
+  invoked: "Vendor updated",
+  async handler(input, context) {
+    const wedding = getWeddingContext(context);
+    const { vendor_id: vendorId, ...patch } = input;
+    const vendor = updateVendor(wedding, vendorId, patch);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Updated ${vendor.name} (${vendor.contract_status}).`,
+        },
+      ],
+      structuredContent: {
+        view: "vendors",
+        data: getWeddingDashboardData(wedding),
+      },
+    };
+  },
+});
@@ -0,0 +1,42 @@
+import { z } from "zod/v3";
+import { CONTRACT_STATUSES } from "./wedding-store";
+
+// Optional vendor attributes shared by addVendor and updateVendor.
+export const vendorDetailsShape = {
+  contact_name: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .describe("Main contact person at the vendor."),
+  email: z.string().trim().nullable().optional().describe("Vendor email."),
+  phone: z.string().trim().nullable().optional().describe("Vendor phone number."),
+  website: z.string().trim().nullable().optional().describe("Vendor website URL."),
+  quote: z
+    .number()
+    .min(0)
+    .nullable()
+    .optional()
+    .describe("Quoted total price in US dollars."),
+  contract_status: z
+    .enum(CONTRACT_STATUSES)
+    .optional()
+    .describe("Contract status: Researching, Contacted, Quoted, Booked, or Declined."),
+  deposit_amount: z
+    .number()
+    .min(0)
+    .nullable()
+    .optional()
+    .describe("Deposit amount in US dollars."),
+  deposit_due_date: z
+    .string()
+    .trim()
+    .optional()
+    .describe("Deposit due date as a string."),
+  balance_due_date: z
+    .string()
+    .trim()
+    .optional()
+    .describe("Final balance due date as a string."),
+  notes: z.string().trim().optional().describe("Free-form notes. Replaces existing notes."),
+};
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConflictError, InvalidInputError } from "../utils/tool-errors";
+import { buildBackupFile, parseWeddingBackup, WEDDING_BACKUP_FORMAT } from "./wedding-backup";
+import {
+  addGuest,
+  addTable,
+  addTask,
+  assignGuestToTable,
+  createWedding,
+  exportWeddingBackup,
+  getChangeHistory,
+  getWeddingDashboardData,
+  inviteCollaborator,
+  restoreWeddingBackup,
+  updateGuestStatus,
+} from "./wedding-store";
+
+function createBackedUpWedding() {
+  const ctx = {
+    userId: "backup_owner",
+    weddingId: createWedding("backup_owner", { name: "Ann & Bo" }).id,
+  };
+  const { guest } = addGuest(ctx, { name: "Cy", contact: "cy@example.com" });
+  updateGuestStatus(ctx, guest.id, "Yes");
+  const table = addTable(ctx, { name: "Family", shape: "Round", capacity: 8 });
+  assignGuestToTable(ctx, guest.id, table.id);
+  addTask(ctx, { title: "Book florist", due_date: "2030-02-01" });
+  inviteCollaborator(ctx, { name: "Dee", role: "planner" });
+  return ctx;
+}
+
+function backupText(overrides: Record<string, unknown>): string {
+  const backup = exportWeddingBackup(createBackedUpWedding());
+  return JSON.stringify({ ...backup, ...overrides });
+}
+
+describe("wedding backups", () => {
+  it("restore as a new wedding with the same plan", () => {
+    const ctx = createBackedUpWedding();
+    const file = buildBackupFile(exportWeddingBackup(ctx));
+
+    const restored = restoreWeddingBackup("backup_restorer", parseWeddingBackup(file.content), {
+      name: "Ann & Bo (copy)",
+    });
+    const copy = { userId: "backup_restorer", weddingId: restored.id };
+    const original = getWeddingDashboardData(ctx);
+    const data = getWeddingDashboardData(copy);
+
+    assert.equal(file.filename, "ann-bo-backup.json");
+    assert.notEqual(restored.id, ctx.weddingId);
+    assert.equal(restored.name, "Ann & Bo (copy)");
+    assert.equal(restored.owner_id, "backup_restorer");
+    assert.deepEqual(data.guests, original.guests);
+    assert.deepEqual(data.tasks, original.tasks);
+    assert.deepEqual(data.seating.tables, original.seating.tables);
+    assert.deepEqual(
+      data.collaborators.map((collaborator) => [collaborator.user_id, collaborator.role]),
+      [["backup_restorer", "owner"]],
+    );
+    assert.deepEqual(getChangeHistory(copy), []);
+  });
+
+  it("leaves out who has access and the change history", () => {
+    const backup = exportWeddingBackup(createBackedUpWedding());
+
+    assert.equal(backup.format, WEDDING_BACKUP_FORMAT);
+    assert.ok(!("collaborators" in backup.data));
+    assert.ok(!("invitations" in backup.data));
+    assert.ok(!("history" in backup.data));
+  });
+
+  it("refuses text that is not a backup", () => {
+    assert.throws(() => parseWeddingBackup("{"), /not valid JSON/);
+    assert.throws(() => parseWeddingBackup("null"), /This is not a wedding backup/);
+    assert.throws(() => parseWeddingBackup(backupText({ format: "other" })), InvalidInputError);
+    assert.throws(() => parseWeddingBackup(backupText({ data: null })), InvalidInputError);
+    assert.throws(() => parseWeddingBackup(backupText({ data: [] })), InvalidInputError);
+    assert.throws(
+      () => parseWeddingBackup(backupText({ schema_version: undefined })),
+      /missing its schema_version/,
+    );
+    assert.throws(
+      () => parseWeddingBackup(backupText({ exported_at: 20300101 })),
+      /missing its exported_at/,
+    );
+  });
+
+  it("refuses to restore data it cannot read", () => {
+    const notAWedding = parseWeddingBackup(backupText({ data: {} }));
+    const newer = parseWeddingBackup(backupText({ schema_version: 999 }));
+
+    assert.throws(() => restoreWeddingBackup("backup_restorer", notAWedding), InvalidInputError);
+    assert.throws(() => restoreWeddingBackup("backup_restorer", newer), ConflictError);
+  });
+});
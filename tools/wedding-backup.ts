@@ -0,0 +1,69 @@
+import type { ExportFile } from "../utils/export-files";
+import { InvalidInputError } from "../utils/tool-errors";
+import { slugify } from "./wedding-export";
+import type { WeddingState } from "./wedding-store";
+
+export const WEDDING_BACKUP_FORMAT = "wedding-planner-backup";
+
+// Everything needed to rebuild the plan. Who has access and the change
+// history stay with the original wedding.
+export type WeddingBackupData = Omit<
+  WeddingState,
+  | "schema_version"
+  | "collaborators"
+  | "invitations"
+  | "nextInvitationId"
+  | "history"
+  | "nextChangeId"
+>;
+
+// `data` is written in the shape of `schema_version`; restoring runs it
+// through the same migrations as stored weddings.
+export type WeddingBackup = {
+  format: typeof WEDDING_BACKUP_FORMAT;
+  schema_version: number;
+  exported_at: string;
+  data: WeddingBackupData;
+};
+
+export function buildBackupFile(backup: WeddingBackup): ExportFile {
+  return {
+    filename: `${slugify(backup.data.wedding.name)}-backup.json`,
+    mimeType: "application/json; charset=utf-8",
+    content: `${JSON.stringify(backup, null, 2)}\n`,
+  };
+}
+
+// Checks the envelope only; the data itself is checked once it has been
+// migrated to the current schema.
+export function parseWeddingBackup(text: string): WeddingBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new InvalidInputError("The backup is not valid JSON. Paste the whole file contents.");
+  }
+
+  const backup = parsed as Partial<WeddingBackup> | null;
+
+  if (
+    backup?.format !== WEDDING_BACKUP_FORMAT ||
+    typeof backup.data !== "object" ||
+    backup.data === null ||
+    Array.isArray(backup.data)
+  ) {
+    throw new InvalidInputError(
+      `This is not a wedding backup; expected a JSON document with "format": "${WEDDING_BACKUP_FORMAT}".`,
+    );
+  }
+
+  if (typeof backup.schema_version !== "number") {
+    throw new InvalidInputError("The backup is missing its schema_version.");
+  }
+
+  if (typeof backup.exported_at !== "string") {
+    throw new InvalidInputError("The backup is missing its exported_at date.");
+  }
+
+  return backup as WeddingBackup;
+}
@@ -0,0 +1,136 @@
+import { addToDate, zonedTimeToUtc } from "../utils/calendar-date";
+import type { CalendarEvent, CalendarFeed } from "../utils/icalendar";
+import { parseTimeOfDay } from "../utils/time-of-day";
+import { scheduleDayOffset } from "./schedule-timeline";
+import { asIsoDate, DEFAULT_TIME_ZONE, describeDueOffset } from "./wedding-dates";
+import type { TrackedField } from "./wedding-history";
+import type { EntityRevisions, WeddingDashboardData } from "./wedding-store";
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// UIDs are built from ids the store never reuses, so editing an item updates
+// the same calendar event and deleting it removes that event.
+function eventUid(weddingId: string, key: string): string {
+  return `${weddingId}-${key}@wedding-planner`;
+}
+
+function startAt(date: string, time: string, timeZone: string): Date | null {
+  const minutes = parseTimeOfDay(time);
+
+  return minutes === null
+    ? null
+    : zonedTimeToUtc(addToDate(date, scheduleDayOffset(time), "days"), minutes, timeZone);
+}
+
+function allDay(date: string): Pick<CalendarEvent, "start" | "end"> {
+  return { start: { date }, end: { date: addToDate(date, 1, "days") } };
+}
+
+// The wedding day and each dated event, every timed schedule item, and the
+// due date of every open task. Schedule items are placed on their event's
+// date, so they are left out until that date is set. Each calendar event
+// takes its revision from the latest change among the records it is built
+// from.
+export function buildWeddingCalendar(
+  data: WeddingDashboardData,
+  revisions: EntityRevisions,
+): CalendarFeed {
+  const revision = (
+    ...sources: Array<[TrackedField, string | null]>
+  ): Pick<CalendarEvent, "sequence" | "lastModified"> => {
+    const latest = sources
+      .map(([field, entityId]) => revisions(field, entityId))
+      .reduce((left, right) => (right.sequence > left.sequence ? right : left));
+    return { sequence: latest.sequence, lastModified: new Date(latest.at) };
+  };
+  const weddingId = data.wedding.id;
+  const eventDate = asIsoDate(data.eventDetails?.event_date);
+  const timeZone = data.eventDetails?.time_zone ?? DEFAULT_TIME_ZONE;
+  const location = data.eventDetails?.location || null;
+  const weddingEvents = new Map(data.events.map((event) => [event.id, event]));
+  const events: CalendarEvent[] = [];
+
+  if (eventDate) {
+    events.push({
+      uid: eventUid(weddingId, "wedding-day"),
+      summary: data.wedding.name,
+      ...allDay(eventDate),
+      location,
+      ...revision(["eventDetails", null]),
+    });
+  }
+
+  for (const event of data.events) {
+    const date = asIsoDate(event.date);
+
+    if (!date) {
+      continue;
+    }
+
+    const start = event.start_time ? startAt(date, event.start_time, timeZone) : null;
+    const end = start && event.end_time ? startAt(date, event.end_time, timeZone) : null;
+
+    events.push({
+      uid: eventUid(weddingId, event.id),
+      summary: event.name,
+      ...(start
+        ? {
+            start: { dateTime: start },
+            // An end at or before the start runs past midnight.
+            end: end
+              ? { dateTime: end > start ? end : new Date(end.getTime() + MS_PER_DAY) }
+              : undefined,
+          }
+        : allDay(date)),
+      location: event.venue,
+      ...revision(["events", event.id], ["eventDetails", null]),
+    });
+  }
+
+  for (const item of data.schedule) {
+    const event = item.event_id ? weddingEvents.get(item.event_id) : undefined;
+    const date = event ? asIsoDate(event.date) : eventDate;
+    const start = date ? startAt(date, item.time, timeZone) : null;
+
+    if (!start) {
+      continue;
+    }
+
+    events.push({
+      uid: eventUid(weddingId, item.id),
+      summary: event ? `${event.name}: ${item.description}` : item.description,
+      start: { dateTime: start },
+      end: item.duration_minutes
+        ? { dateTime: new Date(start.getTime() + item.duration_minutes * MS_PER_MINUTE) }
+        : undefined,
+      location: item.location ?? (event ? event.venue : location),
+      description: item.owner ? `Owner: ${item.owner}` : null,
+      ...revision(["schedule", item.id], ["events", item.event_id], ["eventDetails", null]),
+    });
+  }
+
+  for (const task of data.pendingTasks) {
+    const dueDate = asIsoDate(task.due_date);
+
+    if (!dueDate) {
+      continue;
+    }
+
+    events.push({
+      uid: eventUid(weddingId, task.id),
+      summary: `Due: ${task.title}`,
+      start: { date: dueDate },
+      end: { date: addToDate(dueDate, 1, "days") },
+      description: [
+        `Status: ${task.status}`,
+        task.due_offset ? `Due ${describeDueOffset(task.due_offset)}` : null,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      ...revision(["tasks", task.id]),
+    });
+  }
+
+  return { name: data.wedding.name, events };
+}
@@ -0,0 +1,22 @@
+import type { ToolContext } from "../utils/define-tool";
+import { resolveWeddingContext, type WeddingContext } from "./wedding-store";
+
+// Callers without any identity (local dev, MCP inspector) share one tenant.
+const LOCAL_USER_ID = "local";
+
+// Lets a client pin a call to a specific wedding instead of the active one.
+export const WEDDING_ID_META_KEY = "wedding-planner/weddingId";
+
+export function getUserId(context: ToolContext): string {
+  return context.userId ?? LOCAL_USER_ID;
+}
+
+export function getWeddingContext(context: ToolContext): WeddingContext {
+  const weddingId = context.meta[WEDDING_ID_META_KEY];
+
+  return resolveWeddingContext({
+    userId: getUserId(context),
+    weddingId: typeof weddingId === "string" && weddingId ? weddingId : null,
+    toolName: context.toolName,
+  });
+}
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { addToDate, parseCalendarDate } from "../utils/calendar-date";
+import {
+  classifyDueDate,
+  describeDue,
+  dueDateFromOffset,
+  parseDueOffset,
+  resolveDueDate,
+} from "./wedding-dates";
+
+describe("parseDueOffset", () => {
+  it("reads amounts, units and direction relative to the wedding", () => {
+    assert.deepEqual(parseDueOffset("6 weeks before the wedding"), { amount: -6, unit: "weeks" });
+    assert.deepEqual(parseDueOffset("Two months prior to the big day"), {
+      amount: -2,
+      unit: "months",
+    });
+    assert.deepEqual(parseDueOffset("3 days after the wedding"), { amount: 3, unit: "days" });
+    assert.deepEqual(parseDueOffset("the week before the wedding"), { amount: -1, unit: "weeks" });
+    assert.deepEqual(parseDueOffset("on the wedding day"), { amount: 0, unit: "days" });
+  });
+
+  it("returns null for anything that is not relative to the wedding", () => {
+    assert.equal(parseDueOffset("2030-05-01"), null);
+    assert.equal(parseDueOffset("6 weeks before the party"), null);
+    assert.equal(parseDueOffset("many weeks before the wedding"), null);
+  });
+});
+
+describe("dueDateFromOffset", () => {
+  it("counts from the wedding date and stays empty without one", () => {
+    const offset = { amount: -1, unit: "months" } as const;
+
+    assert.equal(dueDateFromOffset(offset, "2030-03-31", "2029-01-01"), "2030-02-28");
+    assert.equal(dueDateFromOffset(offset, null, "2029-01-01"), "");
+  });
+
+  it("never falls before the day planning started", () => {
+    const offset = { amount: -12, unit: "months" } as const;
+    assert.equal(dueDateFromOffset(offset, "2030-06-01", "2029-12-15"), "2029-12-15");
+  });
+});
+
+describe("resolveDueDate", () => {
+  const context = { today: "2029-01-10", eventDate: "2030-06-01", planningStart: "2029-01-01" };
+
+  it("keeps the offset of relative due dates", () => {
+    assert.deepEqual(resolveDueDate("2 weeks before the wedding", context), {
+      due_date: "2030-05-18",
+      due_offset: { amount: -2, unit: "weeks" },
+    });
+  });
+
+  it("parses absolute dates against today", () => {
+    assert.deepEqual(resolveDueDate("in 3 days", context), {
+      due_date: "2029-01-13",
+      due_offset: null,
+    });
+    assert.equal(resolveDueDate("March 3", context).due_date, "2029-03-03");
+  });
+
+  it("refuses dates it cannot read", () => {
+    assert.throws(() => resolveDueDate("whenever", context), /Could not understand the due date/);
+  });
+});
+
+describe("classifyDueDate", () => {
+  it("sorts due dates into overdue, due soon and upcoming", () => {
+    const today = "2030-01-15";
+
+    assert.deepEqual(classifyDueDate("2030-01-14", today), {
+      due_status: "overdue",
+      days_until_due: -1,
+    });
+    assert.equal(classifyDueDate(addToDate(today, 14, "days"), today).due_status, "due_soon");
+    assert.equal(classifyDueDate(addToDate(today, 15, "days"), today).due_status, "upcoming");
+    assert.deepEqual(classifyDueDate("", today), {
+      due_status: "unscheduled",
+      days_until_due: null,
+    });
+  });
+});
+
+describe("describeDue", () => {
+  it("mentions the offset and waits for the wedding date", () => {
+    const offset = { amount: -6, unit: "weeks" } as const;
+
+    assert.equal(
+      describeDue({ due_date: "2030-04-20", due_offset: offset }),
+      "due 2030-04-20 (6 weeks before the wedding)",
+    );
+    assert.equal(
+      describeDue({ due_date: "", due_offset: offset }),
+      "due 6 weeks before the wedding, once the wedding date is set",
+    );
+    assert.equal(describeDue({ due_date: "", due_offset: null }), "no due date");
+  });
+});
+
+describe("parseCalendarDate", () => {
+  it("reads the date formats couples type", () => {
+    const today = "2029-07-01";
+
+    assert.equal(parseCalendarDate("June 12, 2030", today), "2030-06-12");
+    assert.equal(parseCalendarDate("12th June 2030", today), "2030-06-12");
+    assert.equal(parseCalendarDate("6/12/2030", today), "2030-06-12");
+    assert.equal(parseCalendarDate("tomorrow", today), "2029-07-02");
+    assert.equal(parseCalendarDate("June 12", today), "2030-06-12");
+    assert.equal(parseCalendarDate("2030-02-30", today), null);
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  addToDate,
+  daysBetween,
+  normalizeUnit,
+  parseAmount,
+  parseCalendarDate,
+  todayInTimeZone,
+  type DateUnit,
+} from "../utils/calendar-date";
+import { InvalidInputError } from "../utils/tool-errors";
+import type { DueStatus } from "./wedding-enums";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Tasks due within this many days count as due soon.
+const DUE_SOON_DAYS = 14;
+
+// A due date anchored to the wedding day. Negative amounts fall before it.
+export type DueOffset = {
+  amount: number;
+  unit: DateUnit;
+};
+
+export type DueClassification = {
+  due_status: DueStatus;
+  days_until_due: number | null;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Dates written before they were normalised may still be free text.
+export function asIsoDate(value: string | null | undefined): string | null {
+  return value && ISO_DATE.test(value) ? value : null;
+}
+
+export function weddingToday(timeZone: string | null | undefined): string {
+  return todayInTimeZone(timeZone || DEFAULT_TIME_ZONE);
+}
+
+export function parseDueOffset(input: string): DueOffset | null {
+  const text = input
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/\bprior to\b/, "before");
+
+  if (/^(on )?(the )?(wedding|big) day$/.test(text)) {
+    return { amount: 0, unit: "days" };
+  }
+
+  const match =
+    /^(?:(\w+) )?(days?|weeks?|months?) (before|after) (?:the )?(?:wedding|big day)(?: day)?$/.exec(
+      text,
+    );
+
+  if (!match) {
+    return null;
+  }
+
+  // "the week before the wedding" has no explicit amount.
+  const amountText = match[1] && match[1] !== "the" ? match[1] : "1";
+  const amount = parseAmount(amountText);
+  const unit = normalizeUnit(match[2]);
+
+  if (amount === null || unit === null) {
+    return null;
+  }
+
+  return { amount: match[3] === "before" ? -amount : amount, unit };
+}
+
+export function describeDueOffset(offset: DueOffset): string {
+  if (offset.amount === 0) {
+    return "on the wedding day";
+  }
+
+  const amount = Math.abs(offset.amount);
+  const unit = amount === 1 ? offset.unit.replace(/s$/, "") : offset.unit;
+
+  return `${amount} ${unit} ${offset.amount < 0 ? "before" : "after"} the wedding`;
+}
+
+// Dates that would fall before `notBefore`, the day planning started, are
+// moved up to it: "12 months before" a wedding booked eight months out is a
+// first job, not one that was overdue before the plan existed.
+export function dueDateFromOffset(
+  offset: DueOffset,
+  eventDate: string | null,
+  notBefore: string,
+): string {
+  if (!eventDate) {
+    return "";
+  }
+
+  const dueDate = addToDate(eventDate, offset.amount, offset.unit);
+  return dueDate < notBefore ? notBefore : dueDate;
+}
+
+// Relative due dates keep their offset so they can move with the wedding;
+// until a wedding date is set their due_date stays empty.
+export function resolveDueDate(
+  input: string,
+  context: { today: string; eventDate: string | null; planningStart: string },
+): { due_date: string; due_offset: DueOffset | null } {
+  const offset = parseDueOffset(input);
+
+  if (offset) {
+    return {
+      due_date: dueDateFromOffset(offset, context.eventDate, context.planningStart),
+      due_offset: offset,
+    };
+  }
+
+  const date = parseCalendarDate(input, context.today);
+
+  if (!date) {
+    throw new InvalidInputError(
+      `Could not understand the due date "${input}". Use a date like 2027-05-01 or May 1, 2027, or a relative date like "6 weeks before the wedding".`,
+    );
+  }
+
+  return { due_date: date, due_offset: null };
+}
+
+export function classifyDueDate(dueDate: string, today: string): DueClassification {
+  const isoDate = asIsoDate(dueDate);
+
+  if (!isoDate) {
+    return { due_status: "unscheduled", days_until_due: null };
+  }
+
+  const days = daysBetween(today, isoDate);
+
+  return {
+    due_status: days < 0 ? "overdue" : days <= DUE_SOON_DAYS ? "due_soon" : "upcoming",
+    days_until_due: days,
+  };
+}
+
+export function describeDue(task: { due_date: string; due_offset: DueOffset | null }): string {
+  if (task.due_offset) {
+    const relative = describeDueOffset(task.due_offset);
+    return task.due_date
+      ? `due ${task.due_date} (${relative})`
+      : `due ${relative}, once the wedding date is set`;
+  }
+
+  return task.due_date ? `due ${task.due_date}` : "no due date";
+}
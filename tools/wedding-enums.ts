@@ -0,0 +1,83 @@
+// Fixed value sets of the wedding plan. They live apart from wedding-store.ts,
+// which re-exports them, so that dashboard-output.ts can build its schemas from
+// them without pulling the store (and node built-ins) into the widget build.
+
+export const RSVP_STATUSES = ["Pending", "Yes", "No", "Maybe"] as const;
+
+export type RSVPStatus = (typeof RSVP_STATUSES)[number];
+
+export const GUEST_SIDES = ["Partner A", "Partner B", "Mutual"] as const;
+
+export type GuestSide = (typeof GUEST_SIDES)[number];
+
+export const AGE_GROUPS = ["Adult", "Teen", "Child", "Infant"] as const;
+
+export type AgeGroup = (typeof AGE_GROUPS)[number];
+
+export const TASK_STATUSES = ["Pending", "In progress", "Done", "Cancelled"] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const DUE_STATUSES = ["overdue", "due_soon", "upcoming", "unscheduled"] as const;
+
+export type DueStatus = (typeof DUE_STATUSES)[number];
+
+export const EXPENSE_CATEGORIES = [
+  "Venue",
+  "Catering",
+  "Photography",
+  "Flowers",
+  "Attire",
+  "Music",
+  "Decor",
+  "Stationery",
+  "Transportation",
+  "Other",
+] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+
+export const VENDOR_CATEGORIES = [
+  "Venue",
+  "Photographer",
+  "Videographer",
+  "Florist",
+  "Caterer",
+  "DJ",
+  "Band",
+  "Officiant",
+  "Baker",
+  "Hair & makeup",
+  "Planner",
+  "Rentals",
+  "Transportation",
+  "Other",
+] as const;
+
+export type VendorCategory = (typeof VENDOR_CATEGORIES)[number];
+
+export const CONTRACT_STATUSES = [
+  "Researching",
+  "Contacted",
+  "Quoted",
+  "Booked",
+  "Declined",
+] as const;
+
+export type ContractStatus = (typeof CONTRACT_STATUSES)[number];
+
+export const VENUE_SEARCH_PROVIDERS = ["hctg", "tripadvisor"] as const;
+
+export type VenueSearchProvider = (typeof VENUE_SEARCH_PROVIDERS)[number];
+
+export const TABLE_SHAPES = ["Round", "Rectangle", "Square"] as const;
+
+export type TableShape = (typeof TABLE_SHAPES)[number];
+
+export const SEATING_CONSTRAINT_TYPES = ["keep_together", "keep_apart"] as const;
+
+export type SeatingConstraintType = (typeof SEATING_CONSTRAINT_TYPES)[number];
+
+export const COLLABORATOR_ROLES = ["owner", "planner", "family_viewer"] as const;
+
+export type CollaboratorRole = (typeof COLLABORATOR_ROLES)[number];
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv } from "../utils/csv";
+import { parseGuestCsv } from "./guest-import";
+import { buildExportFile, slugify } from "./wedding-export";
+import { addGuest, addTask, createWedding, getWeddingDashboardData } from "./wedding-store";
+
+function createExportWedding() {
+  const ctx = {
+    userId: "exporter",
+    weddingId: createWedding("exporter", { name: "Ann & Bo!" }).id,
+  };
+  addGuest(ctx, {
+    name: '=HYPERLINK("http://evil.example","Ann")',
+    contact: "+1 (512) 555-0100",
+    household: "Lee family",
+    plus_one_allowed: true,
+    dietary_restrictions: ["vegan", "nut allergy"],
+  });
+  addGuest(ctx, { name: "Bo", contact: "BO@example.com", tags: ["@college"] });
+  addTask(ctx, { title: "-cancel the DJ", due_date: "2030-05-01" });
+  return ctx;
+}
+
+describe("buildExportFile", () => {
+  it("names files after the wedding", () => {
+    assert.equal(slugify("Ann & Bo!"), "ann-bo");
+    assert.equal(slugify("!!!"), "wedding");
+  });
+
+  it("writes no cell a spreadsheet would run as a formula", () => {
+    const data = getWeddingDashboardData(createExportWedding());
+
+    for (const format of ["guests_csv", "tasks_csv"] as const) {
+      const cells = buildExportFile(format, data)
+        .content.split("\r\n")
+        .flatMap((line) => line.match(/("(?:[^"]|"")*"|[^,]*)/g) ?? [])
+        .map((cell) => cell.replace(/^"/, ""));
+
+      assert.ok(
+        cells.every((cell) => !/^[=+\-@]/.test(cell)),
+        format,
+      );
+    }
+  });
+
+  it("exports guests in a CSV importGuests reads back", () => {
+    const data = getWeddingDashboardData(createExportWedding());
+    const file = buildExportFile("guests_csv", data);
+    const { rows, invalid } = parseGuestCsv(file.content);
+
+    assert.equal(file.filename, "ann-bo-guests.csv");
+    assert.deepEqual(invalid, []);
+    assert.deepEqual(
+      rows.map((row) => [row.name, row.contact, row.household, row.plus_one_allowed, row.tags]),
+      [
+        ['=HYPERLINK("http://evil.example","Ann")', "+15125550100", "Lee family", true, undefined],
+        ["Bo", "bo@example.com", undefined, false, ["@college"]],
+      ],
+    );
+    assert.deepEqual(rows[0].dietary_restrictions, ["vegan", "nut allergy"]);
+  });
+
+  it("exports the checklist with its due dates", () => {
+    const data = getWeddingDashboardData(createExportWedding());
+    const [header, task] = parseCsv(buildExportFile("tasks_csv", data).content);
+
+    assert.deepEqual(header, ["Title", "Status", "Due Date", "Relative Due", "Completed At"]);
+    assert.deepEqual(task, ["-cancel the DJ", "Pending", "2030-05-01", "", ""]);
+  });
+});
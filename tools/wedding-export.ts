@@ -0,0 +1,261 @@
+import { formatCsv } from "../utils/csv";
+import type { ExportFile } from "../utils/export-files";
+import { formatVCard } from "../utils/vcard";
+import { describeDueOffset } from "./wedding-dates";
+import type { Guest, WeddingDashboardData } from "./wedding-store";
+
+export const EXPORT_FORMATS = [
+  "guests_csv",
+  "guests_vcard",
+  "tasks_csv",
+  "summary_markdown",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "wedding"
+  );
+}
+
+function householdNames(data: WeddingDashboardData): Map<string, string> {
+  return new Map(data.households.map((household) => [household.id, household.name]));
+}
+
+function tableNames(data: WeddingDashboardData): Map<string, string> {
+  return new Map(
+    data.seating.tables.flatMap((table) =>
+      table.guest_ids.map((guestId) => [guestId, table.name] as const),
+    ),
+  );
+}
+
+// The guest CSV uses the same headers importGuests recognises, so an export
+// can be edited in a spreadsheet and imported into another wedding.
+function guestsCsv(data: WeddingDashboardData): string {
+  const households = householdNames(data);
+  const tables = tableNames(data);
+
+  return formatCsv([
+    [
+      "Name",
+      "Contact",
+      "RSVP",
+      "Household",
+      "Side",
+      "Plus One",
+      "Plus One Name",
+      "Meal",
+      "Dietary",
+      "Age Group",
+      "Accessibility",
+      "Tags",
+      "Table",
+    ],
+    ...data.guests.map((guest) => [
+      guest.name,
+      guest.contact,
+      guest.rsvp_status,
+      guest.household_id ? (households.get(guest.household_id) ?? "") : "",
+      guest.side,
+      guest.plus_one_allowed ? "yes" : "no",
+      guest.plus_one_name ?? "",
+      guest.meal_choice ?? "",
+      guest.dietary_restrictions.join("; "),
+      guest.age_group,
+      guest.accessibility_notes ?? "",
+      guest.tags.join("; "),
+      tables.get(guest.id) ?? "",
+    ]),
+  ]);
+}
+
+function guestVCard(guest: Guest, household: string | null): string {
+  const isEmail = guest.contact_type === "email";
+
+  return formatVCard({
+    name: guest.name,
+    emails: isEmail ? [guest.contact] : [],
+    phones: isEmail ? [] : [guest.contact],
+    organization: household,
+    note: `Wedding guest, RSVP ${guest.rsvp_status}`,
+  });
+}
+
+function guestsVCard(data: WeddingDashboardData): string {
+  const households = householdNames(data);
+
+  return data.guests
+    .map((guest) =>
+      guestVCard(
+        guest,
+        guest.household_id ? (households.get(guest.household_id) ?? null) : null,
+      ),
+    )
+    .join("");
+}
+
+function tasksCsv(data: WeddingDashboardData): string {
+  return formatCsv([
+    ["Title", "Status", "Due Date", "Relative Due", "Completed At"],
+    ...data.tasks.map((task) => [
+      task.title,
+      task.status,
+      task.due_date,
+      task.due_offset ? describeDueOffset(task.due_offset) : "",
+      task.completed_at ?? "",
+    ]),
+  ]);
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]|])/g, "\\$1");
+}
+
+function summaryMarkdown(data: WeddingDashboardData): string {
+  const lines: string[] = [`# ${escapeMarkdown(data.wedding.name)}`, ""];
+  const details = data.eventDetails;
+
+  lines.push(
+    `- **Date:** ${details?.event_date || "TBD"}`,
+    `- **Location:** ${details?.location ? escapeMarkdown(details.location) : "TBD"}`,
+  );
+  const daysToGo = data.countdown.days_until_wedding;
+  if (daysToGo !== null && daysToGo >= 0) {
+    lines.push(`- **Days to go:** ${daysToGo}`);
+  }
+
+  if (data.events.length > 0) {
+    lines.push("", "## Events", "");
+    for (const event of data.events) {
+      const when = [event.date || "Date TBD", event.start_time].filter(Boolean).join(" ");
+      const where = event.venue ? `, ${escapeMarkdown(event.venue)}` : "";
+      lines.push(
+        `- **${escapeMarkdown(event.name)}:** ${when}${where} (${event.invited_guest_ids.length} invited, ${event.rsvp_counts.Yes} attending)`,
+      );
+    }
+  }
+
+  const rsvpCounts = ["Yes", "Maybe", "Pending", "No"].map(
+    (status) => data.guests.filter((guest) => guest.rsvp_status === status).length,
+  );
+  lines.push(
+    "",
+    "## Guests",
+    "",
+    `${data.guests.length} invited: ${rsvpCounts[0]} attending, ${rsvpCounts[1]} maybe, ${rsvpCounts[2]} awaiting reply, ${rsvpCounts[3]} declined.`,
+  );
+
+  const openTasks = data.pendingTasks;
+  lines.push("", "## Checklist", "");
+  if (openTasks.length === 0) {
+    lines.push("Everything is done.");
+  }
+  for (const task of openTasks) {
+    const overdue = task.due_status === "overdue" ? ", overdue" : "";
+    const due = task.due_date ? ` (due ${task.due_date}${overdue})` : "";
+    lines.push(`- [ ] ${escapeMarkdown(task.title)}${due}`);
+  }
+  for (const task of data.tasks.filter((entry) => entry.status === "Done")) {
+    lines.push(`- [x] ${escapeMarkdown(task.title)}`);
+  }
+
+  if (data.schedule.length > 0) {
+    const eventNames = new Map(data.events.map((event) => [event.id, event.name]));
+    lines.push(
+      "",
+      "## Schedule",
+      "",
+      "| Event | Time | What | Where |",
+      "| --- | --- | --- | --- |",
+    );
+    for (const item of data.schedule) {
+      const event = item.event_id ? (eventNames.get(item.event_id) ?? "") : "Wedding day";
+      const time = item.end_time ? `${item.time}-${item.end_time}` : item.time;
+      const location = item.location ? escapeMarkdown(item.location) : "";
+      lines.push(
+        `| ${escapeMarkdown(event)} | ${time} | ${escapeMarkdown(item.description)} | ${location} |`,
+      );
+    }
+  }
+
+  const budget = data.budget;
+  lines.push(
+    "",
+    "## Budget",
+    "",
+    `- **Total:** ${formatUsd(budget.total_budget)}`,
+    `- **Committed:** ${formatUsd(budget.spent)} (${formatUsd(budget.paid)} paid)`,
+    `- **Remaining:** ${formatUsd(budget.remaining)}`,
+    ...budget.warnings.map((warning) => `- ${escapeMarkdown(warning)}`),
+  );
+
+  if (data.vendors.length > 0) {
+    lines.push(
+      "",
+      "## Vendors",
+      "",
+      "| Vendor | Category | Status | Contact |",
+      "| --- | --- | --- | --- |",
+    );
+    for (const vendor of data.vendors) {
+      const contact = [vendor.contact_name, vendor.email, vendor.phone]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(
+        `| ${escapeMarkdown(vendor.name)} | ${vendor.category} | ${vendor.contract_status} | ${escapeMarkdown(contact)} |`,
+      );
+    }
+  }
+
+  if (data.seating.tables.length > 0) {
+    const guestNames = new Map(data.guests.map((guest) => [guest.id, guest.name]));
+    lines.push("", "## Seating", "");
+    for (const table of data.seating.tables) {
+      const names = table.guest_ids.map((guestId) => guestNames.get(guestId) ?? guestId);
+      const seated = names.length > 0 ? escapeMarkdown(names.join(", ")) : "empty";
+      lines.push(`- **${escapeMarkdown(table.name)}:** ${seated}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function buildExportFile(format: ExportFormat, data: WeddingDashboardData): ExportFile {
+  const slug = slugify(data.wedding.name);
+
+  switch (format) {
+    case "guests_csv":
+      return {
+        filename: `${slug}-guests.csv`,
+        mimeType: "text/csv; charset=utf-8",
+        content: guestsCsv(data),
+      };
+    case "guests_vcard":
+      return {
+        filename: `${slug}-guests.vcf`,
+        mimeType: "text/vcard; charset=utf-8",
+        content: guestsVCard(data),
+      };
+    case "tasks_csv":
+      return {
+        filename: `${slug}-tasks.csv`,
+        mimeType: "text/csv; charset=utf-8",
+        content: tasksCsv(data),
+      };
+    case "summary_markdown":
+      return {
+        filename: `${slug}-plan.md`,
+        mimeType: "text/markdown; charset=utf-8",
+        content: summaryMarkdown(data),
+      };
+  }
+}
@@ -0,0 +1,323 @@
+import { ConflictError } from "../utils/tool-errors";
+import type { WeddingState } from "./wedding-store";
+
+// Collections tracked entity by entity. Budget allocations and seat
+// assignments have no id of their own and are keyed by category and guest.
+const TRACKED_COLLECTIONS = {
+  events: "event",
+  guests: "guest",
+  households: "household",
+  tasks: "task",
+  schedule: "schedule item",
+  expenses: "expense",
+  budgetAllocations: "budget allocation",
+  vendors: "vendor",
+  tables: "table",
+  seatAssignments: "seat assignment",
+  seatingConstraints: "seating constraint",
+} as const;
+
+const TRACKED_SINGLETONS = {
+  eventDetails: "event details",
+  latestInvitation: "invitation",
+} as const;
+
+type TrackedCollection = keyof typeof TRACKED_COLLECTIONS;
+type TrackedSingleton = keyof typeof TRACKED_SINGLETONS;
+
+export type TrackedField = TrackedCollection | TrackedSingleton;
+
+export type TrackedSnapshot = Pick<WeddingState, TrackedField>;
+
+type TrackedEntity = Record<string, unknown>;
+
+// `before` is null when the change created the entity and `after` is null
+// when it removed it. `position` remembers where a removed entity sat so a
+// revert can put it back in the same place.
+export type EntityChange = {
+  field: TrackedField;
+  entity_id: string | null;
+  label: string;
+  before: TrackedEntity | null;
+  after: TrackedEntity | null;
+  position: number | null;
+};
+
+export type ChangeEntry = {
+  id: string;
+  at: string;
+  user_id: string;
+  tool: string | null;
+  summary: string;
+  changes: EntityChange[];
+  reverts: string | null;
+  reverted_by: string | null;
+};
+
+export type ActivityEntry = Omit<ChangeEntry, "changes"> & {
+  can_revert: boolean;
+};
+
+export function snapshotTrackedState(state: WeddingState): TrackedSnapshot {
+  const fields = [
+    ...Object.keys(TRACKED_COLLECTIONS),
+    ...Object.keys(TRACKED_SINGLETONS),
+  ] as TrackedField[];
+
+  return JSON.parse(
+    JSON.stringify(Object.fromEntries(fields.map((field) => [field, state[field]]))),
+  ) as TrackedSnapshot;
+}
+
+function entityKey(field: TrackedCollection, entity: TrackedEntity): string {
+  switch (field) {
+    case "budgetAllocations":
+      return String(entity.category);
+    case "seatAssignments":
+      return String(entity.guest_id);
+    default:
+      return String(entity.id);
+  }
+}
+
+function entityLabel(field: TrackedField, entity: TrackedEntity): string {
+  switch (field) {
+    case "events":
+    case "guests":
+    case "households":
+    case "vendors":
+    case "tables":
+      return String(entity.name);
+    case "seatAssignments":
+      return `${String(entity.guest_id)} at ${String(entity.table_id)}`;
+    case "seatingConstraints":
+      return `${String(entity.type).replace("_", " ")} ${(entity.guest_ids as string[]).join(", ")}`;
+    case "tasks":
+      return String(entity.title);
+    case "schedule":
+      return `${String(entity.time)} ${String(entity.description)}`;
+    case "expenses":
+      return String(entity.description);
+    case "budgetAllocations":
+      return String(entity.category);
+    default:
+      return "";
+  }
+}
+
+function sameValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+function diffCollection(
+  field: TrackedCollection,
+  before: TrackedEntity[],
+  after: TrackedEntity[],
+): EntityChange[] {
+  const beforeByKey = new Map(
+    before.map((entity, index) => [entityKey(field, entity), { entity, index }]),
+  );
+  const afterByKey = new Map(after.map((entity) => [entityKey(field, entity), entity]));
+  const changes: EntityChange[] = [];
+
+  for (const [key, current] of afterByKey) {
+    const previous = beforeByKey.get(key);
+
+    if (!previous || !sameValue(previous.entity, current)) {
+      changes.push({
+        field,
+        entity_id: key,
+        label: entityLabel(field, current),
+        before: previous ? previous.entity : null,
+        after: current,
+        position: previous ? previous.index : null,
+      });
+    }
+  }
+
+  for (const [key, previous] of beforeByKey) {
+    if (!afterByKey.has(key)) {
+      changes.push({
+        field,
+        entity_id: key,
+        label: entityLabel(field, previous.entity),
+        before: previous.entity,
+        after: null,
+        position: previous.index,
+      });
+    }
+  }
+
+  return changes;
+}
+
+export function diffTrackedState(
+  before: TrackedSnapshot,
+  state: WeddingState,
+): EntityChange[] {
+  const after = snapshotTrackedState(state);
+  const changes: EntityChange[] = [];
+
+  for (const field of Object.keys(TRACKED_COLLECTIONS) as TrackedCollection[]) {
+    changes.push(
+      ...diffCollection(
+        field,
+        before[field] as TrackedEntity[],
+        after[field] as TrackedEntity[],
+      ),
+    );
+  }
+
+  for (const field of Object.keys(TRACKED_SINGLETONS) as TrackedSingleton[]) {
+    if (!sameValue(before[field], after[field])) {
+      changes.push({
+        field,
+        entity_id: null,
+        label: "",
+        before: before[field] as TrackedEntity | null,
+        after: after[field] as TrackedEntity | null,
+        position: null,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function describeEntity(change: EntityChange): string {
+  const noun =
+    change.field in TRACKED_COLLECTIONS
+      ? TRACKED_COLLECTIONS[change.field as TrackedCollection]
+      : TRACKED_SINGLETONS[change.field as TrackedSingleton];
+
+  return change.label ? `${noun} "${change.label}"` : noun;
+}
+
+function describeChange(change: EntityChange): string {
+  const verb = !change.before ? "Added" : !change.after ? "Removed" : "Updated";
+  return `${verb} ${describeEntity(change)}`;
+}
+
+export function summarizeChanges(changes: EntityChange[]): string {
+  const [first, ...rest] = changes.map((change) => describeChange(change));
+  return rest.length > 0 ? `${first} (+${rest.length} more)` : first;
+}
+
+export function toActivityEntry(entry: ChangeEntry): ActivityEntry {
+  const { changes: _changes, ...activity } = entry;
+
+  return {
+    ...activity,
+    can_revert: entry.reverted_by === null && entry.reverts === null,
+  };
+}
+
+// The last change to an entity: its number (change ids count up from
+// change_1) and when it was made. Calendar feeds publish them as SEQUENCE and
+// LAST-MODIFIED.
+export type EntityRevision = {
+  sequence: number;
+  at: string;
+};
+
+export type EntityRevisions = (
+  field: TrackedField,
+  entityId: string | null,
+) => EntityRevision;
+
+function changeNumber(entry: ChangeEntry): number {
+  return Number(entry.id.slice("change_".length));
+}
+
+// Entities no kept change touches are put at the change just before the oldest
+// one kept. That is never earlier than their real last change, so a revision
+// does not go down as old changes are dropped. Until something is dropped it
+// is 0 at `since`, when the wedding was created.
+export function entityRevisions(
+  history: ChangeEntry[],
+  since: string,
+): EntityRevisions {
+  const latest = new Map<string, EntityRevision>();
+
+  for (const entry of history) {
+    for (const change of entry.changes) {
+      latest.set(`${change.field}:${change.entity_id ?? ""}`, {
+        sequence: changeNumber(entry),
+        at: entry.at,
+      });
+    }
+  }
+
+  const oldest = history[0];
+  const floor: EntityRevision =
+    oldest && changeNumber(oldest) > 1
+      ? { sequence: changeNumber(oldest) - 1, at: oldest.at }
+      : { sequence: 0, at: since };
+
+  return (field, entityId) =>
+    latest.get(`${field}:${entityId ?? ""}`) ?? floor;
+}
+
+function readTrackedEntity(
+  state: WeddingState,
+  change: EntityChange,
+): TrackedEntity | null {
+  if (change.field in TRACKED_SINGLETONS) {
+    return state[change.field as TrackedSingleton] as TrackedEntity | null;
+  }
+
+  const field = change.field as TrackedCollection;
+  const collection = state[field] as TrackedEntity[];
+
+  return collection.find((entity) => entityKey(field, entity) === change.entity_id) ?? null;
+}
+
+function writeTrackedEntity(
+  state: WeddingState,
+  change: EntityChange,
+  value: TrackedEntity | null,
+) {
+  if (change.field in TRACKED_SINGLETONS) {
+    (state as Record<TrackedSingleton, unknown>)[change.field as TrackedSingleton] =
+      value;
+    return;
+  }
+
+  const field = change.field as TrackedCollection;
+  const collection = state[field] as TrackedEntity[];
+  const index = collection.findIndex(
+    (entity) => entityKey(field, entity) === change.entity_id,
+  );
+
+  if (index >= 0) {
+    collection.splice(index, 1);
+  }
+
+  if (value) {
+    const position = index >= 0 ? index : (change.position ?? collection.length);
+    collection.splice(Math.min(position, collection.length), 0, value);
+  }
+}
+
+// Restores every entity touched by `entry` to its previous value. Refuses to
+// revert when something touched by the change has been edited again since,
+// so a revert never silently discards later work.
+export function revertEntityChanges(state: WeddingState, entry: ChangeEntry) {
+  const conflict = entry.changes.find(
+    (change) => !sameValue(readTrackedEntity(state, change), change.after),
+  );
+
+  if (conflict) {
+    throw new ConflictError(
+      `Change "${entry.id}" cannot be reverted because ${describeEntity(conflict)} was modified by a later change. Revert the later change first.`,
+    );
+  }
+
+  for (const change of [...entry.changes].reverse()) {
+    writeTrackedEntity(
+      state,
+      change,
+      change.before ? (JSON.parse(JSON.stringify(change.before)) as TrackedEntity) : null,
+    );
+  }
+}
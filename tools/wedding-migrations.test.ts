@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConflictError, InvalidInputError } from "../utils/tool-errors";
+import { migrateWeddingState, WEDDING_SCHEMA_VERSION } from "./wedding-migrations";
+
+// A document as written before schema versions existed.
+function unversionedDocument() {
+  return {
+    wedding: {
+      id: "wedding_old",
+      name: "Ann & Bo",
+      owner_id: "ann",
+      created_at: "2024-01-01T00:00:00.000Z",
+    },
+    eventDetails: { event_date: "2030-06-01", location: "Lake Como", budget: 30000 },
+    guests: [
+      { id: "guest_1", name: "Cy", contact: "CY@example.com", rsvp_status: "Yes" },
+      { id: "guest_2", name: "Dee", contact: "call me", rsvp_status: "Pending" },
+    ],
+    tasks: [{ id: "task_1", title: "Book florist", status: "Pending", due_date: "2030-02-01" }],
+    schedule: [{ id: "schedule_1", time: "15:00", description: "Ceremony" }],
+    nextGuestId: 3,
+    nextTaskId: 2,
+  };
+}
+
+describe("migrateWeddingState", () => {
+  it("brings unversioned documents up to the current schema", () => {
+    const state = migrateWeddingState(unversionedDocument());
+
+    assert.equal(state.schema_version, WEDDING_SCHEMA_VERSION);
+    assert.deepEqual(state.collaborators, [
+      { user_id: "ann", name: null, role: "owner", joined_at: "2024-01-01T00:00:00.000Z" },
+    ]);
+    assert.deepEqual(state.households, []);
+    assert.deepEqual(state.history, []);
+    assert.equal(state.eventDetails?.time_zone, "UTC");
+    assert.deepEqual(
+      state.guests.map((guest) => [guest.contact, guest.contact_type, guest.event_rsvps]),
+      [
+        ["CY@example.com", "email", {}],
+        ["call me", "phone", {}],
+      ],
+    );
+    assert.equal(state.tasks[0].due_offset, null);
+    assert.equal(state.schedule[0].event_id, null);
+  });
+
+  it("leaves current documents as they are", () => {
+    const state = migrateWeddingState(unversionedDocument());
+    const again = migrateWeddingState(structuredClone(state));
+
+    assert.deepEqual(again, state);
+  });
+
+  it("refuses documents it cannot read", () => {
+    assert.throws(() => migrateWeddingState({ wedding: {} }), InvalidInputError);
+    assert.throws(
+      () => migrateWeddingState({ ...unversionedDocument(), schema_version: "2" }),
+      InvalidInputError,
+    );
+    assert.throws(
+      () =>
+        migrateWeddingState({
+          ...unversionedDocument(),
+          schema_version: WEDDING_SCHEMA_VERSION + 1,
+        }),
+      (error: unknown) => error instanceof ConflictError && /newer version/.test(error.message),
+    );
+  });
+});
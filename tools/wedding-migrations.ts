@@ -0,0 +1,125 @@
+import { parseContact } from "../utils/contact";
+import { ConflictError, InvalidInputError } from "../utils/tool-errors";
+import { DEFAULT_TIME_ZONE } from "./wedding-dates";
+import type { WeddingState } from "./wedding-store";
+
+// Wedding documents (and backups) record the schema version they were written
+// with. Documents from before versioning count as version 0.
+//
+// When a change to the WeddingState types would leave older documents
+// incomplete, append a migration here instead of patching readState; the
+// schema version follows from the number of migrations.
+
+type Migration = {
+  description: string;
+  migrate: (state: WeddingState) => void;
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    description: "Collections and fields added before documents were versioned",
+    migrate(state) {
+      state.households ??= [];
+      state.nextHouseholdId ??= 1;
+      state.expenses ??= [];
+      state.budgetAllocations ??= [];
+      state.nextExpenseId ??= 1;
+      state.vendors ??= [];
+      state.nextVendorId ??= 1;
+      state.tables ??= [];
+      state.seatAssignments ??= [];
+      state.seatingConstraints ??= [];
+      state.nextTableId ??= 1;
+      state.nextConstraintId ??= 1;
+      state.mealOptions ??= [];
+      state.events ??= [];
+      state.nextEventId ??= 1;
+      for (const guest of state.guests) {
+        guest.event_rsvps ??= {};
+      }
+      for (const task of state.tasks) {
+        task.due_offset ??= null;
+      }
+      if (state.eventDetails) {
+        state.eventDetails.time_zone ??= DEFAULT_TIME_ZONE;
+      }
+      for (const item of state.schedule) {
+        item.event_id ??= null;
+        item.end_time ??= null;
+        item.duration_minutes ??= null;
+        item.location ??= null;
+        item.owner ??= null;
+      }
+      state.history ??= [];
+      state.nextChangeId ??= 1;
+    },
+  },
+  {
+    description: "Collaborators, seeded with the wedding's owner",
+    migrate(state) {
+      state.collaborators ??= [
+        {
+          user_id: state.wedding.owner_id,
+          name: null,
+          role: "owner",
+          joined_at: state.wedding.created_at,
+        },
+      ];
+      state.invitations ??= [];
+      state.nextInvitationId ??= 1;
+    },
+  },
+  {
+    description: "Guest contact types",
+    migrate(state) {
+      for (const guest of state.guests) {
+        // Contacts saved before validation are kept as they were typed.
+        guest.contact_type ??=
+          parseContact(guest.contact)?.type ?? (guest.contact.includes("@") ? "email" : "phone");
+      }
+    },
+  },
+];
+
+export const WEDDING_SCHEMA_VERSION = MIGRATIONS.length;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Brings a stored or restored document up to the current schema, in place.
+// Restored backups come from the caller, so what cannot be read is reported
+// as a tool error rather than a server failure.
+export function migrateWeddingState(document: unknown): WeddingState {
+  // Every version has had these.
+  if (
+    !isRecord(document) ||
+    !isRecord(document.wedding) ||
+    !Array.isArray(document.guests) ||
+    !Array.isArray(document.tasks) ||
+    !Array.isArray(document.schedule)
+  ) {
+    throw new InvalidInputError("This is not a wedding planner document.");
+  }
+
+  const version = document.schema_version ?? 0;
+
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new InvalidInputError(`Unknown wedding schema version "${String(version)}".`);
+  }
+
+  if (version > WEDDING_SCHEMA_VERSION) {
+    throw new ConflictError(
+      `This wedding was saved by a newer version of the planner (schema ${version}, this server reads up to ${WEDDING_SCHEMA_VERSION}).`,
+    );
+  }
+
+  const state = document as unknown as WeddingState;
+
+  for (const migration of MIGRATIONS.slice(version)) {
+    migration.migrate(state);
+  }
+  state.schema_version = WEDDING_SCHEMA_VERSION;
+
+  return state;
+}
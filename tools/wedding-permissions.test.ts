@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ToolContext, ToolDefinition } from "../utils/define-tool";
+import { ForbiddenError, NotFoundError } from "../utils/tool-errors";
+import { toolDefinitions } from "./index";
+import { WEDDING_ID_META_KEY } from "./wedding-context";
+import { authorizeWeddingToolCall } from "./wedding-permissions";
+import {
+  acceptCollaboratorInvitation,
+  createWedding,
+  inviteCollaborator,
+  setCollaboratorRole,
+  type CollaboratorRole,
+} from "./wedding-store";
+
+function tool(name: string): ToolDefinition {
+  const definition = toolDefinitions.find((entry) => entry.name === name);
+  assert.ok(definition, name);
+  return definition;
+}
+
+function callContext(userId: string, weddingId: string, toolName: string): ToolContext {
+  return { userId, toolName, meta: { [WEDDING_ID_META_KEY]: weddingId } };
+}
+
+let nextCouple = 1;
+
+// Creates a wedding and a second user who joined it with the given role.
+function createSharedWedding(role: Exclude<CollaboratorRole, "owner">) {
+  const owner = `permissions_owner_${nextCouple}`;
+  const member = `permissions_member_${nextCouple}`;
+  nextCouple += 1;
+  const ctx = { userId: owner, weddingId: createWedding(owner, { name: "Ann & Bo" }).id };
+  const invitation = inviteCollaborator(ctx, { name: "Cy", role });
+  acceptCollaboratorInvitation(member, ctx.weddingId, invitation.id);
+
+  const authorize = (userId: string, name: string) =>
+    authorizeWeddingToolCall(tool(name), callContext(userId, ctx.weddingId, name));
+
+  return { ctx, owner, member, authorize };
+}
+
+describe("authorizeWeddingToolCall", () => {
+  it("lets family viewers read but not change the wedding", () => {
+    const { member, authorize } = createSharedWedding("family_viewer");
+
+    assert.doesNotThrow(() => authorize(member, "getBudgetSummary"));
+    assert.throws(
+      () => authorize(member, "addGuest"),
+      (error: unknown) =>
+        error instanceof ForbiddenError &&
+        /needs planner access to this wedding; you have family viewer access/.test(error.message),
+    );
+    assert.throws(() => authorize(member, "inviteCollaborator"), ForbiddenError);
+  });
+
+  it("lets planners change the wedding but not manage collaborators", () => {
+    const { member, authorize } = createSharedWedding("planner");
+
+    assert.doesNotThrow(() => authorize(member, "getBudgetSummary"));
+    assert.doesNotThrow(() => authorize(member, "addGuest"));
+    assert.throws(
+      () => authorize(member, "inviteCollaborator"),
+      /needs owner access to this wedding; you have planner access/,
+    );
+  });
+
+  it("lets owners manage collaborators", () => {
+    const { owner, authorize } = createSharedWedding("planner");
+
+    assert.doesNotThrow(() => authorize(owner, "inviteCollaborator"));
+    assert.doesNotThrow(() => authorize(owner, "addGuest"));
+  });
+
+  it("follows role changes", () => {
+    const { ctx, member, authorize } = createSharedWedding("family_viewer");
+
+    setCollaboratorRole(ctx, member, "planner");
+
+    assert.doesNotThrow(() => authorize(member, "addGuest"));
+  });
+
+  it("hides weddings from users who were never invited", () => {
+    const { authorize } = createSharedWedding("planner");
+
+    assert.throws(() => authorize("permissions_stranger", "getBudgetSummary"), NotFoundError);
+  });
+
+  it("skips the check for tools that pick their own wedding", () => {
+    assert.doesNotThrow(() =>
+      authorizeWeddingToolCall(tool("createWedding"), {
+        userId: "permissions_stranger",
+        toolName: "createWedding",
+        meta: { [WEDDING_ID_META_KEY]: "wedding_missing" },
+      }),
+    );
+  });
+});
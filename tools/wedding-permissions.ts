@@ -0,0 +1,57 @@
+import type { ToolContext, ToolDefinition } from "../utils/define-tool";
+import { ForbiddenError } from "../utils/tool-errors";
+import { getWeddingContext } from "./wedding-context";
+import { getCollaboratorRole, type CollaboratorRole } from "./wedding-store";
+
+// Tools that choose or create the wedding they work on themselves.
+const UNSCOPED_TOOLS = new Set([
+  "createWedding",
+  "listWeddings",
+  "switchWedding",
+  "acceptCollaboratorInvite",
+  "importWeddingBackup",
+]);
+
+const OWNER_TOOLS = new Set(["inviteCollaborator", "changeCollaboratorRole", "removeCollaborator"]);
+
+const ROLE_RANK: Record<CollaboratorRole, number> = {
+  family_viewer: 0,
+  planner: 1,
+  owner: 2,
+};
+
+export const ROLE_LABELS: Record<CollaboratorRole, string> = {
+  owner: "Owner",
+  planner: "Planner",
+  family_viewer: "Family viewer",
+};
+
+// Read-only tools are open to every collaborator, managing collaborators is
+// for owners, and everything else needs at least planner access.
+function requiredRole(tool: ToolDefinition): CollaboratorRole | null {
+  if (UNSCOPED_TOOLS.has(tool.name)) {
+    return null;
+  }
+
+  if (OWNER_TOOLS.has(tool.name)) {
+    return "owner";
+  }
+
+  return tool.annotations.readOnlyHint ? "family_viewer" : "planner";
+}
+
+export function authorizeWeddingToolCall(tool: ToolDefinition, context: ToolContext) {
+  const required = requiredRole(tool);
+
+  if (!required) {
+    return;
+  }
+
+  const role = getCollaboratorRole(getWeddingContext(context));
+
+  if (!role || ROLE_RANK[role] < ROLE_RANK[required]) {
+    throw new ForbiddenError(
+      `${tool.title} needs ${ROLE_LABELS[required].toLowerCase()} access to this wedding; you have ${role ? ROLE_LABELS[role].toLowerCase() : "no"} access. Ask a wedding owner to change your role.`,
+    );
+  }
+}
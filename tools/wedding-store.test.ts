@@ -0,0 +1,425 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { addToDate, todayInTimeZone } from "../utils/calendar-date";
+import {
+  ConflictError,
+  DuplicateError,
+  InvalidInputError,
+  NotFoundError,
+} from "../utils/tool-errors";
+import { CHECKLIST_TEMPLATES } from "./checklist-templates";
+import {
+  addEvent,
+  addGuest,
+  addSeatingConstraint,
+  addTable,
+  addTask,
+  assignGuestToTable,
+  completeTask,
+  createWedding,
+  generatePlanFromTemplate,
+  getChangeHistory,
+  getEntityRevisions,
+  getEvents,
+  getPendingTasks,
+  getSeatingChart,
+  getWeddingDashboardData,
+  mergeGuests,
+  removeGuest,
+  reopenTask,
+  revertChange,
+  setEventDetails,
+  undoLastChange,
+  updateGuest,
+  updateGuestStatus,
+  updateTask,
+  type WeddingContext,
+} from "./wedding-store";
+
+// The store keeps its data in memory until configureWeddingStorage is called,
+// so every test gets a fresh wedding of its own.
+let nextUser = 1;
+
+function createTestWedding(): WeddingContext {
+  const userId = `user_${nextUser}`;
+  nextUser += 1;
+  const wedding = createWedding(userId, { name: "Ann & Bo" });
+  return { userId, weddingId: wedding.id, toolName: "test" };
+}
+
+function guestNames(ctx: WeddingContext): string[] {
+  return getWeddingDashboardData(ctx).guests.map((guest) => guest.name);
+}
+
+describe("change history", () => {
+  it("records each change, newest first, with who made it", () => {
+    const ctx = createTestWedding();
+    const { guest } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    updateGuest({ ...ctx, toolName: "updateGuest" }, guest.id, { rsvp_status: "Yes" });
+
+    const [latest, first] = getChangeHistory(ctx);
+
+    assert.equal(latest.tool, "updateGuest");
+    assert.equal(latest.user_id, ctx.userId);
+    assert.equal(latest.changes[0].field, "guests");
+    assert.equal(latest.changes[0].before?.rsvp_status, "Pending");
+    assert.equal(latest.changes[0].after?.rsvp_status, "Yes");
+    assert.equal(first.changes[0].before, null);
+  });
+
+  it("does not record calls that change nothing", () => {
+    const ctx = createTestWedding();
+    const { guest } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    updateGuest(ctx, guest.id, { name: "Ann" });
+
+    assert.equal(getChangeHistory(ctx).length, 1);
+  });
+});
+
+describe("revertChange", () => {
+  it("puts a removed guest back in place, seat included", () => {
+    const ctx = createTestWedding();
+    addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    const { guest } = addGuest(ctx, { name: "Bo", contact: "bo@example.com" });
+    addGuest(ctx, { name: "Cy", contact: "cy@example.com" });
+    const table = addTable(ctx, { name: "Family", shape: "Round", capacity: 8 });
+    assignGuestToTable(ctx, guest.id, table.id);
+    removeGuest(ctx, guest.id);
+
+    const [removal] = getChangeHistory(ctx);
+    const revert = revertChange(ctx, removal.id);
+
+    assert.equal(revert.reverts, removal.id);
+    assert.deepEqual(guestNames(ctx), ["Ann", "Bo", "Cy"]);
+    assert.deepEqual(getSeatingChart(ctx).tables[0].guest_ids, [guest.id]);
+    assert.equal(getChangeHistory(ctx)[1].reverted_by, revert.id);
+  });
+
+  it("drops references to a guest whose creation is reverted", () => {
+    const ctx = createTestWedding();
+    const { guest } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    const creation = getChangeHistory(ctx)[0];
+    const table = addTable(ctx, { name: "Family", shape: "Round", capacity: 8 });
+    assignGuestToTable(ctx, guest.id, table.id);
+
+    revertChange(ctx, creation.id);
+
+    assert.deepEqual(guestNames(ctx), []);
+    assert.deepEqual(getSeatingChart(ctx).tables[0].guest_ids, []);
+  });
+
+  it("refuses to discard later edits to the same entity", () => {
+    const ctx = createTestWedding();
+    const { guest } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    const creation = getChangeHistory(ctx)[0];
+    updateGuest(ctx, guest.id, { rsvp_status: "Yes" });
+
+    assert.throws(() => revertChange(ctx, creation.id), /modified by a later change/);
+    assert.deepEqual(guestNames(ctx), ["Ann"]);
+  });
+
+  it("refuses unknown, already reverted and revert changes", () => {
+    const ctx = createTestWedding();
+    addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    const [creation] = getChangeHistory(ctx);
+    const revert = revertChange(ctx, creation.id);
+
+    assert.throws(() => revertChange(ctx, "change_999"), NotFoundError);
+    assert.throws(() => revertChange(ctx, creation.id), /already reverted/);
+    assert.throws(() => revertChange(ctx, revert.id), /itself a revert/);
+  });
+});
+
+describe("undoLastChange", () => {
+  it("reverts the latest change not yet undone, then the one before", () => {
+    const ctx = createTestWedding();
+    addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    addGuest(ctx, { name: "Bo", contact: "bo@example.com" });
+
+    undoLastChange(ctx);
+    assert.deepEqual(guestNames(ctx), ["Ann"]);
+
+    undoLastChange(ctx);
+    assert.deepEqual(guestNames(ctx), []);
+
+    assert.throws(() => undoLastChange(ctx), ConflictError);
+  });
+});
+
+describe("task lifecycle", () => {
+  it("stamps completion and clears it on reopen", () => {
+    const ctx = createTestWedding();
+    const task = addTask(ctx, { title: "Book florist", due_date: "2030-05-01" });
+
+    const done = completeTask(ctx, task.id);
+    assert.equal(done.status, "Done");
+    assert.ok(done.completed_at);
+
+    const reopened = reopenTask(ctx, task.id);
+    assert.equal(reopened.status, "Pending");
+    assert.equal(reopened.completed_at, null);
+  });
+
+  it("refuses to complete a cancelled task and drops it from the pending list", () => {
+    const ctx = createTestWedding();
+    const task = addTask(ctx, { title: "Book florist", due_date: "2030-05-01" });
+    updateTask(ctx, task.id, { status: "Cancelled" });
+
+    assert.throws(() => completeTask(ctx, task.id), ConflictError);
+    assert.deepEqual(getPendingTasks(ctx).tasks, []);
+  });
+
+  it("unschedules a task when its due date is set to null", () => {
+    const ctx = createTestWedding();
+    const task = addTask(ctx, { title: "Book florist", due_date: "6 weeks before the wedding" });
+
+    const cleared = updateTask(ctx, task.id, { due_date: null });
+    assert.equal(cleared.due_date, "");
+    assert.equal(cleared.due_offset, null);
+
+    const [pending] = getPendingTasks(ctx).tasks;
+    assert.equal(pending.due_status, "unscheduled");
+    assert.equal(pending.days_until_due, null);
+  });
+
+  it("leaves the due date alone when it is not part of the update", () => {
+    const ctx = createTestWedding();
+    const task = addTask(ctx, { title: "Book florist", due_date: "2030-05-01" });
+
+    assert.equal(updateTask(ctx, task.id, { title: "Book the florist" }).due_date, "2030-05-01");
+  });
+});
+
+describe("guest duplicates", () => {
+  it("stores contacts in canonical form and refuses the same one twice", () => {
+    const ctx = createTestWedding();
+    const { guest } = addGuest(ctx, { name: "Jon Smith", contact: "(512) 555-0100" });
+
+    assert.equal(guest.contact, "+15125550100");
+    assert.equal(guest.contact_type, "phone");
+    assert.throws(
+      () => addGuest(ctx, { name: "Jonny", contact: "+1 512 555 0100" }),
+      DuplicateError,
+    );
+    assert.throws(
+      () => addGuest(ctx, { name: "Dee", contact: "not a contact" }),
+      InvalidInputError,
+    );
+  });
+
+  it("adds look-alike names but points them out", () => {
+    const ctx = createTestWedding();
+    const { guest: jon } = addGuest(ctx, { name: "Jon Smith", contact: "jon@example.com" });
+    const { possibleDuplicates } = addGuest(ctx, {
+      name: "John Smith",
+      contact: "john@example.com",
+    });
+
+    assert.deepEqual(possibleDuplicates, [
+      { guest_id: jon.id, name: "Jon Smith", contact: "jon@example.com" },
+    ]);
+    assert.deepEqual(guestNames(ctx), ["Jon Smith", "John Smith"]);
+  });
+});
+
+describe("mergeGuests", () => {
+  it("keeps the answered RSVP and moves seats, invitations and constraints", () => {
+    const ctx = createTestWedding();
+    const { guest: keep } = addGuest(ctx, {
+      name: "Jon Smith",
+      contact: "jon@example.com",
+      tags: ["college"],
+    });
+    const { guest: duplicate } = addGuest(ctx, {
+      name: "John Smith",
+      contact: "+15125550100",
+      tags: ["work"],
+    });
+    const { guest: ann } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    updateGuestStatus(ctx, duplicate.id, "Yes");
+    updateGuestStatus(ctx, ann.id, "Yes");
+    const table = addTable(ctx, { name: "Family", shape: "Round", capacity: 8 });
+    assignGuestToTable(ctx, duplicate.id, table.id);
+    const event = addEvent(ctx, { name: "Rehearsal dinner", guest_ids: [duplicate.id] });
+    addSeatingConstraint(ctx, { type: "keep_together", guest_ids: [duplicate.id, ann.id] });
+
+    const result = mergeGuests(ctx, keep.id, duplicate.id);
+
+    assert.equal(result.rsvp_from, duplicate.id);
+    assert.equal(result.guest.rsvp_status, "Yes");
+    assert.equal(result.guest.contact, "jon@example.com");
+    assert.deepEqual(result.guest.tags, ["college", "work"]);
+    assert.deepEqual(guestNames(ctx), ["Jon Smith", "Ann"]);
+
+    const seating = getSeatingChart(ctx);
+    assert.deepEqual(seating.tables[0].guest_ids, [keep.id]);
+    assert.deepEqual(seating.constraints[0].guest_ids, [keep.id, ann.id]);
+    assert.deepEqual(getEvents(ctx).find((entry) => entry.id === event.id)?.guest_ids, [keep.id]);
+  });
+
+  it("can take the duplicate's contact and refuses to merge a guest into itself", () => {
+    const ctx = createTestWedding();
+    const { guest: keep } = addGuest(ctx, { name: "Ann Lee", contact: "ann@example.com" });
+    const { guest: duplicate } = addGuest(ctx, { name: "Ann Lee", contact: "+15125550100" });
+
+    const { guest } = mergeGuests(ctx, keep.id, duplicate.id, { useDuplicateContact: true });
+
+    assert.equal(guest.contact, "+15125550100");
+    assert.equal(guest.contact_type, "phone");
+    assert.throws(() => mergeGuests(ctx, keep.id, keep.id), /two different guests/);
+  });
+});
+
+describe("seating", () => {
+  it("refuses to seat a guest at a full table", () => {
+    const ctx = createTestWedding();
+    const { guest: ann } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    const { guest: bo } = addGuest(ctx, { name: "Bo", contact: "bo@example.com" });
+    const table = addTable(ctx, { name: "Sweetheart", shape: "Round", capacity: 1 });
+    assignGuestToTable(ctx, ann.id, table.id);
+
+    assert.throws(() => assignGuestToTable(ctx, bo.id, table.id), /only has 0 free seat/);
+  });
+
+  it("refuses a plus-one that no longer fits the guest's table", () => {
+    const ctx = createTestWedding();
+    const { guest } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    const table = addTable(ctx, { name: "Sweetheart", shape: "Round", capacity: 1 });
+    assignGuestToTable(ctx, guest.id, table.id);
+
+    assert.throws(
+      () => updateGuest(ctx, guest.id, { plus_one_allowed: true }),
+      /has 1 seat\(s\) but would need 2 with Ann's plus-one/,
+    );
+    assert.equal(getWeddingDashboardData(ctx).guests[0].plus_one_allowed, false);
+  });
+});
+
+describe("date-aware tasks", () => {
+  // Far enough out that no relative due date is moved up to today.
+  const weddingDate = addToDate(todayInTimeZone("UTC"), 24, "months");
+
+  it("schedules relative due dates once the wedding date is set", () => {
+    const ctx = createTestWedding();
+    const task = addTask(ctx, {
+      title: "Send invitations",
+      due_date: "6 weeks before the wedding",
+    });
+    assert.equal(task.due_date, "");
+
+    const { shiftedTasks } = setEventDetails(ctx, {
+      event_date: weddingDate,
+      location: "Lake Como",
+      budget: 30000,
+    });
+
+    assert.deepEqual(
+      shiftedTasks.map((shifted) => [shifted.id, shifted.due_date]),
+      [[task.id, addToDate(weddingDate, -6, "weeks")]],
+    );
+  });
+
+  it("moves relative tasks with the wedding and leaves fixed dates alone", () => {
+    const ctx = createTestWedding();
+    setEventDetails(ctx, { event_date: weddingDate, location: "Lake Como", budget: 30000 });
+    const relative = addTask(ctx, {
+      title: "Final fitting",
+      due_date: "2 weeks before the wedding",
+    });
+    const fixed = addTask(ctx, { title: "Renew passport", due_date: "2040-01-15" });
+
+    const movedDate = addToDate(weddingDate, 1, "months");
+    const { shiftedTasks } = setEventDetails(ctx, {
+      event_date: movedDate,
+      location: "Lake Como",
+      budget: 30000,
+    });
+
+    assert.deepEqual(
+      shiftedTasks.map((shifted) => shifted.id),
+      [relative.id],
+    );
+
+    const tasks = new Map(getPendingTasks(ctx).tasks.map((task) => [task.id, task]));
+    assert.equal(tasks.get(relative.id)?.due_date, addToDate(movedDate, -2, "weeks"));
+    assert.equal(tasks.get(fixed.id)?.due_date, "2040-01-15");
+  });
+
+  it("counts down to the wedding and flags overdue tasks", () => {
+    const ctx = createTestWedding();
+    setEventDetails(ctx, { event_date: weddingDate, location: "Lake Como", budget: 30000 });
+    addTask(ctx, { title: "Book venue", due_date: "2020-01-01" });
+
+    const { tasks, countdown } = getPendingTasks(ctx);
+
+    assert.equal(countdown.event_date, weddingDate);
+    assert.ok((countdown.days_until_wedding ?? 0) > 700);
+    assert.equal(tasks[0].due_status, "overdue");
+    assert.ok((tasks[0].days_until_due ?? 0) < 0);
+  });
+
+  it("refuses wedding dates it cannot read", () => {
+    const ctx = createTestWedding();
+
+    assert.throws(
+      () => setEventDetails(ctx, { event_date: "someday", location: "", budget: 0 }),
+      /Could not understand the wedding date/,
+    );
+  });
+});
+
+describe("generatePlanFromTemplate", () => {
+  const today = todayInTimeZone("UTC");
+  const template = CHECKLIST_TEMPLATES.classic_12_month;
+
+  it("starts new weddings with an empty checklist", () => {
+    assert.deepEqual(getPendingTasks(createTestWedding()).tasks, []);
+  });
+
+  it("adds the template's tasks and keeps those the couple already has", () => {
+    const ctx = createTestWedding();
+    const dated = addTask(ctx, { title: "Find venue", due_date: "2040-01-15" });
+    const undated = addTask(ctx, { title: "book FLORIST", due_date: "in 2 weeks" });
+    updateTask(ctx, undated.id, { due_date: null });
+
+    const report = generatePlanFromTemplate(ctx, "classic_12_month");
+
+    assert.equal(report.added.length, template.tasks.length - 2);
+    assert.deepEqual(report.skipped, [{ title: "Find venue", existing_task_id: dated.id }]);
+    assert.deepEqual(
+      report.scheduled.map((task) => [task.id, task.due_offset]),
+      [[undated.id, { amount: -7, unit: "months" }]],
+    );
+    assert.equal(getPendingTasks(ctx).tasks.length, template.tasks.length);
+  });
+
+  it("dates tasks from the wedding day, never before planning started", () => {
+    const ctx = createTestWedding();
+    const weddingDate = addToDate(today, 6, "months");
+    setEventDetails(ctx, { event_date: weddingDate, location: "Lake Como", budget: 30000 });
+
+    const report = generatePlanFromTemplate(ctx, "classic_12_month");
+    const dueDates = new Map(report.added.map((task) => [task.title, task.due_date]));
+
+    assert.equal(dueDates.get("Set the overall budget"), today);
+    assert.equal(dueDates.get("Send invitations"), addToDate(weddingDate, -8, "weeks"));
+    assert.equal(dueDates.get("Send thank-you notes"), addToDate(weddingDate, 8, "weeks"));
+    assert.ok(report.added.every((task) => task.due_date >= today));
+  });
+});
+
+describe("getEntityRevisions", () => {
+  it("numbers an entity by the last change that touched it", () => {
+    const ctx = createTestWedding();
+    const { guest: ann } = addGuest(ctx, { name: "Ann", contact: "ann@example.com" });
+    const { guest: bo } = addGuest(ctx, { name: "Bo", contact: "bo@example.com" });
+    updateGuest(ctx, ann.id, { rsvp_status: "Yes" });
+
+    const revisions = getEntityRevisions(ctx);
+    const [latest] = getChangeHistory(ctx);
+
+    assert.deepEqual(revisions("guests", ann.id), { sequence: 3, at: latest.at });
+    assert.equal(revisions("guests", bo.id).sequence, 2);
+    assert.equal(revisions("eventDetails", null).sequence, 0);
+  });
+});
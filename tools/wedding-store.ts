@@ -1,29 +1,298 @@
-export type RSVPStatus = "Pending" | "Yes" | "No" | "Maybe";
+import { randomUUID } from "node:crypto";
+import {
+  daysBetween,
+  isValidTimeZone,
+  parseCalendarDate,
+  todayInTimeZone,
+} from "../utils/calendar-date";
+import {
+  contactKey,
+  parseContact,
+  type ContactType,
+  type ParsedContact,
+} from "../utils/contact";
+import {
+  createMemoryStorage,
+  type DocumentStorage,
+} from "../utils/document-storage";
+import { namesLookAlike } from "../utils/name-similarity";
+import {
+  ConflictError,
+  DuplicateError,
+  InvalidInputError,
+  NotFoundError,
+} from "../utils/tool-errors";
+import {
+  CHECKLIST_TEMPLATES,
+  taskTitleKey,
+  type ChecklistTemplateId,
+  type ChecklistTemplateTask,
+} from "./checklist-templates";
+import {
+  findScheduleIssues,
+  resolveScheduleTiming,
+  sortScheduleItems,
+  type ScheduleIssue,
+} from "./schedule-timeline";
+import { planSeating, seatsForGuest } from "./seating-planner";
+import { WEDDING_BACKUP_FORMAT, type WeddingBackup } from "./wedding-backup";
+import {
+  asIsoDate,
+  classifyDueDate,
+  DEFAULT_TIME_ZONE,
+  dueDateFromOffset,
+  resolveDueDate,
+  weddingToday,
+  type DueClassification,
+  type DueOffset,
+} from "./wedding-dates";
+import {
+  EXPENSE_CATEGORIES,
+  type AgeGroup,
+  type CollaboratorRole,
+  type ContractStatus,
+  type ExpenseCategory,
+  type GuestSide,
+  type RSVPStatus,
+  type SeatingConstraintType,
+  type TableShape,
+  type TaskStatus,
+  type VendorCategory,
+  type VenueSearchProvider,
+} from "./wedding-enums";
+import {
+  diffTrackedState,
+  entityRevisions,
+  revertEntityChanges,
+  snapshotTrackedState,
+  summarizeChanges,
+  toActivityEntry,
+  type ActivityEntry,
+  type ChangeEntry,
+  type EntityRevisions,
+  type TrackedSnapshot,
+} from "./wedding-history";
+import { migrateWeddingState, WEDDING_SCHEMA_VERSION } from "./wedding-migrations";
 
+export {
+  AGE_GROUPS,
+  COLLABORATOR_ROLES,
+  CONTRACT_STATUSES,
+  DUE_STATUSES,
+  EXPENSE_CATEGORIES,
+  GUEST_SIDES,
+  RSVP_STATUSES,
+  SEATING_CONSTRAINT_TYPES,
+  TABLE_SHAPES,
+  TASK_STATUSES,
+  VENDOR_CATEGORIES,
+  VENUE_SEARCH_PROVIDERS,
+} from "./wedding-enums";
+export type {
+  AgeGroup,
+  CollaboratorRole,
+  ContractStatus,
+  DueStatus,
+  ExpenseCategory,
+  GuestSide,
+  RSVPStatus,
+  SeatingConstraintType,
+  TableShape,
+  TaskStatus,
+  VendorCategory,
+  VenueSearchProvider,
+} from "./wedding-enums";
+export type { ScheduleIssue } from "./schedule-timeline";
+export type { DueOffset } from "./wedding-dates";
+export type { ActivityEntry, ChangeEntry, EntityRevisions } from "./wedding-history";
+
+// `event_date` is "YYYY-MM-DD"; `time_zone` is the IANA zone the wedding
+// happens in and decides what "today" means for countdowns and due dates.
 export type EventDetails = {
   event_date: string;
   location: string;
   budget: number;
+  time_zone: string;
+};
+
+export type EventDetailsInput = Omit<EventDetails, "time_zone"> & {
+  time_zone?: string;
+};
+
+// A gathering around the wedding day itself, like a rehearsal dinner or a
+// farewell brunch. `date` is "YYYY-MM-DD" or empty, times are 24-hour "HH:MM",
+// and `guest_ids` is null when the whole guest list is invited.
+export type WeddingEvent = {
+  id: string;
+  name: string;
+  date: string;
+  start_time: string | null;
+  end_time: string | null;
+  venue: string | null;
+  guest_ids: string[] | null;
+};
+
+export type WeddingEventInput = {
+  name: string;
+  date?: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  venue?: string | null;
+  guest_ids?: string[] | null;
+};
+
+export type WeddingEventSummary = WeddingEvent & {
+  invited_guest_ids: string[];
+  rsvp_counts: Record<RSVPStatus, number>;
+};
+
+export type WeddingCountdown = {
+  today: string;
+  time_zone: string;
+  event_date: string | null;
+  days_until_wedding: number | null;
+};
+
+export type Household = {
+  id: string;
+  name: string;
 };
 
+// `contact` is a lowercased email address or an E.164 phone number.
 export type Guest = {
   id: string;
   name: string;
   contact: string;
+  contact_type: ContactType;
   rsvp_status: RSVPStatus;
+  household_id: string | null;
+  side: GuestSide;
+  plus_one_allowed: boolean;
+  plus_one_name: string | null;
+  tags: string[];
+  meal_choice: string | null;
+  dietary_restrictions: string[];
+  age_group: AgeGroup;
+  accessibility_notes: string | null;
+  // Set when the guest answers through their RSVP page.
+  rsvp_note: string | null;
+  // When `rsvp_status` was last answered, from the RSVP page or a tool.
+  rsvp_responded_at: string | null;
+  // Answers for the other events by event id; `rsvp_status` is the answer
+  // for the wedding itself. A missing entry means Pending.
+  event_rsvps: Record<string, RSVPStatus>;
+};
+
+// Optional guest attributes accepted by addGuest/updateGuest. `household` is a
+// household name; guests sharing a name share one invitation.
+export type GuestDetailsInput = {
+  household?: string | null;
+  side?: GuestSide;
+  plus_one_allowed?: boolean;
+  plus_one_name?: string | null;
+  tags?: string[];
+  meal_choice?: string | null;
+  dietary_restrictions?: string[];
+  age_group?: AgeGroup;
+  accessibility_notes?: string | null;
+};
+
+export type RsvpResponseInput = {
+  rsvp_status: Exclude<RSVPStatus, "Pending">;
+  event_rsvps?: Record<string, Exclude<RSVPStatus, "Pending">>;
+  meal_choice?: string | null;
+  plus_one_name?: string | null;
+  note?: string | null;
+};
+
+// What a guest's RSVP page shows, including the other events they are
+// invited to.
+export type GuestRsvpDetails = {
+  wedding_name: string;
+  event_date: string | null;
+  location: string | null;
+  guest: Guest;
+  events: Array<
+    Pick<WeddingEvent, "id" | "name" | "date" | "start_time" | "venue"> & {
+      rsvp_status: RSVPStatus;
+    }
+  >;
+  meal_options: string[];
+};
+
+// `row` is the guest's position in the imported file, for reporting.
+export type GuestImportRow = { row: number; name: string; contact: string } & GuestDetailsInput;
+
+// An existing guest whose name looks like the one being added.
+export type PossibleDuplicate = {
+  guest_id: string;
+  name: string;
+  contact: string;
+};
+
+export type GuestImportReport = {
+  created: Array<{ row: number; guest_id: string; name: string }>;
+  skipped: Array<{ row: number; name: string; contact: string; existing_guest_id: string }>;
+  invalid: Array<{ row: number; reason: string }>;
+  // Created guests whose names look like another guest's.
+  possible_duplicates: Array<{
+    row: number;
+    guest_id: string;
+    name: string;
+    matches: PossibleDuplicate[];
+  }>;
+};
+
+// Which record a merge takes each answer from, for reporting.
+export type GuestMergeResult = {
+  guest: Guest;
+  removed_guest: Guest;
+  rsvp_from: string;
 };
 
+// `due_date` is "YYYY-MM-DD" or empty. Tasks due relative to the wedding keep
+// their `due_offset` so the due date follows the wedding date.
 export type Task = {
   id: string;
   title: string;
   due_date: string;
-  status: "Pending";
+  due_offset: DueOffset | null;
+  status: TaskStatus;
+  completed_at: string | null;
+};
+
+export type PendingTask = Task & DueClassification;
+
+// Existing tasks with the same title are kept; `scheduled` lists those that
+// had no due date and took the template's.
+export type PlanFromTemplateReport = {
+  template: { id: ChecklistTemplateId; name: string };
+  added: Task[];
+  scheduled: Task[];
+  skipped: Array<{ title: string; existing_task_id: string }>;
 };
 
+// `time` and `end_time` are 24-hour "HH:MM" clock times on the day of the
+// item's event; `event_id` is null for the wedding day itself.
 export type ScheduleItem = {
   id: string;
+  event_id: string | null;
+  time: string;
+  end_time: string | null;
+  duration_minutes: number | null;
+  description: string;
+  location: string | null;
+  owner: string | null;
+};
+
+export type ScheduleItemInput = {
+  event_id?: string | null;
   time: string;
+  end_time?: string | null;
+  duration_minutes?: number | null;
   description: string;
+  location?: string | null;
+  owner?: string | null;
 };
 
 export type InvitationDraft = {
@@ -32,70 +301,377 @@ export type InvitationDraft = {
   image_url: string | null;
 };
 
-type WeddingState = {
+export type Expense = {
+  id: string;
+  description: string;
+  category: ExpenseCategory;
+  vendor: string | null;
+  amount: number;
+  paid: boolean;
+  due_date: string;
+};
+
+export type BudgetAllocation = {
+  category: ExpenseCategory;
+  amount: number;
+};
+
+export type BudgetCategorySummary = {
+  category: ExpenseCategory;
+  allocated: number;
+  spent: number;
+  paid: number;
+  remaining: number;
+  over_budget: boolean;
+};
+
+// `spent` counts every recorded expense (paid or not) because unpaid line
+// items are already committed money.
+export type BudgetSummary = {
+  total_budget: number;
+  allocated: number;
+  unallocated: number;
+  spent: number;
+  paid: number;
+  unpaid: number;
+  remaining: number;
+  over_budget: boolean;
+  categories: BudgetCategorySummary[];
+  warnings: string[];
+};
+
+// Where a vendor record was promoted from, so the same search result is not
+// saved twice.
+export type VendorSource = {
+  provider: VenueSearchProvider;
+  url: string;
+};
+
+export type Vendor = {
+  id: string;
+  name: string;
+  category: VendorCategory;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  quote: number | null;
+  contract_status: ContractStatus;
+  deposit_amount: number | null;
+  deposit_due_date: string;
+  balance_due_date: string;
+  notes: string;
+  source: VendorSource | null;
+};
+
+export type VendorDetailsInput = {
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  quote?: number | null;
+  contract_status?: ContractStatus;
+  deposit_amount?: number | null;
+  deposit_due_date?: string;
+  balance_due_date?: string;
+  notes?: string;
+};
+
+export type SeatingTable = {
+  id: string;
+  name: string;
+  shape: TableShape;
+  capacity: number;
+};
+
+export type SeatAssignment = {
+  guest_id: string;
+  table_id: string;
+};
+
+export type SeatingConstraint = {
+  id: string;
+  type: SeatingConstraintType;
+  guest_ids: string[];
+};
+
+export type SeatingChartTable = SeatingTable & {
+  guest_ids: string[];
+  seats_used: number;
+};
+
+export type SeatingChart = {
+  tables: SeatingChartTable[];
+  constraints: SeatingConstraint[];
+  // Confirmed guests without a table.
+  unassigned_guest_ids: string[];
+};
+
+export type AutoSeatReport = {
+  seated_guest_ids: string[];
+  unseated_guest_ids: string[];
+  issues: string[];
+};
+
+export type WeddingSummary = {
+  id: string;
+  name: string;
+  owner_id: string;
+  created_at: string;
+};
+
+// Owners manage who has access, planners can change the plan, and family
+// viewers can only look at it.
+export type Collaborator = {
+  user_id: string;
+  name: string | null;
+  role: CollaboratorRole;
+  joined_at: string;
+};
+
+// Open until someone redeems its invite code, or it expires.
+export type CollaboratorInvitation = {
+  id: string;
+  name: string;
+  role: CollaboratorRole;
+  invited_by: string;
+  created_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+};
+
+// `toolName` is recorded in the change history for mutations made through it.
+export type WeddingContext = {
+  userId: string;
+  weddingId: string;
+  toolName?: string;
+};
+
+// Collaborators and invitations are deliberately left out of the change
+// history, so undo can never grant or take away access.
+export type WeddingState = {
+  // See wedding-migrations.ts.
+  schema_version: number;
+  wedding: WeddingSummary;
+  collaborators: Collaborator[];
+  invitations: CollaboratorInvitation[];
   eventDetails: EventDetails | null;
+  events: WeddingEvent[];
   guests: Guest[];
+  households: Household[];
   tasks: Task[];
   schedule: ScheduleItem[];
   latestInvitation: InvitationDraft | null;
+  expenses: Expense[];
+  budgetAllocations: BudgetAllocation[];
+  vendors: Vendor[];
+  tables: SeatingTable[];
+  seatAssignments: SeatAssignment[];
+  seatingConstraints: SeatingConstraint[];
+  // Meals guests can pick on their RSVP page; empty means free text.
+  mealOptions: string[];
+  history: ChangeEntry[];
   nextGuestId: number;
+  nextHouseholdId: number;
   nextTaskId: number;
+  nextEventId: number;
   nextScheduleId: number;
+  nextExpenseId: number;
+  nextVendorId: number;
+  nextTableId: number;
+  nextConstraintId: number;
+  nextInvitationId: number;
+  nextChangeId: number;
+};
+
+type UserWeddings = {
+  activeWeddingId: string | null;
+  weddingIds: string[];
 };
 
 export type WeddingDashboardData = {
+  wedding: WeddingSummary;
+  collaborators: Collaborator[];
+  // Role of the user the data was loaded for.
+  currentUserRole: CollaboratorRole | null;
   eventDetails: EventDetails | null;
+  events: WeddingEventSummary[];
   guests: Guest[];
+  households: Household[];
   tasks: Task[];
-  pendingTasks: Task[];
+  pendingTasks: PendingTask[];
+  countdown: WeddingCountdown;
   schedule: ScheduleItem[];
+  scheduleIssues: ScheduleIssue[];
   latestInvitation: InvitationDraft | null;
+  expenses: Expense[];
+  budget: BudgetSummary;
+  vendors: Vendor[];
+  seating: SeatingChart;
+  activity: ActivityEntry[];
 };
 
-const INITIAL_PENDING_TASKS: Task[] = [
-  {
-    id: "task_1",
-    title: "create guestlist",
-    due_date: "",
-    status: "Pending",
-  },
-  {
-    id: "task_2",
-    title: "find venue",
-    due_date: "",
-    status: "Pending",
-  },
-  {
-    id: "task_3",
-    title: "create schedule",
-    due_date: "",
-    status: "Pending",
-  },
-  {
-    id: "task_4",
-    title: "make invitations",
-    due_date: "",
+function createTemplateTask(
+  id: string,
+  templateTask: ChecklistTemplateTask,
+  eventDate: string | null,
+  planningStart: string,
+): Task {
+  return {
+    id,
+    title: templateTask.title,
+    due_date: dueDateFromOffset(templateTask.due_offset, eventDate, planningStart),
+    due_offset: { ...templateTask.due_offset },
     status: "Pending",
-  },
-];
+    completed_at: null,
+  };
+}
 
-const state: WeddingState = {
-  eventDetails: null,
-  guests: [],
-  tasks: INITIAL_PENDING_TASKS.map((task) => ({ ...task })),
-  schedule: [],
-  latestInvitation: null,
-  nextGuestId: 1,
-  nextTaskId: INITIAL_PENDING_TASKS.length + 1,
-  nextScheduleId: 1,
-};
+const DEFAULT_WEDDING_NAME = "Our wedding";
+
+// Invite codes can be redeemed for two weeks.
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Oldest change entries are dropped past this point to keep documents small.
+const HISTORY_LIMIT = 200;
+const DASHBOARD_ACTIVITY_LIMIT = 15;
+
+// Defaults to in-memory storage so tests and scripts never touch disk; the
+// server entrypoint swaps in the configured durable backend at startup.
+let storage: DocumentStorage = createMemoryStorage();
+
+export function configureWeddingStorage(nextStorage: DocumentStorage) {
+  storage = nextStorage;
+}
+
+function userKey(userId: string): string {
+  return `users/${userId}`;
+}
+
+function weddingKey(weddingId: string): string {
+  return `weddings/${weddingId}`;
+}
+
+// New weddings start with an empty checklist; generatePlanFromTemplate fills
+// it in once the couple asks for a plan.
+function createInitialState(ownerId: string, name: string): WeddingState {
+  const createdAt = new Date().toISOString();
+
+  return {
+    schema_version: WEDDING_SCHEMA_VERSION,
+    wedding: {
+      id: `wedding_${randomUUID()}`,
+      name,
+      owner_id: ownerId,
+      created_at: createdAt,
+    },
+    collaborators: [{ user_id: ownerId, name: null, role: "owner", joined_at: createdAt }],
+    invitations: [],
+    eventDetails: null,
+    events: [],
+    guests: [],
+    households: [],
+    tasks: [],
+    schedule: [],
+    latestInvitation: null,
+    expenses: [],
+    budgetAllocations: [],
+    vendors: [],
+    tables: [],
+    seatAssignments: [],
+    seatingConstraints: [],
+    mealOptions: [],
+    history: [],
+    nextGuestId: 1,
+    nextHouseholdId: 1,
+    nextTaskId: 1,
+    nextEventId: 1,
+    nextScheduleId: 1,
+    nextExpenseId: 1,
+    nextVendorId: 1,
+    nextTableId: 1,
+    nextConstraintId: 1,
+    nextInvitationId: 1,
+    nextChangeId: 1,
+  };
+}
+
+function readUserWeddings(userId: string): UserWeddings {
+  return (
+    storage.read<UserWeddings>(userKey(userId)) ?? {
+      activeWeddingId: null,
+      weddingIds: [],
+    }
+  );
+}
+
+function readState(ctx: WeddingContext): WeddingState {
+  const state = storage.read<unknown>(weddingKey(ctx.weddingId));
+
+  if (!state) {
+    throw new NotFoundError(`Wedding with id "${ctx.weddingId}" was not found.`);
+  }
+
+  return migrateWeddingState(state);
+}
+
+function recordChange(
+  ctx: WeddingContext,
+  state: WeddingState,
+  before: TrackedSnapshot,
+  reverts: ChangeEntry | null = null,
+): ChangeEntry | null {
+  const changes = diffTrackedState(before, state);
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const entry: ChangeEntry = {
+    id: `change_${state.nextChangeId}`,
+    at: new Date().toISOString(),
+    user_id: ctx.userId,
+    tool: ctx.toolName ?? null,
+    summary: reverts
+      ? `Reverted: ${reverts.summary}`
+      : summarizeChanges(changes),
+    changes,
+    reverts: reverts?.id ?? null,
+    reverted_by: null,
+  };
+
+  if (reverts) {
+    reverts.reverted_by = entry.id;
+  }
+
+  state.nextChangeId += 1;
+  state.history.push(entry);
+  state.history.splice(0, Math.max(0, state.history.length - HISTORY_LIMIT));
+
+  return entry;
+}
+
+// Every mutation goes through here, so every mutation lands in the history.
+function updateState<T>(
+  ctx: WeddingContext,
+  mutate: (state: WeddingState) => T,
+): T {
+  const state = readState(ctx);
+  const before = snapshotTrackedState(state);
+  const result = mutate(state);
+  recordChange(ctx, state, before);
+  storage.write(weddingKey(ctx.weddingId), state);
+  return result;
+}
 
 function cloneTask(task: Task): Task {
   return {
     id: task.id,
     title: task.title,
     due_date: task.due_date,
+    due_offset: task.due_offset ? { ...task.due_offset } : null,
     status: task.status,
+    completed_at: task.completed_at ?? null,
   };
 }
 
@@ -104,15 +680,40 @@ function cloneGuest(guest: Guest): Guest {
     id: guest.id,
     name: guest.name,
     contact: guest.contact,
+    contact_type: guest.contact_type,
     rsvp_status: guest.rsvp_status,
+    household_id: guest.household_id ?? null,
+    side: guest.side ?? "Mutual",
+    plus_one_allowed: guest.plus_one_allowed ?? false,
+    plus_one_name: guest.plus_one_name ?? null,
+    tags: [...(guest.tags ?? [])],
+    meal_choice: guest.meal_choice ?? null,
+    dietary_restrictions: [...(guest.dietary_restrictions ?? [])],
+    age_group: guest.age_group ?? "Adult",
+    accessibility_notes: guest.accessibility_notes ?? null,
+    rsvp_note: guest.rsvp_note ?? null,
+    rsvp_responded_at: guest.rsvp_responded_at ?? null,
+    event_rsvps: { ...(guest.event_rsvps ?? {}) },
+  };
+}
+
+function cloneHousehold(household: Household): Household {
+  return {
+    id: household.id,
+    name: household.name,
   };
 }
 
 function cloneScheduleItem(item: ScheduleItem): ScheduleItem {
   return {
     id: item.id,
+    event_id: item.event_id,
     time: item.time,
+    end_time: item.end_time,
+    duration_minutes: item.duration_minutes,
     description: item.description,
+    location: item.location,
+    owner: item.owner,
   };
 }
 
@@ -121,6 +722,72 @@ function cloneEventDetails(details: EventDetails): EventDetails {
     event_date: details.event_date,
     location: details.location,
     budget: details.budget,
+    time_zone: details.time_zone,
+  };
+}
+
+function cloneWeddingEvent(event: WeddingEvent): WeddingEvent {
+  return {
+    id: event.id,
+    name: event.name,
+    date: event.date,
+    start_time: event.start_time,
+    end_time: event.end_time,
+    venue: event.venue,
+    guest_ids: event.guest_ids ? [...event.guest_ids] : null,
+  };
+}
+
+function cloneCollaborator(collaborator: Collaborator): Collaborator {
+  return {
+    user_id: collaborator.user_id,
+    name: collaborator.name,
+    role: collaborator.role,
+    joined_at: collaborator.joined_at,
+  };
+}
+
+function cloneCollaboratorInvitation(invitation: CollaboratorInvitation): CollaboratorInvitation {
+  return { ...invitation };
+}
+
+function cloneWeddingSummary(wedding: WeddingSummary): WeddingSummary {
+  return {
+    id: wedding.id,
+    name: wedding.name,
+    owner_id: wedding.owner_id,
+    created_at: wedding.created_at,
+  };
+}
+
+function cloneExpense(expense: Expense): Expense {
+  return {
+    id: expense.id,
+    description: expense.description,
+    category: expense.category,
+    vendor: expense.vendor,
+    amount: expense.amount,
+    paid: expense.paid,
+    due_date: expense.due_date,
+  };
+}
+
+function cloneVendor(vendor: Vendor): Vendor {
+  return {
+    id: vendor.id,
+    name: vendor.name,
+    category: vendor.category,
+    contact_name: vendor.contact_name,
+    email: vendor.email,
+    phone: vendor.phone,
+    website: vendor.website,
+    quote: vendor.quote,
+    contract_status: vendor.contract_status,
+    deposit_amount: vendor.deposit_amount,
+    deposit_due_date: vendor.deposit_due_date,
+    balance_due_date: vendor.balance_due_date,
+    notes: vendor.notes,
+    source: vendor.source ? { ...vendor.source } : null,
   };
 }
 
@@ -132,112 +799,2242 @@ function cloneInvitation(draft: InvitationDraft): InvitationDraft {
   };
 }
 
-export function setEventDetails(input: EventDetails): EventDetails {
-  state.eventDetails = cloneEventDetails(input);
-  return cloneEventDetails(state.eventDetails);
+export function createWedding(
+  userId: string,
+  input: { name: string },
+): WeddingSummary {
+  const state = createInitialState(userId, input.name);
+  storage.write(weddingKey(state.wedding.id), state);
+
+  const user = readUserWeddings(userId);
+  user.weddingIds.push(state.wedding.id);
+  user.activeWeddingId = state.wedding.id;
+  storage.write(userKey(userId), user);
+
+  return cloneWeddingSummary(state.wedding);
+}
+
+// Collections every restored wedding must have once migrated.
+const RESTORED_COLLECTIONS = [
+  "events",
+  "guests",
+  "households",
+  "tasks",
+  "schedule",
+  "expenses",
+  "budgetAllocations",
+  "vendors",
+  "tables",
+  "seatAssignments",
+  "seatingConstraints",
+  "mealOptions",
+] as const satisfies ReadonlyArray<keyof WeddingState>;
+
+const RESTORED_COUNTERS = [
+  "nextGuestId",
+  "nextHouseholdId",
+  "nextTaskId",
+  "nextEventId",
+  "nextScheduleId",
+  "nextExpenseId",
+  "nextVendorId",
+  "nextTableId",
+  "nextConstraintId",
+] as const satisfies ReadonlyArray<keyof WeddingState>;
+
+export function exportWeddingBackup(ctx: WeddingContext): WeddingBackup {
+  const {
+    schema_version: schemaVersion,
+    collaborators: _collaborators,
+    invitations: _invitations,
+    nextInvitationId: _nextInvitationId,
+    history: _history,
+    nextChangeId: _nextChangeId,
+    ...data
+  } = readState(ctx);
+
+  return {
+    format: WEDDING_BACKUP_FORMAT,
+    schema_version: schemaVersion,
+    exported_at: new Date().toISOString(),
+    data: structuredClone(data),
+  };
 }
 
-export function addGuest(input: { name: string; contact: string }): Guest {
-  const normalizedInputContact = input.contact.trim().toLowerCase();
-  const duplicate = state.guests.find(
-    (guest) => guest.contact.trim().toLowerCase() === normalizedInputContact,
-  );
+// Restores a backup as a new wedding owned by `userId` and makes it active;
+// ids inside the plan are kept, so the backup's guests, tasks and tables
+// keep referring to each other.
+export function restoreWeddingBackup(
+  userId: string,
+  backup: WeddingBackup,
+  options: { name?: string } = {},
+): WeddingSummary {
+  const state = migrateWeddingState({
+    ...structuredClone(backup.data),
+    schema_version: backup.schema_version,
+  });
 
-  if (duplicate) {
-    throw new Error(`Guest with contact "${input.contact}" already exists.`);
+  for (const key of RESTORED_COLLECTIONS) {
+    if (!Array.isArray(state[key])) {
+      throw new InvalidInputError(`The backup's ${key} is not a list.`);
+    }
+  }
+  for (const key of RESTORED_COUNTERS) {
+    if (!Number.isInteger(state[key]) || state[key] < 1) {
+      throw new InvalidInputError(`The backup's ${key} is not a valid id counter.`);
+    }
   }
 
-  const guest: Guest = {
-    id: `guest_${state.nextGuestId}`,
-    name: input.name,
-    contact: input.contact,
-    rsvp_status: "Pending",
+  const createdAt = new Date().toISOString();
+  state.wedding = {
+    id: `wedding_${randomUUID()}`,
+    name: options.name?.trim() || state.wedding.name || DEFAULT_WEDDING_NAME,
+    owner_id: userId,
+    created_at: createdAt,
   };
+  state.collaborators = [{ user_id: userId, name: null, role: "owner", joined_at: createdAt }];
+  state.invitations = [];
+  state.nextInvitationId = 1;
+  state.history = [];
+  state.nextChangeId = 1;
+  storage.write(weddingKey(state.wedding.id), state);
 
-  state.nextGuestId += 1;
-  state.guests.push(guest);
+  const user = readUserWeddings(userId);
+  user.weddingIds.push(state.wedding.id);
+  user.activeWeddingId = state.wedding.id;
+  storage.write(userKey(userId), user);
 
-  return cloneGuest(guest);
+  return cloneWeddingSummary(state.wedding);
 }
 
-export function updateGuestStatus(
-  guestId: string,
-  rsvpStatus: RSVPStatus,
-): Guest {
-  const guest = state.guests.find((entry) => entry.id === guestId);
+export function listWeddings(
+  userId: string,
+): Array<WeddingSummary & { active: boolean; role: CollaboratorRole }> {
+  const user = readUserWeddings(userId);
 
-  if (!guest) {
-    throw new Error(`Guest with id "${guestId}" was not found.`);
+  return user.weddingIds.flatMap((weddingId) => {
+    const document = storage.read<unknown>(weddingKey(weddingId));
+    if (!document) {
+      return [];
+    }
+
+    const state = migrateWeddingState(document);
+    return [
+      {
+        ...cloneWeddingSummary(state.wedding),
+        active: weddingId === user.activeWeddingId,
+        role:
+          state.collaborators.find((collaborator) => collaborator.user_id === userId)?.role ??
+          "owner",
+      },
+    ];
+  });
+}
+
+function assertWeddingAccess(user: UserWeddings, weddingId: string) {
+  if (!user.weddingIds.includes(weddingId)) {
+    throw new NotFoundError(`Wedding with id "${weddingId}" was not found.`);
   }
+}
+
+export function selectWedding(userId: string, weddingId: string): WeddingSummary {
+  const user = readUserWeddings(userId);
+  assertWeddingAccess(user, weddingId);
 
-  guest.rsvp_status = rsvpStatus;
-  return cloneGuest(guest);
+  user.activeWeddingId = weddingId;
+  storage.write(userKey(userId), user);
+
+  return cloneWeddingSummary(readState({ userId, weddingId }).wedding);
 }
 
-export function addTask(input: { title: string; due_date: string }): Task {
-  const task: Task = {
-    id: `task_${state.nextTaskId}`,
-    title: input.title,
-    due_date: input.due_date,
-    status: "Pending",
-  };
+// An explicit wedding id wins; otherwise the user's active wedding is used,
+// and a first wedding is created on demand so new users can start planning
+// without an extra setup step.
+export function resolveWeddingContext(tenant: {
+  userId: string;
+  weddingId?: string | null;
+  toolName?: string;
+}): WeddingContext {
+  const user = readUserWeddings(tenant.userId);
+
+  if (tenant.weddingId) {
+    assertWeddingAccess(user, tenant.weddingId);
+    return { ...tenant, weddingId: tenant.weddingId };
+  }
+
+  if (user.activeWeddingId) {
+    return { ...tenant, weddingId: user.activeWeddingId };
+  }
+
+  const wedding = createWedding(tenant.userId, { name: DEFAULT_WEDDING_NAME });
+  return { ...tenant, weddingId: wedding.id };
+}
+
+function findCollaborator(state: WeddingState, userId: string): Collaborator {
+  const collaborator = state.collaborators.find((entry) => entry.user_id === userId);
 
-  state.nextTaskId += 1;
-  state.tasks.push(task);
+  if (!collaborator) {
+    throw new NotFoundError(`Collaborator with user id "${userId}" was not found.`);
+  }
 
-  return cloneTask(task);
+  return collaborator;
 }
 
-export function getPendingTasks(): Task[] {
-  return state.tasks
-    .filter((task) => task.status === "Pending")
-    .map((task) => cloneTask(task));
+function assertOtherOwner(state: WeddingState, collaborator: Collaborator) {
+  const owners = state.collaborators.filter((entry) => entry.role === "owner");
+
+  if (collaborator.role === "owner" && owners.length === 1) {
+    throw new ConflictError("A wedding needs at least one owner. Make someone else an owner first.");
+  }
 }
 
-export function addScheduleItem(input: {
-  time: string;
-  description: string;
-}): ScheduleItem {
-  const item: ScheduleItem = {
-    id: `schedule_${state.nextScheduleId}`,
-    time: input.time,
-    description: input.description,
-  };
+function invitationExpiresAt(invitation: CollaboratorInvitation): Date {
+  return new Date(new Date(invitation.created_at).getTime() + INVITATION_TTL_MS);
+}
+
+function isInvitationOpen(invitation: CollaboratorInvitation, now: Date): boolean {
+  return invitation.accepted_by === null && invitationExpiresAt(invitation) > now;
+}
+
+export function getCollaboratorRole(ctx: WeddingContext): CollaboratorRole | null {
+  return (
+    readState(ctx).collaborators.find((collaborator) => collaborator.user_id === ctx.userId)
+      ?.role ?? null
+  );
+}
 
-  state.nextScheduleId += 1;
-  state.schedule.push(item);
+export function getCollaborators(ctx: WeddingContext): {
+  collaborators: Collaborator[];
+  invitations: CollaboratorInvitation[];
+} {
+  const state = readState(ctx);
+  const now = new Date();
 
-  return cloneScheduleItem(item);
+  return {
+    collaborators: state.collaborators.map((collaborator) => cloneCollaborator(collaborator)),
+    invitations: state.invitations
+      .filter((invitation) => isInvitationOpen(invitation, now))
+      .map((invitation) => cloneCollaboratorInvitation(invitation)),
+  };
 }
 
-export function getFullSchedule(): ScheduleItem[] {
-  return state.schedule.map((item) => cloneScheduleItem(item));
+export function inviteCollaborator(
+  ctx: WeddingContext,
+  input: { name: string; role: CollaboratorRole },
+): CollaboratorInvitation & { expires_at: string } {
+  return updateState(ctx, (state) => {
+    const invitation: CollaboratorInvitation = {
+      id: `invitation_${state.nextInvitationId}`,
+      name: input.name,
+      role: input.role,
+      invited_by: ctx.userId,
+      created_at: new Date().toISOString(),
+      accepted_by: null,
+      accepted_at: null,
+    };
+
+    state.nextInvitationId += 1;
+    state.invitations.push(invitation);
+
+    return {
+      ...cloneCollaboratorInvitation(invitation),
+      expires_at: invitationExpiresAt(invitation).toISOString(),
+    };
+  });
 }
 
-export function setLatestInvitation(
-  theme: string,
-  text: string,
-  imageUrl: string | null = null,
-): InvitationDraft {
-  state.latestInvitation = {
-    theme,
-    text,
-    image_url: imageUrl,
+// Adds the user to the wedding with the invitation's role and makes it their
+// active wedding. Each invitation can be redeemed once.
+export function acceptCollaboratorInvitation(
+  userId: string,
+  weddingId: string,
+  invitationId: string,
+): { wedding: WeddingSummary; collaborator: Collaborator } {
+  const collaborator = updateState({ userId, weddingId }, (state) => {
+    const invitation = state.invitations.find((entry) => entry.id === invitationId);
+    const now = new Date();
+
+    if (!invitation || !isInvitationOpen(invitation, now)) {
+      throw new ConflictError("This invitation has already been used or has expired. Ask for a new one.");
+    }
+
+    const existing = state.collaborators.find((entry) => entry.user_id === userId);
+    if (existing) {
+      throw new DuplicateError(
+        `You already have ${existing.role.replace("_", " ")} access to "${state.wedding.name}".`,
+      );
+    }
+
+    const added: Collaborator = {
+      user_id: userId,
+      name: invitation.name,
+      role: invitation.role,
+      joined_at: now.toISOString(),
+    };
+
+    state.collaborators.push(added);
+    invitation.accepted_by = userId;
+    invitation.accepted_at = added.joined_at;
+
+    return cloneCollaborator(added);
+  });
+
+  const user = readUserWeddings(userId);
+  if (!user.weddingIds.includes(weddingId)) {
+    user.weddingIds.push(weddingId);
+  }
+  user.activeWeddingId = weddingId;
+  storage.write(userKey(userId), user);
+
+  return {
+    wedding: cloneWeddingSummary(readState({ userId, weddingId }).wedding),
+    collaborator,
   };
-  return cloneInvitation(state.latestInvitation);
 }
 
-export function getWeddingDashboardData(): WeddingDashboardData {
+export function setCollaboratorRole(
+  ctx: WeddingContext,
+  userId: string,
+  role: CollaboratorRole,
+): Collaborator {
+  return updateState(ctx, (state) => {
+    const collaborator = findCollaborator(state, userId);
+
+    if (role !== "owner") {
+      assertOtherOwner(state, collaborator);
+    }
+
+    collaborator.role = role;
+    return cloneCollaborator(collaborator);
+  });
+}
+
+export function removeCollaborator(ctx: WeddingContext, userId: string): Collaborator {
+  const removed = updateState(ctx, (state) => {
+    const collaborator = findCollaborator(state, userId);
+    assertOtherOwner(state, collaborator);
+    state.collaborators = state.collaborators.filter((entry) => entry.user_id !== userId);
+    return cloneCollaborator(collaborator);
+  });
+
+  const user = readUserWeddings(userId);
+  user.weddingIds = user.weddingIds.filter((weddingId) => weddingId !== ctx.weddingId);
+  if (user.activeWeddingId === ctx.weddingId) {
+    user.activeWeddingId = user.weddingIds[0] ?? null;
+  }
+  storage.write(userKey(userId), user);
+
+  return removed;
+}
+
+function eventDateOf(state: WeddingState): string | null {
+  return asIsoDate(state.eventDetails?.event_date);
+}
+
+function todayFor(state: WeddingState): string {
+  return weddingToday(state.eventDetails?.time_zone);
+}
+
+// The day the wedding was created, in its own time zone; relative due dates
+// are never earlier.
+function planningStartFor(state: WeddingState): string {
+  return todayInTimeZone(
+    state.eventDetails?.time_zone || DEFAULT_TIME_ZONE,
+    new Date(state.wedding.created_at),
+  );
+}
+
+// Moving the wedding moves every task that is due relative to it.
+export function setEventDetails(
+  ctx: WeddingContext,
+  input: EventDetailsInput,
+): { eventDetails: EventDetails; shiftedTasks: Task[] } {
+  return updateState(ctx, (state) => {
+    const timeZone = input.time_zone || state.eventDetails?.time_zone || DEFAULT_TIME_ZONE;
+
+    if (!isValidTimeZone(timeZone)) {
+      throw new InvalidInputError(
+        `Unknown time zone "${timeZone}". Use an IANA zone like Europe/Rome or America/New_York.`,
+      );
+    }
+
+    const eventDate = parseCalendarDate(input.event_date, weddingToday(timeZone));
+
+    if (!eventDate) {
+      throw new InvalidInputError(
+        `Could not understand the wedding date "${input.event_date}". Use a date like 2027-06-12 or June 12, 2027.`,
+      );
+    }
+
+    state.eventDetails = {
+      event_date: eventDate,
+      location: input.location,
+      budget: input.budget,
+      time_zone: timeZone,
+    };
+
+    const shiftedTasks = state.tasks.filter((task) => {
+      if (!task.due_offset) {
+        return false;
+      }
+
+      const dueDate = dueDateFromOffset(task.due_offset, eventDate, planningStartFor(state));
+      const shifted = dueDate !== task.due_date;
+      task.due_date = dueDate;
+      return shifted;
+    });
+
+    return {
+      eventDetails: cloneEventDetails(state.eventDetails),
+      shiftedTasks: shiftedTasks.map((task) => cloneTask(task)),
+    };
+  });
+}
+
+export function clearEventDetails(ctx: WeddingContext): EventDetails {
+  return updateState(ctx, (state) => {
+    if (!state.eventDetails) {
+      throw new ConflictError("Event details have not been set.");
+    }
+
+    const previous = cloneEventDetails(state.eventDetails);
+    state.eventDetails = null;
+
+    // Relative due dates have nothing to hang off until a new date is set.
+    for (const task of state.tasks) {
+      if (task.due_offset) {
+        task.due_date = "";
+      }
+    }
+
+    return previous;
+  });
+}
+
+function resolveContact(contact: string): ParsedContact {
+  const parsed = parseContact(contact);
+
+  if (!parsed) {
+    throw new InvalidInputError(`Contact "${contact}" is not a valid email address or phone number.`);
+  }
+
+  return parsed;
+}
+
+function findGuestByContact(
+  state: WeddingState,
+  contact: string,
+  exceptGuestId: string | null = null,
+): Guest | undefined {
+  const normalizedInputContact = contactKey(contact);
+
+  return state.guests.find(
+    (guest) => guest.id !== exceptGuestId && contactKey(guest.contact) === normalizedInputContact,
+  );
+}
+
+function findPossibleDuplicates(state: WeddingState, guest: Guest): PossibleDuplicate[] {
+  return state.guests
+    .filter((entry) => entry.id !== guest.id && namesLookAlike(entry.name, guest.name))
+    .map((entry) => ({ guest_id: entry.id, name: entry.name, contact: entry.contact }));
+}
+
+function assertUniqueContact(
+  state: WeddingState,
+  contact: string,
+  exceptGuestId: string | null = null,
+) {
+  if (findGuestByContact(state, contact, exceptGuestId)) {
+    throw new DuplicateError(`Guest with contact "${contact}" already exists.`);
+  }
+}
+
+function findGuest(state: WeddingState, guestId: string): Guest {
+  const guest = state.guests.find((entry) => entry.id === guestId);
+
+  if (!guest) {
+    throw new NotFoundError(`Guest with id "${guestId}" was not found.`);
+  }
+
+  return guest;
+}
+
+function resolveHouseholdId(state: WeddingState, name: string | null): string | null {
+  const trimmedName = name?.trim();
+
+  if (!trimmedName) {
+    return null;
+  }
+
+  const existing = state.households.find(
+    (household) => household.name.toLowerCase() === trimmedName.toLowerCase(),
+  );
+
+  if (existing) {
+    return existing.id;
+  }
+
+  const household: Household = {
+    id: `household_${state.nextHouseholdId}`,
+    name: trimmedName,
+  };
+
+  state.nextHouseholdId += 1;
+  state.households.push(household);
+
+  return household.id;
+}
+
+function pruneEmptyHouseholds(state: WeddingState) {
+  const usedHouseholdIds = new Set(state.guests.map((guest) => guest.household_id));
+  state.households = state.households.filter((household) =>
+    usedHouseholdIds.has(household.id),
+  );
+}
+
+function uniqueLabels(values: string[]): string[] {
+  const seen = new Set<string>();
+
+  return values
+    .map((value) => value.trim())
+    .filter((value) => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+function applyGuestDetails(
+  state: WeddingState,
+  guest: Guest,
+  details: GuestDetailsInput,
+) {
+  if (details.household !== undefined) {
+    guest.household_id = resolveHouseholdId(state, details.household);
+  }
+
+  if (details.side !== undefined) {
+    guest.side = details.side;
+  }
+
+  if (details.plus_one_allowed !== undefined) {
+    guest.plus_one_allowed = details.plus_one_allowed;
+    if (!details.plus_one_allowed) {
+      guest.plus_one_name = null;
+    }
+  }
+
+  if (details.plus_one_name !== undefined) {
+    if (details.plus_one_name && details.plus_one_allowed === false) {
+      throw new ConflictError(
+        `Guest "${guest.name}" cannot have a named plus-one without a plus-one allowance.`,
+      );
+    }
+
+    guest.plus_one_name = details.plus_one_name?.trim() || null;
+    if (guest.plus_one_name) {
+      guest.plus_one_allowed = true;
+    }
+  }
+
+  if (details.tags !== undefined) {
+    guest.tags = uniqueLabels(details.tags);
+  }
+
+  if (details.meal_choice !== undefined) {
+    guest.meal_choice = details.meal_choice?.trim() || null;
+  }
+
+  if (details.dietary_restrictions !== undefined) {
+    guest.dietary_restrictions = uniqueLabels(details.dietary_restrictions);
+  }
+
+  if (details.age_group !== undefined) {
+    guest.age_group = details.age_group;
+  }
+
+  if (details.accessibility_notes !== undefined) {
+    guest.accessibility_notes = details.accessibility_notes?.trim() || null;
+  }
+
+  pruneEmptyHouseholds(state);
+}
+
+function createGuest(
+  state: WeddingState,
+  input: { name: string; contact: string } & GuestDetailsInput,
+): Guest {
+  const { name, contact: rawContact, ...details } = input;
+  const contact = resolveContact(rawContact);
+  assertUniqueContact(state, contact.value);
+
+  const guest: Guest = {
+    id: `guest_${state.nextGuestId}`,
+    name,
+    contact: contact.value,
+    contact_type: contact.type,
+    rsvp_status: "Pending",
+    household_id: null,
+    side: "Mutual",
+    plus_one_allowed: false,
+    plus_one_name: null,
+    tags: [],
+    meal_choice: null,
+    dietary_restrictions: [],
+    age_group: "Adult",
+    accessibility_notes: null,
+    rsvp_note: null,
+    rsvp_responded_at: null,
+    event_rsvps: {},
+  };
+
+  state.nextGuestId += 1;
+  state.guests.push(guest);
+  applyGuestDetails(state, guest, details);
+
+  return guest;
+}
+
+// Guests with a similar name are still added, since relatives can share
+// one; the caller is told about them so a real duplicate can be merged.
+export function addGuest(
+  ctx: WeddingContext,
+  input: { name: string; contact: string } & GuestDetailsInput,
+): { guest: Guest; possibleDuplicates: PossibleDuplicate[] } {
+  return updateState(ctx, (state) => {
+    const guest = createGuest(state, input);
+    return { guest: cloneGuest(guest), possibleDuplicates: findPossibleDuplicates(state, guest) };
+  });
+}
+
+// Rows whose contact matches an existing guest, or an earlier row, are
+// skipped rather than failing the whole import.
+export function importGuests(ctx: WeddingContext, rows: GuestImportRow[]): GuestImportReport {
+  return updateState(ctx, (state) => {
+    const report: GuestImportReport = {
+      created: [],
+      skipped: [],
+      invalid: [],
+      possible_duplicates: [],
+    };
+
+    for (const { row, ...input } of rows) {
+      const existing = findGuestByContact(state, input.contact);
+
+      if (existing) {
+        report.skipped.push({
+          row,
+          name: input.name,
+          contact: input.contact,
+          existing_guest_id: existing.id,
+        });
+        continue;
+      }
+
+      const guestCount = state.guests.length;
+
+      try {
+        const guest = createGuest(state, input);
+        report.created.push({ row, guest_id: guest.id, name: guest.name });
+
+        const matches = findPossibleDuplicates(state, guest);
+        if (matches.length > 0) {
+          report.possible_duplicates.push({ row, guest_id: guest.id, name: guest.name, matches });
+        }
+      } catch (error) {
+        // Drop the half-applied guest and any household created for it.
+        state.guests = state.guests.slice(0, guestCount);
+        pruneEmptyHouseholds(state);
+        report.invalid.push({
+          row,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return report;
+  });
+}
+
+export function updateGuest(
+  ctx: WeddingContext,
+  guestId: string,
+  patch: {
+    name?: string;
+    contact?: string;
+    rsvp_status?: RSVPStatus;
+  } & GuestDetailsInput,
+): Guest {
+  return updateState(ctx, (state) => {
+    const guest = findGuest(state, guestId);
+    const { name, contact, rsvp_status: rsvpStatus, ...details } = patch;
+    const seatsBefore = seatsForGuest(guest);
+
+    if (contact !== undefined) {
+      const parsed = resolveContact(contact);
+      assertUniqueContact(state, parsed.value, guest.id);
+      guest.contact = parsed.value;
+      guest.contact_type = parsed.type;
+    }
+
+    if (name !== undefined) {
+      guest.name = name;
+    }
+
+    if (rsvpStatus !== undefined) {
+      setRsvpStatus(guest, rsvpStatus);
+    }
+
+    applyGuestDetails(state, guest, details);
+
+    if (seatsForGuest(guest) > seatsBefore) {
+      assertSeatStillFits(state, guest);
+    }
+
+    return cloneGuest(guest);
+  });
+}
+
+// With an `event_id` the answer is recorded for that event instead of the
+// wedding itself.
+export function updateGuestStatus(
+  ctx: WeddingContext,
+  guestId: string,
+  rsvpStatus: RSVPStatus,
+  details: Pick<GuestDetailsInput, "meal_choice" | "plus_one_name"> & {
+    event_id?: string | null;
+  } = {},
+): Guest {
+  return updateState(ctx, (state) => {
+    const guest = findGuest(state, guestId);
+    const { event_id: eventId, ...guestDetails } = details;
+
+    if (guestDetails.plus_one_name && !guest.plus_one_allowed) {
+      throw new ConflictError(`Guest "${guest.name}" is not allowed a plus-one.`);
+    }
+
+    if (eventId) {
+      setEventRsvp(state, guest, eventId, rsvpStatus);
+    } else {
+      setRsvpStatus(guest, rsvpStatus);
+    }
+
+    applyGuestDetails(state, guest, guestDetails);
+    return cloneGuest(guest);
+  });
+}
+
+function setRsvpStatus(guest: Guest, status: RSVPStatus) {
+  if (guest.rsvp_status !== status) {
+    guest.rsvp_status = status;
+    guest.rsvp_responded_at = status === "Pending" ? null : new Date().toISOString();
+  }
+}
+
+function setEventRsvp(state: WeddingState, guest: Guest, eventId: string, status: RSVPStatus) {
+  const event = findEvent(state, eventId);
+
+  if (!isInvitedTo(event, guest.id)) {
+    throw new ConflictError(`Guest "${guest.name}" is not invited to ${event.name}.`);
+  }
+
+  if (status === "Pending") {
+    delete guest.event_rsvps[event.id];
+  } else {
+    guest.event_rsvps[event.id] = status;
+  }
+}
+
+export function setMealOptions(ctx: WeddingContext, options: string[]): string[] {
+  return updateState(ctx, (state) => {
+    state.mealOptions = uniqueLabels(options);
+    return [...state.mealOptions];
+  });
+}
+
+export function getGuestRsvpDetails(ctx: WeddingContext, guestId: string): GuestRsvpDetails {
+  const state = readState(ctx);
+  const details = state.eventDetails;
+  const guest = findGuest(state, guestId);
+
+  return {
+    wedding_name: state.wedding.name,
+    event_date: details ? (asIsoDate(details.event_date) ?? details.event_date) : null,
+    location: details?.location || null,
+    guest: cloneGuest(guest),
+    events: sortEvents(state.events)
+      .filter((event) => isInvitedTo(event, guest.id))
+      .map((event) => ({
+        id: event.id,
+        name: event.name,
+        date: event.date,
+        start_time: event.start_time,
+        venue: event.venue,
+        rsvp_status: guest.event_rsvps[event.id] ?? "Pending",
+      })),
+    meal_options: [...state.mealOptions],
+  };
+}
+
+// A guest's own answer from their RSVP page.
+export function respondToRsvp(
+  ctx: WeddingContext,
+  guestId: string,
+  input: RsvpResponseInput,
+): Guest {
+  return updateState(ctx, (state) => {
+    const guest = findGuest(state, guestId);
+    let mealChoice = input.meal_choice?.trim() || null;
+
+    if (mealChoice && state.mealOptions.length > 0) {
+      const option = state.mealOptions.find(
+        (entry) => entry.toLowerCase() === mealChoice?.toLowerCase(),
+      );
+
+      if (!option) {
+        throw new InvalidInputError(`"${mealChoice}" is not one of the meal options.`);
+      }
+
+      mealChoice = option;
+    }
+
+    if (input.plus_one_name?.trim() && !guest.plus_one_allowed) {
+      throw new ConflictError(`Guest "${guest.name}" is not allowed a plus-one.`);
+    }
+
+    for (const [eventId, status] of Object.entries(input.event_rsvps ?? {})) {
+      setEventRsvp(state, guest, eventId, status);
+    }
+
+    guest.rsvp_status = input.rsvp_status;
+    guest.rsvp_note = input.note?.trim() || null;
+    guest.rsvp_responded_at = new Date().toISOString();
+
+    const details: GuestDetailsInput = {};
+    if (input.meal_choice !== undefined) {
+      details.meal_choice = input.rsvp_status === "No" ? null : mealChoice;
+    }
+    if (input.plus_one_name !== undefined && guest.plus_one_allowed) {
+      details.plus_one_name = input.plus_one_name;
+    }
+    applyGuestDetails(state, guest, details);
+
+    return cloneGuest(guest);
+  });
+}
+
+export function removeGuest(ctx: WeddingContext, guestId: string): Guest {
+  return updateState(ctx, (state) => {
+    const guest = findGuest(state, guestId);
+    state.guests = state.guests.filter((entry) => entry.id !== guestId);
+    pruneEmptyHouseholds(state);
+    removeGuestFromSeating(state, guestId);
+    removeGuestFromEvents(state, guestId);
+    return cloneGuest(guest);
+  });
+}
+
+// The guest who answered most recently wins; answers without a time count
+// as older than any timed one, and the kept guest wins ties.
+function latestRsvp(keep: Guest, duplicate: Guest): Guest {
+  const answeredAt = (guest: Guest) =>
+    guest.rsvp_responded_at
+      ? Date.parse(guest.rsvp_responded_at)
+      : guest.rsvp_status === "Pending"
+        ? -Infinity
+        : Number.MIN_SAFE_INTEGER;
+
+  return answeredAt(duplicate) > answeredAt(keep) ? duplicate : keep;
+}
+
+// Folds `duplicateId` into `guestId`: the RSVP (status, note, meal, plus-one
+// and per-event answers) comes from whichever record answered last, other
+// empty details are filled in from the duplicate, and its table, event
+// invitations and seating constraints move to the kept guest.
+export function mergeGuests(
+  ctx: WeddingContext,
+  guestId: string,
+  duplicateId: string,
+  options: { useDuplicateContact?: boolean } = {},
+): GuestMergeResult {
+  return updateState(ctx, (state) => {
+    const guest = findGuest(state, guestId);
+    const duplicate = findGuest(state, duplicateId);
+
+    if (guest.id === duplicate.id) {
+      throw new InvalidInputError("Choose two different guests to merge.");
+    }
+
+    const rsvp = latestRsvp(guest, duplicate);
+    const other = rsvp === guest ? duplicate : guest;
+    const removed = cloneGuest(duplicate);
+
+    if (options.useDuplicateContact) {
+      guest.contact = duplicate.contact;
+      guest.contact_type = duplicate.contact_type;
+    }
+
+    guest.rsvp_status = rsvp.rsvp_status;
+    guest.rsvp_note = rsvp.rsvp_note ?? other.rsvp_note;
+    guest.rsvp_responded_at = rsvp.rsvp_responded_at;
+    guest.event_rsvps = { ...other.event_rsvps, ...rsvp.event_rsvps };
+    guest.meal_choice = rsvp.meal_choice ?? other.meal_choice;
+    guest.plus_one_allowed = guest.plus_one_allowed || duplicate.plus_one_allowed;
+    guest.plus_one_name = rsvp.plus_one_name ?? other.plus_one_name;
+    guest.household_id ??= duplicate.household_id;
+    if (guest.side === "Mutual") {
+      guest.side = duplicate.side;
+    }
+    guest.tags = uniqueLabels([...guest.tags, ...duplicate.tags]);
+    guest.dietary_restrictions = uniqueLabels([
+      ...guest.dietary_restrictions,
+      ...duplicate.dietary_restrictions,
+    ]);
+    guest.accessibility_notes ??= duplicate.accessibility_notes;
+
+    state.guests = state.guests.filter((entry) => entry.id !== duplicate.id);
+    pruneEmptyHouseholds(state);
+
+    const seated = state.seatAssignments.some((assignment) => assignment.guest_id === guest.id);
+    state.seatAssignments = state.seatAssignments.flatMap((assignment) => {
+      if (assignment.guest_id !== duplicate.id) {
+        return [assignment];
+      }
+      return seated ? [] : [{ ...assignment, guest_id: guest.id }];
+    });
+    state.seatingConstraints = state.seatingConstraints
+      .map((constraint) => ({
+        ...constraint,
+        guest_ids: [
+          ...new Set(constraint.guest_ids.map((id) => (id === duplicate.id ? guest.id : id))),
+        ],
+      }))
+      .filter((constraint) => constraint.guest_ids.length >= 2);
+
+    for (const event of state.events) {
+      if (event.guest_ids?.includes(duplicate.id)) {
+        event.guest_ids = [
+          ...new Set(event.guest_ids.map((id) => (id === duplicate.id ? guest.id : id))),
+        ];
+      }
+    }
+
+    return { guest: cloneGuest(guest), removed_guest: removed, rsvp_from: rsvp.id };
+  });
+}
+
+function removeGuestFromEvents(state: WeddingState, guestId: string) {
+  for (const event of state.events) {
+    if (event.guest_ids?.includes(guestId)) {
+      event.guest_ids = event.guest_ids.filter((id) => id !== guestId);
+    }
+  }
+}
+
+function findEvent(state: WeddingState, eventId: string): WeddingEvent {
+  const event = state.events.find((entry) => entry.id === eventId);
+
+  if (!event) {
+    throw new NotFoundError(`Event with id "${eventId}" was not found.`);
+  }
+
+  return event;
+}
+
+function isInvitedTo(event: WeddingEvent, guestId: string): boolean {
+  return event.guest_ids === null || event.guest_ids.includes(guestId);
+}
+
+function invitedGuestIds(state: WeddingState, event: WeddingEvent): string[] {
+  return state.guests
+    .filter((guest) => isInvitedTo(event, guest.id))
+    .map((guest) => guest.id);
+}
+
+function resolveEventGuestIds(state: WeddingState, guestIds: string[] | null): string[] | null {
+  if (guestIds === null) {
+    return null;
+  }
+
+  for (const guestId of guestIds) {
+    findGuest(state, guestId);
+  }
+
+  return [...new Set(guestIds)];
+}
+
+function resolveEventDate(state: WeddingState, input: string): string {
+  const trimmed = input.trim();
+
+  if (!trimmed) {
+    return "";
+  }
+
+  const date = parseCalendarDate(trimmed, todayFor(state));
+
+  if (!date) {
+    throw new InvalidInputError(
+      `Could not understand the event date "${input}". Use a date like 2027-06-11 or June 11, 2027.`,
+    );
+  }
+
+  return date;
+}
+
+function applyEventTimes(
+  event: WeddingEvent,
+  startTime: string | null,
+  endTime: string | null,
+) {
+  if (!startTime) {
+    if (endTime) {
+      throw new ConflictError(`Event "${event.name}" needs a start time before it can have an end time.`);
+    }
+
+    event.start_time = null;
+    event.end_time = null;
+    return;
+  }
+
+  const timing = resolveScheduleTiming({ time: startTime, end_time: endTime });
+  event.start_time = timing.time;
+  event.end_time = timing.end_time;
+}
+
+function summarizeEvent(state: WeddingState, event: WeddingEvent): WeddingEventSummary {
+  const invited = invitedGuestIds(state, event);
+  const rsvpCounts: Record<RSVPStatus, number> = { Pending: 0, Yes: 0, No: 0, Maybe: 0 };
+
+  for (const guest of state.guests) {
+    if (invited.includes(guest.id)) {
+      rsvpCounts[guest.event_rsvps[event.id] ?? "Pending"] += 1;
+    }
+  }
+
+  return {
+    ...cloneWeddingEvent(event),
+    invited_guest_ids: invited,
+    rsvp_counts: rsvpCounts,
+  };
+}
+
+// Dated events first in date order, then undated ones in the order added.
+function sortEvents(events: WeddingEvent[]): WeddingEvent[] {
+  return [...events].sort((left, right) => {
+    if (!left.date || !right.date) {
+      return Number(!left.date) - Number(!right.date);
+    }
+
+    return (
+      left.date.localeCompare(right.date) ||
+      (left.start_time ?? "").localeCompare(right.start_time ?? "")
+    );
+  });
+}
+
+export function addEvent(ctx: WeddingContext, input: WeddingEventInput): WeddingEventSummary {
+  return updateState(ctx, (state) => {
+    const event: WeddingEvent = {
+      id: `event_${state.nextEventId}`,
+      name: input.name,
+      date: resolveEventDate(state, input.date ?? ""),
+      start_time: null,
+      end_time: null,
+      venue: input.venue?.trim() || null,
+      guest_ids: resolveEventGuestIds(state, input.guest_ids ?? null),
+    };
+
+    applyEventTimes(event, input.start_time ?? null, input.end_time ?? null);
+    state.nextEventId += 1;
+    state.events.push(event);
+
+    return summarizeEvent(state, event);
+  });
+}
+
+export function updateEvent(
+  ctx: WeddingContext,
+  eventId: string,
+  patch: Partial<WeddingEventInput>,
+): WeddingEventSummary {
+  return updateState(ctx, (state) => {
+    const event = findEvent(state, eventId);
+
+    if (patch.name !== undefined) {
+      event.name = patch.name;
+    }
+
+    if (patch.date !== undefined) {
+      event.date = resolveEventDate(state, patch.date);
+    }
+
+    if (patch.start_time !== undefined || patch.end_time !== undefined) {
+      // Moving the start keeps the end time unless a new one is given.
+      applyEventTimes(
+        event,
+        patch.start_time !== undefined ? patch.start_time : event.start_time,
+        patch.end_time !== undefined ? patch.end_time : event.end_time,
+      );
+    }
+
+    if (patch.venue !== undefined) {
+      event.venue = patch.venue?.trim() || null;
+    }
+
+    if (patch.guest_ids !== undefined) {
+      event.guest_ids = resolveEventGuestIds(state, patch.guest_ids);
+
+      // Answers from guests who are no longer invited are dropped.
+      for (const guest of state.guests) {
+        if (!isInvitedTo(event, guest.id)) {
+          delete guest.event_rsvps[event.id];
+        }
+      }
+    }
+
+    return summarizeEvent(state, event);
+  });
+}
+
+// The event's schedule items and guests' answers for it go with it.
+export function removeEvent(
+  ctx: WeddingContext,
+  eventId: string,
+): { event: WeddingEvent; removedScheduleItems: ScheduleItem[] } {
+  return updateState(ctx, (state) => {
+    const event = findEvent(state, eventId);
+    const removedScheduleItems = state.schedule.filter((item) => item.event_id === eventId);
+
+    state.events = state.events.filter((entry) => entry.id !== eventId);
+    state.schedule = state.schedule.filter((item) => item.event_id !== eventId);
+    for (const guest of state.guests) {
+      delete guest.event_rsvps[eventId];
+    }
+
+    return {
+      event: cloneWeddingEvent(event),
+      removedScheduleItems: removedScheduleItems.map((item) => cloneScheduleItem(item)),
+    };
+  });
+}
+
+export function getEvents(ctx: WeddingContext): WeddingEventSummary[] {
+  const state = readState(ctx);
+  return sortEvents(state.events).map((event) => summarizeEvent(state, event));
+}
+
+export function addTask(
+  ctx: WeddingContext,
+  input: { title: string; due_date: string },
+): Task {
+  return updateState(ctx, (state) => {
+    const task: Task = {
+      id: `task_${state.nextTaskId}`,
+      title: input.title,
+      ...resolveDueDate(input.due_date, {
+        today: todayFor(state),
+        eventDate: eventDateOf(state),
+        planningStart: planningStartFor(state),
+      }),
+      status: "Pending",
+      completed_at: null,
+    };
+
+    state.nextTaskId += 1;
+    state.tasks.push(task);
+
+    return cloneTask(task);
+  });
+}
+
+function findTask(state: WeddingState, taskId: string): Task {
+  const task = state.tasks.find((entry) => entry.id === taskId);
+
+  if (!task) {
+    throw new NotFoundError(`Task with id "${taskId}" was not found.`);
+  }
+
+  return task;
+}
+
+function applyTaskStatus(task: Task, status: TaskStatus) {
+  if (status === "Done" && task.status !== "Done") {
+    task.completed_at = new Date().toISOString();
+  } else if (status !== "Done") {
+    task.completed_at = null;
+  }
+
+  task.status = status;
+}
+
+export function updateTask(
+  ctx: WeddingContext,
+  taskId: string,
+  patch: { title?: string; due_date?: string | null; status?: TaskStatus },
+): Task {
+  return updateState(ctx, (state) => {
+    const task = findTask(state, taskId);
+
+    if (patch.title !== undefined) {
+      task.title = patch.title;
+    }
+
+    // Null unschedules the task, dropping any offset from the wedding too.
+    if (patch.due_date === null) {
+      task.due_date = "";
+      task.due_offset = null;
+    } else if (patch.due_date !== undefined) {
+      Object.assign(
+        task,
+        resolveDueDate(patch.due_date, {
+          today: todayFor(state),
+          eventDate: eventDateOf(state),
+          planningStart: planningStartFor(state),
+        }),
+      );
+    }
+
+    if (patch.status !== undefined) {
+      applyTaskStatus(task, patch.status);
+    }
+
+    return cloneTask(task);
+  });
+}
+
+export function completeTask(ctx: WeddingContext, taskId: string): Task {
+  return updateState(ctx, (state) => {
+    const task = findTask(state, taskId);
+
+    if (task.status === "Cancelled") {
+      throw new ConflictError(
+        `Task with id "${taskId}" is cancelled. Reopen it before completing it.`,
+      );
+    }
+
+    applyTaskStatus(task, "Done");
+    return cloneTask(task);
+  });
+}
+
+export function reopenTask(ctx: WeddingContext, taskId: string): Task {
+  return updateState(ctx, (state) => {
+    const task = findTask(state, taskId);
+    applyTaskStatus(task, "Pending");
+    return cloneTask(task);
+  });
+}
+
+export function deleteTask(ctx: WeddingContext, taskId: string): Task {
+  return updateState(ctx, (state) => {
+    const task = findTask(state, taskId);
+    state.tasks = state.tasks.filter((entry) => entry.id !== taskId);
+    return cloneTask(task);
+  });
+}
+
+export function generatePlanFromTemplate(
+  ctx: WeddingContext,
+  templateId: ChecklistTemplateId,
+): PlanFromTemplateReport {
+  const template = CHECKLIST_TEMPLATES[templateId];
+
+  return updateState(ctx, (state) => {
+    const eventDate = eventDateOf(state);
+    const planningStart = planningStartFor(state);
+    const existingByKey = new Map(state.tasks.map((task) => [taskTitleKey(task.title), task]));
+    const report: PlanFromTemplateReport = {
+      template: { id: template.id, name: template.name },
+      added: [],
+      scheduled: [],
+      skipped: [],
+    };
+
+    for (const templateTask of template.tasks) {
+      const existing = existingByKey.get(taskTitleKey(templateTask.title));
+
+      if (!existing) {
+        const task = createTemplateTask(
+          `task_${state.nextTaskId}`,
+          templateTask,
+          eventDate,
+          planningStart,
+        );
+        state.nextTaskId += 1;
+        state.tasks.push(task);
+        existingByKey.set(taskTitleKey(task.title), task);
+        report.added.push(cloneTask(task));
+        continue;
+      }
+
+      if (!existing.due_date && !existing.due_offset) {
+        existing.due_offset = { ...templateTask.due_offset };
+        existing.due_date = dueDateFromOffset(templateTask.due_offset, eventDate, planningStart);
+        report.scheduled.push(cloneTask(existing));
+        continue;
+      }
+
+      report.skipped.push({ title: templateTask.title, existing_task_id: existing.id });
+    }
+
+    return report;
+  });
+}
+
+// "Pending" here means still open: not started or in progress.
+function selectPendingTasks(state: WeddingState): PendingTask[] {
+  const today = todayFor(state);
+
+  return state.tasks
+    .filter((task) => task.status === "Pending" || task.status === "In progress")
+    .map((task) => ({
+      ...cloneTask(task),
+      ...classifyDueDate(task.due_date, today),
+    }));
+}
+
+function summarizeCountdown(state: WeddingState): WeddingCountdown {
+  const today = todayFor(state);
+  const eventDate = eventDateOf(state);
+
+  return {
+    today,
+    time_zone: state.eventDetails?.time_zone ?? DEFAULT_TIME_ZONE,
+    event_date: eventDate,
+    days_until_wedding: eventDate ? daysBetween(today, eventDate) : null,
+  };
+}
+
+export function getPendingTasks(ctx: WeddingContext): {
+  tasks: PendingTask[];
+  countdown: WeddingCountdown;
+} {
+  const state = readState(ctx);
+
+  return {
+    tasks: selectPendingTasks(state),
+    countdown: summarizeCountdown(state),
+  };
+}
+
+// One list per day with items on it: the wedding day and each event, in
+// date order. Items are only checked for overlaps against their own day.
+function scheduleByDay(state: WeddingState): ScheduleItem[][] {
+  const days = [
+    { eventId: null as string | null, date: eventDateOf(state) ?? "" },
+    ...sortEvents(state.events).map((event) => ({ eventId: event.id, date: event.date })),
+  ].sort((left, right) =>
+    !left.date || !right.date
+      ? Number(!left.date) - Number(!right.date)
+      : left.date.localeCompare(right.date),
+  );
+
+  return days
+    .map((day) =>
+      sortScheduleItems(state.schedule.filter((item) => item.event_id === day.eventId)),
+    )
+    .filter((items) => items.length > 0);
+}
+
+function issuesForItem(state: WeddingState, item: ScheduleItem): ScheduleIssue[] {
+  return findScheduleIssues(
+    state.schedule.filter((entry) => entry.event_id === item.event_id),
+  ).filter((issue) => issue.item_ids.includes(item.id));
+}
+
+function resolveScheduleEventId(state: WeddingState, eventId: string | null): string | null {
+  return eventId ? findEvent(state, eventId).id : null;
+}
+
+export function addScheduleItem(
+  ctx: WeddingContext,
+  input: ScheduleItemInput,
+): { item: ScheduleItem; issues: ScheduleIssue[] } {
+  return updateState(ctx, (state) => {
+    const item: ScheduleItem = {
+      id: `schedule_${state.nextScheduleId}`,
+      event_id: resolveScheduleEventId(state, input.event_id ?? null),
+      ...resolveScheduleTiming(input),
+      description: input.description,
+      location: input.location?.trim() || null,
+      owner: input.owner?.trim() || null,
+    };
+
+    state.nextScheduleId += 1;
+    state.schedule.push(item);
+
+    return {
+      item: cloneScheduleItem(item),
+      issues: issuesForItem(state, item),
+    };
+  });
+}
+
+function findScheduleItem(state: WeddingState, itemId: string): ScheduleItem {
+  const item = state.schedule.find((entry) => entry.id === itemId);
+
+  if (!item) {
+    throw new NotFoundError(`Schedule item with id "${itemId}" was not found.`);
+  }
+
+  return item;
+}
+
+export function updateScheduleItem(
+  ctx: WeddingContext,
+  itemId: string,
+  patch: Partial<ScheduleItemInput>,
+): { item: ScheduleItem; issues: ScheduleIssue[] } {
+  return updateState(ctx, (state) => {
+    const item = findScheduleItem(state, itemId);
+
+    if (
+      patch.time !== undefined ||
+      patch.end_time !== undefined ||
+      patch.duration_minutes !== undefined
+    ) {
+      // Moving the start keeps the existing duration unless a new end or
+      // duration is given.
+      Object.assign(
+        item,
+        resolveScheduleTiming({
+          time: patch.time ?? item.time,
+          end_time: patch.end_time,
+          duration_minutes:
+            patch.end_time !== undefined || patch.duration_minutes !== undefined
+              ? patch.duration_minutes
+              : item.duration_minutes,
+        }),
+      );
+    }
+
+    if (patch.event_id !== undefined) {
+      item.event_id = resolveScheduleEventId(state, patch.event_id);
+    }
+
+    if (patch.description !== undefined) {
+      item.description = patch.description;
+    }
+
+    if (patch.location !== undefined) {
+      item.location = patch.location?.trim() || null;
+    }
+
+    if (patch.owner !== undefined) {
+      item.owner = patch.owner?.trim() || null;
+    }
+
+    return {
+      item: cloneScheduleItem(item),
+      issues: issuesForItem(state, item),
+    };
+  });
+}
+
+export function deleteScheduleItem(
+  ctx: WeddingContext,
+  itemId: string,
+): ScheduleItem {
+  return updateState(ctx, (state) => {
+    const item = findScheduleItem(state, itemId);
+    state.schedule = state.schedule.filter((entry) => entry.id !== itemId);
+    return cloneScheduleItem(item);
+  });
+}
+
+// Pass an event id, or null for the wedding day, to get a single day.
+export function getFullSchedule(
+  ctx: WeddingContext,
+  eventId?: string | null,
+): {
+  items: ScheduleItem[];
+  issues: ScheduleIssue[];
+} {
+  const state = readState(ctx);
+  const eventFilter = eventId === undefined ? undefined : resolveScheduleEventId(state, eventId);
+  const days = scheduleByDay(state).filter(
+    (items) => eventFilter === undefined || items[0].event_id === eventFilter,
+  );
+
+  return {
+    items: days.flat().map((item) => cloneScheduleItem(item)),
+    issues: days.flatMap((items) => findScheduleIssues(items)),
+  };
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function findExpense(state: WeddingState, expenseId: string): Expense {
+  const expense = state.expenses.find((entry) => entry.id === expenseId);
+
+  if (!expense) {
+    throw new NotFoundError(`Expense with id "${expenseId}" was not found.`);
+  }
+
+  return expense;
+}
+
+export function addExpense(
+  ctx: WeddingContext,
+  input: {
+    description: string;
+    category: ExpenseCategory;
+    amount: number;
+    vendor?: string | null;
+    paid?: boolean;
+    due_date?: string;
+  },
+): Expense {
+  return updateState(ctx, (state) => {
+    const expense: Expense = {
+      id: `expense_${state.nextExpenseId}`,
+      description: input.description,
+      category: input.category,
+      vendor: input.vendor?.trim() || null,
+      amount: roundCurrency(input.amount),
+      paid: input.paid ?? false,
+      due_date: input.due_date ?? "",
+    };
+
+    state.nextExpenseId += 1;
+    state.expenses.push(expense);
+
+    return cloneExpense(expense);
+  });
+}
+
+export function updateExpense(
+  ctx: WeddingContext,
+  expenseId: string,
+  patch: {
+    description?: string;
+    category?: ExpenseCategory;
+    amount?: number;
+    vendor?: string | null;
+    paid?: boolean;
+    due_date?: string;
+  },
+): Expense {
+  return updateState(ctx, (state) => {
+    const expense = findExpense(state, expenseId);
+
+    if (patch.description !== undefined) {
+      expense.description = patch.description;
+    }
+
+    if (patch.category !== undefined) {
+      expense.category = patch.category;
+    }
+
+    if (patch.amount !== undefined) {
+      expense.amount = roundCurrency(patch.amount);
+    }
+
+    if (patch.vendor !== undefined) {
+      expense.vendor = patch.vendor?.trim() || null;
+    }
+
+    if (patch.paid !== undefined) {
+      expense.paid = patch.paid;
+    }
+
+    if (patch.due_date !== undefined) {
+      expense.due_date = patch.due_date;
+    }
+
+    return cloneExpense(expense);
+  });
+}
+
+// An amount of 0 removes the allocation for that category.
+export function setBudgetAllocation(
+  ctx: WeddingContext,
+  category: ExpenseCategory,
+  amount: number,
+): BudgetSummary {
+  return updateState(ctx, (state) => {
+    state.budgetAllocations = state.budgetAllocations.filter(
+      (allocation) => allocation.category !== category,
+    );
+
+    if (amount > 0) {
+      state.budgetAllocations.push({ category, amount: roundCurrency(amount) });
+    }
+
+    return summarizeBudget(state);
+  });
+}
+
+function summarizeBudget(state: WeddingState): BudgetSummary {
+  const totalBudget = state.eventDetails?.budget ?? 0;
+  const allocationsByCategory = new Map(
+    state.budgetAllocations.map((allocation) => [
+      allocation.category,
+      allocation.amount,
+    ]),
+  );
+
+  const categories: BudgetCategorySummary[] = EXPENSE_CATEGORIES.flatMap(
+    (category) => {
+      const expenses = state.expenses.filter(
+        (expense) => expense.category === category,
+      );
+      const allocated = allocationsByCategory.get(category) ?? 0;
+
+      if (expenses.length === 0 && allocated === 0) {
+        return [];
+      }
+
+      const spent = roundCurrency(
+        expenses.reduce((sum, expense) => sum + expense.amount, 0),
+      );
+      const paid = roundCurrency(
+        expenses
+          .filter((expense) => expense.paid)
+          .reduce((sum, expense) => sum + expense.amount, 0),
+      );
+
+      return [
+        {
+          category,
+          allocated,
+          spent,
+          paid,
+          // Categories without an allocation only count against the total.
+          remaining: allocated > 0 ? roundCurrency(allocated - spent) : 0,
+          over_budget: allocated > 0 && spent > allocated,
+        },
+      ];
+    },
+  );
+
+  const allocated = roundCurrency(
+    state.budgetAllocations.reduce((sum, allocation) => sum + allocation.amount, 0),
+  );
+  const spent = roundCurrency(
+    categories.reduce((sum, category) => sum + category.spent, 0),
+  );
+  const paid = roundCurrency(
+    categories.reduce((sum, category) => sum + category.paid, 0),
+  );
+  const overBudget = totalBudget > 0 && spent > totalBudget;
+
+  const warnings = categories
+    .filter((category) => category.over_budget)
+    .map(
+      (category) =>
+        `${category.category} is over its allocation by $${roundCurrency(category.spent - category.allocated)}.`,
+    );
+
+  if (overBudget) {
+    warnings.unshift(
+      `Total spend is over the wedding budget by $${roundCurrency(spent - totalBudget)}.`,
+    );
+  }
+
+  if (totalBudget > 0 && allocated > totalBudget) {
+    warnings.push(
+      `Category allocations exceed the wedding budget by $${roundCurrency(allocated - totalBudget)}.`,
+    );
+  }
+
+  return {
+    total_budget: totalBudget,
+    allocated,
+    unallocated: roundCurrency(Math.max(0, totalBudget - allocated)),
+    spent,
+    paid,
+    unpaid: roundCurrency(spent - paid),
+    remaining: roundCurrency(totalBudget - spent),
+    over_budget: overBudget,
+    categories,
+    warnings,
+  };
+}
+
+export function getBudgetSummary(ctx: WeddingContext): BudgetSummary {
+  return summarizeBudget(readState(ctx));
+}
+
+function findVendor(state: WeddingState, vendorId: string): Vendor {
+  const vendor = state.vendors.find((entry) => entry.id === vendorId);
+
+  if (!vendor) {
+    throw new NotFoundError(`Vendor with id "${vendorId}" was not found.`);
+  }
+
+  return vendor;
+}
+
+function optionalText(value: string | null): string | null {
+  return value?.trim() || null;
+}
+
+function optionalAmount(value: number | null): number | null {
+  return value === null ? null : roundCurrency(value);
+}
+
+function applyVendorDetails(vendor: Vendor, details: VendorDetailsInput) {
+  if (details.contact_name !== undefined) {
+    vendor.contact_name = optionalText(details.contact_name);
+  }
+
+  if (details.email !== undefined) {
+    vendor.email = optionalText(details.email);
+  }
+
+  if (details.phone !== undefined) {
+    vendor.phone = optionalText(details.phone);
+  }
+
+  if (details.website !== undefined) {
+    vendor.website = optionalText(details.website);
+  }
+
+  if (details.quote !== undefined) {
+    vendor.quote = optionalAmount(details.quote);
+  }
+
+  if (details.contract_status !== undefined) {
+    vendor.contract_status = details.contract_status;
+  }
+
+  if (details.deposit_amount !== undefined) {
+    vendor.deposit_amount = optionalAmount(details.deposit_amount);
+  }
+
+  if (details.deposit_due_date !== undefined) {
+    vendor.deposit_due_date = details.deposit_due_date;
+  }
+
+  if (details.balance_due_date !== undefined) {
+    vendor.balance_due_date = details.balance_due_date;
+  }
+
+  if (details.notes !== undefined) {
+    vendor.notes = details.notes;
+  }
+}
+
+function createVendor(
+  state: WeddingState,
+  input: { name: string; category: VendorCategory } & VendorDetailsInput,
+  source: VendorSource | null,
+): Vendor {
+  const { name, category, ...details } = input;
+  const vendor: Vendor = {
+    id: `vendor_${state.nextVendorId}`,
+    name,
+    category,
+    contact_name: null,
+    email: null,
+    phone: null,
+    website: null,
+    quote: null,
+    contract_status: "Researching",
+    deposit_amount: null,
+    deposit_due_date: "",
+    balance_due_date: "",
+    notes: "",
+    source,
+  };
+
+  applyVendorDetails(vendor, details);
+  state.nextVendorId += 1;
+  state.vendors.push(vendor);
+
+  return vendor;
+}
+
+export function addVendor(
+  ctx: WeddingContext,
+  input: { name: string; category: VendorCategory } & VendorDetailsInput,
+): Vendor {
+  return updateState(ctx, (state) => cloneVendor(createVendor(state, input, null)));
+}
+
+export function updateVendor(
+  ctx: WeddingContext,
+  vendorId: string,
+  patch: { name?: string; category?: VendorCategory } & VendorDetailsInput,
+): Vendor {
+  return updateState(ctx, (state) => {
+    const vendor = findVendor(state, vendorId);
+    const { name, category, ...details } = patch;
+
+    if (name !== undefined) {
+      vendor.name = name;
+    }
+
+    if (category !== undefined) {
+      vendor.category = category;
+    }
+
+    applyVendorDetails(vendor, details);
+
+    return cloneVendor(vendor);
+  });
+}
+
+export function removeVendor(ctx: WeddingContext, vendorId: string): Vendor {
+  return updateState(ctx, (state) => {
+    const vendor = findVendor(state, vendorId);
+    state.vendors = state.vendors.filter((entry) => entry.id !== vendorId);
+    return cloneVendor(vendor);
+  });
+}
+
+export function getVendors(ctx: WeddingContext): Vendor[] {
+  return readState(ctx).vendors.map((vendor) => cloneVendor(vendor));
+}
+
+// Promotes a venue search result into a vendor record. Saving the same result
+// twice returns the existing vendor instead of creating a duplicate.
+export function saveVenueAsVendor(
+  ctx: WeddingContext,
+  venue: {
+    provider: VenueSearchProvider;
+    name: string;
+    url: string;
+    location?: string;
+    description?: string;
+    category?: VendorCategory;
+  },
+): { vendor: Vendor; created: boolean } {
+  return updateState(ctx, (state) => {
+    const existing = state.vendors.find(
+      (vendor) => vendor.source?.url === venue.url,
+    );
+
+    if (existing) {
+      return { vendor: cloneVendor(existing), created: false };
+    }
+
+    const notes = [venue.location, venue.description]
+      .map((value) => value?.trim())
+      .filter(Boolean)
+      .join("\n");
+    const vendor = createVendor(
+      state,
+      {
+        name: venue.name,
+        category: venue.category ?? "Venue",
+        website: venue.url,
+        notes,
+      },
+      { provider: venue.provider, url: venue.url },
+    );
+
+    return { vendor: cloneVendor(vendor), created: true };
+  });
+}
+
+function cloneTable(table: SeatingTable): SeatingTable {
+  return {
+    id: table.id,
+    name: table.name,
+    shape: table.shape,
+    capacity: table.capacity,
+  };
+}
+
+function cloneSeatingConstraint(constraint: SeatingConstraint): SeatingConstraint {
+  return {
+    id: constraint.id,
+    type: constraint.type,
+    guest_ids: [...constraint.guest_ids],
+  };
+}
+
+function findTable(state: WeddingState, tableId: string): SeatingTable {
+  const table = state.tables.find((entry) => entry.id === tableId);
+
+  if (!table) {
+    throw new NotFoundError(`Table with id "${tableId}" was not found.`);
+  }
+
+  return table;
+}
+
+function seatsUsedAt(state: WeddingState, tableId: string): number {
+  return state.seatAssignments
+    .filter((assignment) => assignment.table_id === tableId)
+    .reduce((total, assignment) => {
+      const guest = state.guests.find((entry) => entry.id === assignment.guest_id);
+      return total + (guest ? seatsForGuest(guest) : 0);
+    }, 0);
+}
+
+// A seated guest who now needs more seats must still fit at their table.
+function assertSeatStillFits(state: WeddingState, guest: Guest) {
+  const assignment = state.seatAssignments.find((entry) => entry.guest_id === guest.id);
+
+  if (!assignment) {
+    return;
+  }
+
+  const table = findTable(state, assignment.table_id);
+  const seatsUsed = seatsUsedAt(state, table.id);
+
+  if (seatsUsed > table.capacity) {
+    throw new ConflictError(
+      `Table "${table.name}" has ${table.capacity} seat(s) but would need ${seatsUsed} with ${guest.name}'s plus-one. Seat ${guest.name} at a table with room first.`,
+    );
+  }
+}
+
+function removeGuestFromSeating(state: WeddingState, guestId: string) {
+  state.seatAssignments = state.seatAssignments.filter(
+    (assignment) => assignment.guest_id !== guestId,
+  );
+  state.seatingConstraints = state.seatingConstraints
+    .map((constraint) => ({
+      ...constraint,
+      guest_ids: constraint.guest_ids.filter((id) => id !== guestId),
+    }))
+    .filter((constraint) => constraint.guest_ids.length >= 2);
+}
+
+function summarizeSeating(state: WeddingState): SeatingChart {
+  const seatedGuestIds = new Set(
+    state.seatAssignments.map((assignment) => assignment.guest_id),
+  );
+
+  return {
+    tables: state.tables.map((table) => ({
+      ...cloneTable(table),
+      guest_ids: state.seatAssignments
+        .filter((assignment) => assignment.table_id === table.id)
+        .map((assignment) => assignment.guest_id),
+      seats_used: seatsUsedAt(state, table.id),
+    })),
+    constraints: state.seatingConstraints.map((constraint) =>
+      cloneSeatingConstraint(constraint),
+    ),
+    unassigned_guest_ids: state.guests
+      .filter((guest) => guest.rsvp_status === "Yes" && !seatedGuestIds.has(guest.id))
+      .map((guest) => guest.id),
+  };
+}
+
+export function addTable(
+  ctx: WeddingContext,
+  input: { name: string; shape: TableShape; capacity: number },
+): SeatingTable {
+  return updateState(ctx, (state) => {
+    if (
+      state.tables.some(
+        (table) => table.name.toLowerCase() === input.name.trim().toLowerCase(),
+      )
+    ) {
+      throw new DuplicateError(`Table named "${input.name}" already exists.`);
+    }
+
+    const table: SeatingTable = {
+      id: `table_${state.nextTableId}`,
+      name: input.name.trim(),
+      shape: input.shape,
+      capacity: input.capacity,
+    };
+
+    state.nextTableId += 1;
+    state.tables.push(table);
+
+    return cloneTable(table);
+  });
+}
+
+// Guests seated at a removed table go back to the unassigned list.
+export function removeTable(ctx: WeddingContext, tableId: string): SeatingTable {
+  return updateState(ctx, (state) => {
+    const table = findTable(state, tableId);
+    state.tables = state.tables.filter((entry) => entry.id !== tableId);
+    state.seatAssignments = state.seatAssignments.filter(
+      (assignment) => assignment.table_id !== tableId,
+    );
+    return cloneTable(table);
+  });
+}
+
+// A null table id unseats the guest.
+export function assignGuestToTable(
+  ctx: WeddingContext,
+  guestId: string,
+  tableId: string | null,
+): { guest: Guest; table: SeatingTable | null } {
+  return updateState(ctx, (state) => {
+    const guest = findGuest(state, guestId);
+    state.seatAssignments = state.seatAssignments.filter(
+      (assignment) => assignment.guest_id !== guestId,
+    );
+
+    if (tableId === null) {
+      return { guest: cloneGuest(guest), table: null };
+    }
+
+    const table = findTable(state, tableId);
+    const freeSeats = table.capacity - seatsUsedAt(state, table.id);
+
+    if (seatsForGuest(guest) > freeSeats) {
+      throw new ConflictError(
+        `Table "${table.name}" only has ${freeSeats} free seat(s); ${guest.name} needs ${seatsForGuest(guest)}.`,
+      );
+    }
+
+    state.seatAssignments.push({ guest_id: guest.id, table_id: table.id });
+
+    return { guest: cloneGuest(guest), table: cloneTable(table) };
+  });
+}
+
+export function addSeatingConstraint(
+  ctx: WeddingContext,
+  input: { type: SeatingConstraintType; guest_ids: string[] },
+): SeatingConstraint {
+  return updateState(ctx, (state) => {
+    const guestIds = [...new Set(input.guest_ids)];
+    guestIds.forEach((guestId) => findGuest(state, guestId));
+
+    if (guestIds.length < 2) {
+      throw new InvalidInputError("A seating constraint needs at least two different guests.");
+    }
+
+    const constraint: SeatingConstraint = {
+      id: `constraint_${state.nextConstraintId}`,
+      type: input.type,
+      guest_ids: guestIds,
+    };
+
+    state.nextConstraintId += 1;
+    state.seatingConstraints.push(constraint);
+
+    return cloneSeatingConstraint(constraint);
+  });
+}
+
+export function removeSeatingConstraint(
+  ctx: WeddingContext,
+  constraintId: string,
+): SeatingConstraint {
+  return updateState(ctx, (state) => {
+    const constraint = state.seatingConstraints.find(
+      (entry) => entry.id === constraintId,
+    );
+
+    if (!constraint) {
+      throw new NotFoundError(`Seating constraint with id "${constraintId}" was not found.`);
+    }
+
+    state.seatingConstraints = state.seatingConstraints.filter(
+      (entry) => entry.id !== constraintId,
+    );
+    return cloneSeatingConstraint(constraint);
+  });
+}
+
+// Only guests who confirmed (RSVP Yes) are seated; seats held by anyone else
+// are released. With `keepExisting`, confirmed guests stay where they are.
+export function autoSeatGuests(
+  ctx: WeddingContext,
+  options: { keepExisting: boolean },
+): AutoSeatReport {
+  return updateState(ctx, (state) => {
+    if (state.tables.length === 0) {
+      throw new ConflictError("Add at least one table before auto-seating guests.");
+    }
+
+    const confirmedGuests = state.guests.filter((guest) => guest.rsvp_status === "Yes");
+    const confirmedIds = new Set(confirmedGuests.map((guest) => guest.id));
+    const previous = new Set(
+      state.seatAssignments.map((assignment) => assignment.guest_id),
+    );
+    const plan = planSeating({
+      guests: confirmedGuests,
+      tables: state.tables,
+      constraints: state.seatingConstraints,
+      fixed: options.keepExisting
+        ? state.seatAssignments.filter((assignment) =>
+            confirmedIds.has(assignment.guest_id),
+          )
+        : [],
+    });
+
+    state.seatAssignments = plan.assignments;
+
+    return {
+      seated_guest_ids: plan.assignments
+        .map((assignment) => assignment.guest_id)
+        .filter((guestId) => !options.keepExisting || !previous.has(guestId)),
+      unseated_guest_ids: plan.unseated_guest_ids,
+      issues: plan.issues,
+    };
+  });
+}
+
+export function getSeatingChart(ctx: WeddingContext): SeatingChart {
+  return summarizeSeating(readState(ctx));
+}
+
+export function setLatestInvitation(
+  ctx: WeddingContext,
+  theme: string,
+  text: string,
+  imageUrl: string | null = null,
+): InvitationDraft {
+  return updateState(ctx, (state) => {
+    state.latestInvitation = {
+      theme,
+      text,
+      image_url: imageUrl,
+    };
+    return cloneInvitation(state.latestInvitation);
+  });
+}
+
+function cloneChangeEntry(entry: ChangeEntry): ChangeEntry {
+  return JSON.parse(JSON.stringify(entry)) as ChangeEntry;
+}
+
+// Newest first.
+export function getChangeHistory(
+  ctx: WeddingContext,
+  limit = DASHBOARD_ACTIVITY_LIMIT,
+): ChangeEntry[] {
+  return readState(ctx)
+    .history.slice(-limit)
+    .reverse()
+    .map((entry) => cloneChangeEntry(entry));
+}
+
+// When each tracked entity last changed, for calendar feeds.
+export function getEntityRevisions(ctx: WeddingContext): EntityRevisions {
+  const state = readState(ctx);
+  return entityRevisions(state.history, state.wedding.created_at);
+}
+
+export function revertChange(ctx: WeddingContext, changeId: string): ChangeEntry {
+  const state = readState(ctx);
+  const entry = state.history.find((candidate) => candidate.id === changeId);
+
+  if (!entry) {
+    throw new NotFoundError(`Change with id "${changeId}" was not found.`);
+  }
+
+  if (entry.reverted_by) {
+    throw new ConflictError(
+      `Change with id "${changeId}" was already reverted by "${entry.reverted_by}".`,
+    );
+  }
+
+  if (entry.reverts) {
+    throw new ConflictError(
+      `Change with id "${changeId}" is itself a revert. Make the change again instead.`,
+    );
+  }
+
+  const before = snapshotTrackedState(state);
+  revertEntityChanges(state, entry);
+
+  // Reverting one record can strand references to it elsewhere, e.g. a seat
+  // for a guest whose creation was undone.
+  const householdIds = new Set(state.households.map((household) => household.id));
+  for (const guest of state.guests) {
+    if (guest.household_id && !householdIds.has(guest.household_id)) {
+      guest.household_id = null;
+    }
+  }
+  pruneEmptyHouseholds(state);
+
+  const guestIds = new Set(state.guests.map((guest) => guest.id));
+  const eventIds = new Set(state.events.map((event) => event.id));
+  for (const event of state.events) {
+    if (event.guest_ids) {
+      event.guest_ids = event.guest_ids.filter((guestId) => guestIds.has(guestId));
+    }
+  }
+  for (const item of state.schedule) {
+    if (item.event_id && !eventIds.has(item.event_id)) {
+      item.event_id = null;
+    }
+  }
+  for (const guest of state.guests) {
+    for (const eventId of Object.keys(guest.event_rsvps)) {
+      if (!eventIds.has(eventId)) {
+        delete guest.event_rsvps[eventId];
+      }
+    }
+  }
+
+  const tableIds = new Set(state.tables.map((table) => table.id));
+  state.seatAssignments = state.seatAssignments.filter(
+    (assignment) => guestIds.has(assignment.guest_id) && tableIds.has(assignment.table_id),
+  );
+  state.seatingConstraints
+    .flatMap((constraint) => constraint.guest_ids)
+    .filter((guestId) => !guestIds.has(guestId))
+    .forEach((guestId) => removeGuestFromSeating(state, guestId));
+
+  const revert = recordChange(ctx, state, before, entry);
+  storage.write(weddingKey(ctx.weddingId), state);
+
+  if (!revert) {
+    throw new ConflictError(`Change with id "${changeId}" has nothing left to revert.`);
+  }
+
+  return cloneChangeEntry(revert);
+}
+
+export function undoLastChange(ctx: WeddingContext): ChangeEntry {
+  const history = readState(ctx).history;
+  const last = [...history]
+    .reverse()
+    .find((entry) => entry.reverted_by === null && entry.reverts === null);
+
+  if (!last) {
+    throw new ConflictError("There are no changes left to undo.");
+  }
+
+  return revertChange(ctx, last.id);
+}
+
+export function getWeddingDashboardData(
+  ctx: WeddingContext,
+): WeddingDashboardData {
+  const state = readState(ctx);
+  const scheduleDays = scheduleByDay(state);
+
   return {
+    wedding: cloneWeddingSummary(state.wedding),
+    collaborators: state.collaborators.map((collaborator) => cloneCollaborator(collaborator)),
+    currentUserRole:
+      state.collaborators.find((collaborator) => collaborator.user_id === ctx.userId)?.role ??
+      null,
     eventDetails: state.eventDetails
       ? cloneEventDetails(state.eventDetails)
       : null,
+    events: sortEvents(state.events).map((event) => summarizeEvent(state, event)),
     guests: state.guests.map((guest) => cloneGuest(guest)),
+    households: state.households.map((household) => cloneHousehold(household)),
     tasks: state.tasks.map((task) => cloneTask(task)),
-    pendingTasks: getPendingTasks(),
-    schedule: state.schedule.map((item) => cloneScheduleItem(item)),
+    pendingTasks: selectPendingTasks(state),
+    countdown: summarizeCountdown(state),
+    schedule: scheduleDays.flat().map((item) => cloneScheduleItem(item)),
+    scheduleIssues: scheduleDays.flatMap((items) => findScheduleIssues(items)),
     latestInvitation: state.latestInvitation
       ? cloneInvitation(state.latestInvitation)
       : null,
+    expenses: state.expenses.map((expense) => cloneExpense(expense)),
+    budget: summarizeBudget(state),
+    vendors: state.vendors.map((vendor) => cloneVendor(vendor)),
+    seating: summarizeSeating(state),
+    activity: state.history
+      .slice(-DASHBOARD_ACTIVITY_LIMIT)
+      .reverse()
+      .map((entry) => toActivityEntry(entry)),
   };
 }
@@ -0,0 +1,22 @@
+import type { WidgetDefinition } from "../utils/widget-catalog";
+
+export const widgetDefinitions: WidgetDefinition[] = [
+  {
+    name: "wedding-planner-dashboard",
+    title: "Wedding Planner",
+    description:
+      "Interactive dashboard of the active wedding: event details, guests and RSVPs, tasks, schedule, budget, vendors, seating and recent activity. It opens on the part of the plan the tool call changed.",
+  },
+  {
+    name: "hctg-venue-search-v2",
+    title: "HereComesTheGuide Venues",
+    description:
+      "List of HereComesTheGuide wedding venues with links and editorial review highlights.",
+  },
+  {
+    name: "tripadvisor-venue-search",
+    title: "TripAdvisor Venues",
+    description:
+      "List of TripAdvisor wedding venues with links and, when available, ratings and review counts.",
+  },
+];
@@ -2,6 +2,7 @@ import { createRoot } from "react-dom/client";
 import { useMemo } from "react";
 
 import { Button } from "@openai/apps-sdk-ui/components/Button";
+import { saveVenueLabel, useSaveVenue } from "../hooks/use-save-venue";
 import { useWidgetProps } from "../hooks/use-widget-props";
 
 type Venue = {
@@ -28,6 +29,7 @@ type ToolOutput = {
 
 function App() {
   const output = useWidgetProps<ToolOutput>(() => ({}));
+  const { saveVenue, getStatus } = useSaveVenue();
   const venues = Array.isArray(output.venues) ? output.venues : [];
   const notes = Array.isArray(output.notes) ? output.notes : [];
   const listingUrls = Array.isArray(output.listingUrls) ? output.listingUrls : [];
@@ -130,7 +132,26 @@ function App() {
 
                 <div className="pointer-events-none absolute inset-0 bg-gradient-to-t from-black/70 via-black/10 to-black/0 opacity-90" />
 
-                <div className="absolute right-3 top-3">
+                <div className="absolute right-3 top-3 flex gap-2">
+                  <Button
+                    type="button"
+                    size="xs"
+                    variant="outline"
+                    color="secondary"
+                    disabled={getStatus(v.url) === "saving" || getStatus(v.url) === "saved"}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void saveVenue({
+                        provider: "hctg",
+                        name: v.name,
+                        url: v.url,
+                        location: [v.city, v.region].filter(Boolean).join(", ") || undefined,
+                        description: v.reviewBullets?.slice(0, 3).join(" ") || undefined,
+                      });
+                    }}
+                  >
+                    {saveVenueLabel(getStatus(v.url))}
+                  </Button>
                   <Button
                     type="button"
                     size="xs"
@@ -0,0 +1,52 @@
+import { useCallback, useState } from "react";
+import { getToolErrorFromToolOutput } from "../utils/tool-error";
+
+export type SaveVenueStatus = "idle" | "saving" | "saved" | "error";
+
+export type SaveVenueArgs = {
+  provider: "hctg" | "tripadvisor";
+  name: string;
+  url: string;
+  location?: string;
+  description?: string;
+};
+
+export function useSaveVenue() {
+  const [statusByUrl, setStatusByUrl] = useState<Record<string, SaveVenueStatus>>({});
+
+  const saveVenue = useCallback(async (args: SaveVenueArgs) => {
+    if (!window?.openai?.callTool) {
+      return;
+    }
+
+    setStatusByUrl((current) => ({ ...current, [args.url]: "saving" }));
+
+    try {
+      const response = await window.openai.callTool("saveVenueAsVendor", args);
+      const saved = !getToolErrorFromToolOutput(response.structuredContent);
+      setStatusByUrl((current) => ({ ...current, [args.url]: saved ? "saved" : "error" }));
+    } catch {
+      setStatusByUrl((current) => ({ ...current, [args.url]: "error" }));
+    }
+  }, []);
+
+  const getStatus = useCallback(
+    (url: string): SaveVenueStatus => statusByUrl[url] ?? "idle",
+    [statusByUrl],
+  );
+
+  return { saveVenue, getStatus };
+}
+
+export function saveVenueLabel(status: SaveVenueStatus): string {
+  switch (status) {
+    case "saving":
+      return "Saving…";
+    case "saved":
+      return "Saved";
+    case "error":
+      return "Retry save";
+    default:
+      return "Save as vendor";
+  }
+}
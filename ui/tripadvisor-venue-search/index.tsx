@@ -2,6 +2,7 @@ import { createRoot } from "react-dom/client";
 import { useMemo } from "react";
 
 import { Button } from "@openai/apps-sdk-ui/components/Button";
+import { saveVenueLabel, useSaveVenue } from "../hooks/use-save-venue";
 import { useWidgetProps } from "../hooks/use-widget-props";
 
 type Venue = {
@@ -43,6 +44,8 @@ function App() {
     notes: [],
   }));
 
+  const { saveVenue, getStatus } = useSaveVenue();
+
   const venues = Array.isArray(output.venues) ? output.venues : [];
   const warnings = Array.isArray(output.warnings) ? output.warnings : [];
   const notes = Array.isArray(output.notes) ? output.notes : [];
@@ -124,17 +127,40 @@ function App() {
                     ) : null}
                   </p>
                 </div>
-                <Button
-                  type="button"
-                  size="xs"
-                  variant="outline"
-                  color="secondary"
-                  onClick={() =>
-                    window.openai.openExternal({ href: toAbsUrl(v.tripadvisorUrl) })
-                  }
-                >
-                  Open
-                </Button>
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    type="button"
+                    size="xs"
+                    variant="outline"
+                    color="secondary"
+                    disabled={
+                      getStatus(toAbsUrl(v.tripadvisorUrl)) === "saving" ||
+                      getStatus(toAbsUrl(v.tripadvisorUrl)) === "saved"
+                    }
+                    onClick={() =>
+                      void saveVenue({
+                        provider: "tripadvisor",
+                        name: v.name,
+                        url: toAbsUrl(v.tripadvisorUrl),
+                        location: v.details || undefined,
+                        description: v.signals?.description || undefined,
+                      })
+                    }
+                  >
+                    {saveVenueLabel(getStatus(toAbsUrl(v.tripadvisorUrl)))}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="xs"
+                    variant="outline"
+                    color="secondary"
+                    onClick={() =>
+                      window.openai.openExternal({ href: toAbsUrl(v.tripadvisorUrl) })
+                    }
+                  >
+                    Open
+                  </Button>
+                </div>
               </div>
 
               {v.signals?.description ? (
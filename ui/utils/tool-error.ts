@@ -0,0 +1,31 @@
+// Failed tool calls resolve normally with `isError` and put the failure in
+// `structuredContent.error` (see utils/tool-errors.ts on the server), so
+// widgets have to look for it instead of relying on callTool rejecting.
+export type ToolErrorOutput = {
+  code: string;
+  message: string;
+  hint: string | null;
+  fields: Array<{ path: string; message: string }>;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+export function getToolErrorFromToolOutput(output: unknown): ToolErrorOutput | null {
+  if (!isRecord(output) || !isRecord(output.error) || typeof output.error.message !== "string") {
+    return null;
+  }
+
+  return {
+    code: typeof output.error.code === "string" ? output.error.code : "failed",
+    message: output.error.message,
+    hint: typeof output.error.hint === "string" ? output.error.hint : null,
+    fields: Array.isArray(output.error.fields)
+      ? output.error.fields.filter(
+          (field): field is { path: string; message: string } =>
+            isRecord(field) && typeof field.path === "string" && typeof field.message === "string",
+        )
+      : [],
+  };
+}
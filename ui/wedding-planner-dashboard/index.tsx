@@ -1,118 +1,110 @@
 import { createRoot } from "react-dom/client";
 import type { CSSProperties, FormEvent } from "react";
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { useDisplayMode } from "../hooks/use-display-mode";
 import { useMaxHeight } from "../hooks/use-max-height";
 import { useWidgetProps } from "../hooks/use-widget-props";
 import { useWidgetState } from "../hooks/use-widget-state";
+import { getToolErrorFromToolOutput, type ToolErrorOutput } from "../utils/tool-error";
+import type {
+  ActivityEntry,
+  AgeGroup,
+  BudgetSummary,
+  CollaboratorRole,
+  DashboardData as PlannerData,
+  DashboardOutput,
+  Guest,
+  GuestSide,
+  PendingTask,
+  PublishedExport,
+  RSVPStatus,
+  SeatingChart,
+  Task,
+  Vendor,
+  WeddingCountdown,
+  WeddingSummary,
+} from "../../tools/dashboard-output";
 import "./styles.css";
 
-type RSVPStatus = "Pending" | "Yes" | "No" | "Maybe";
 type RSVPFilter = "all" | RSVPStatus;
 
-type EventDetails = {
-  event_date: string;
-  location: string;
-  budget: number;
+type GuestFacets = {
+  side: "all" | GuestSide;
+  ageGroup: "all" | AgeGroup;
+  meal: string;
+  dietaryOnly: boolean;
 };
 
-type Guest = {
-  id: string;
-  name: string;
-  contact: string;
-  rsvp_status: RSVPStatus;
-};
-
-type Task = {
-  id: string;
-  title: string;
-  due_date: string;
-  status: "Pending";
-};
+type DueOffset = NonNullable<Task["due_offset"]>;
 
-type ScheduleItem = {
-  id: string;
-  time: string;
-  description: string;
+// Until the first tool result arrives there is no wedding to show.
+type DashboardData = Omit<PlannerData, "wedding" | "countdown"> & {
+  wedding: WeddingSummary | null;
+  countdown: WeddingCountdown | null;
 };
 
-type InvitationDraft = {
-  theme: string;
-  text: string;
-  image_url: string | null;
+type ToolOutput = Partial<Omit<DashboardOutput, "data">> & {
+  data?: Partial<DashboardData>;
+  error?: ToolErrorOutput;
 };
 
-type DashboardData = {
-  eventDetails: EventDetails | null;
-  guests: Guest[];
-  tasks: Task[];
-  pendingTasks: Task[];
-  schedule: ScheduleItem[];
-  latestInvitation: InvitationDraft | null;
-};
+type ExportFormat = "guests_csv" | "guests_vcard" | "tasks_csv" | "summary_markdown";
 
-type DashboardView = "event" | "guests" | "tasks" | "schedule" | "invitation";
+const EXPORT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "guests_csv", label: "Guest list (CSV)" },
+  { value: "guests_vcard", label: "Guest contacts (vCard)" },
+  { value: "tasks_csv", label: "Checklist (CSV)" },
+  { value: "summary_markdown", label: "Planning summary (Markdown)" },
+];
 
-type ToolOutput = {
-  view?: DashboardView;
-  guest_id?: string;
-  invitation_text?: string;
-  invitation_image_url?: string | null;
-  data?: Partial<DashboardData>;
+type DashboardWidgetState = {
+  localGuests: Guest[];
 };
 
-type DemoTaskItem = {
-  id: string;
-  title: string;
-  dueDate: string;
+const EMPTY_BUDGET: BudgetSummary = {
+  total_budget: 0,
+  allocated: 0,
+  unallocated: 0,
+  spent: 0,
+  paid: 0,
+  unpaid: 0,
+  remaining: 0,
+  over_budget: false,
+  categories: [],
+  warnings: [],
 };
 
-type DashboardWidgetState = {
-  localGuests: Guest[];
-  completedTaskIds: string[];
+const EMPTY_SEATING: SeatingChart = {
+  tables: [],
+  constraints: [],
+  unassigned_guest_ids: [],
 };
 
 const EMPTY_DATA: DashboardData = {
+  wedding: null,
+  collaborators: [],
+  currentUserRole: null,
   eventDetails: null,
+  events: [],
   guests: [],
+  households: [],
   tasks: [],
   pendingTasks: [],
+  countdown: null,
   schedule: [],
+  scheduleIssues: [],
   latestInvitation: null,
+  expenses: [],
+  budget: EMPTY_BUDGET,
+  vendors: [],
+  seating: EMPTY_SEATING,
+  activity: [],
 };
 
 const EMPTY_WIDGET_STATE: DashboardWidgetState = {
   localGuests: [],
-  completedTaskIds: [],
 };
 
-const DEFAULT_PENDING_TASKS: Task[] = [
-  {
-    id: "task_1",
-    title: "create guestlist",
-    due_date: "",
-    status: "Pending",
-  },
-  {
-    id: "task_2",
-    title: "find venue",
-    due_date: "",
-    status: "Pending",
-  },
-  {
-    id: "task_3",
-    title: "create schedule",
-    due_date: "",
-    status: "Pending",
-  },
-  {
-    id: "task_4",
-    title: "make invitations",
-    due_date: "",
-    status: "Pending",
-  },
-];
-
 const RSVP_FILTERS: Array<{ label: string; value: RSVPFilter }> = [
   { label: "All", value: "all" },
   { label: "Accepted", value: "Yes" },
@@ -121,20 +113,71 @@ const RSVP_FILTERS: Array<{ label: string; value: RSVPFilter }> = [
   { label: "Pending", value: "Pending" },
 ];
 
+const GUEST_SIDES: GuestSide[] = ["Partner A", "Partner B", "Mutual"];
+const AGE_GROUPS: AgeGroup[] = ["Adult", "Teen", "Child", "Infant"];
+
+const DEFAULT_GUEST_FACETS: GuestFacets = {
+  side: "all",
+  ageGroup: "all",
+  meal: "all",
+  dietaryOnly: false,
+};
+
 const INVITATION_TONES = ["romantic", "formal", "playful"] as const;
 
+const ROLE_LABELS: Record<CollaboratorRole, string> = {
+  owner: "Owner",
+  planner: "Planner",
+  family_viewer: "Family viewer",
+};
+
+// Guests saved by older widget versions lack the detail fields.
+function normalizeGuest(guest: Partial<Guest> & Pick<Guest, "id" | "name" | "contact">): Guest {
+  return {
+    id: guest.id,
+    name: guest.name,
+    contact: guest.contact,
+    contact_type: guest.contact_type ?? (guest.contact.includes("@") ? "email" : "phone"),
+    rsvp_status: guest.rsvp_status ?? "Pending",
+    household_id: guest.household_id ?? null,
+    side: guest.side ?? "Mutual",
+    plus_one_allowed: guest.plus_one_allowed ?? false,
+    plus_one_name: guest.plus_one_name ?? null,
+    tags: guest.tags ?? [],
+    meal_choice: guest.meal_choice ?? null,
+    dietary_restrictions: guest.dietary_restrictions ?? [],
+    age_group: guest.age_group ?? "Adult",
+    accessibility_notes: guest.accessibility_notes ?? null,
+    rsvp_note: guest.rsvp_note ?? null,
+    rsvp_responded_at: guest.rsvp_responded_at ?? null,
+    event_rsvps: guest.event_rsvps ?? {},
+  };
+}
+
 function normalizeData(partial?: Partial<DashboardData>): DashboardData {
   if (!partial) {
     return EMPTY_DATA;
   }
 
   return {
+    wedding: partial.wedding ?? null,
+    collaborators: partial.collaborators ?? [],
+    currentUserRole: partial.currentUserRole ?? null,
     eventDetails: partial.eventDetails ?? null,
+    events: partial.events ?? [],
     guests: partial.guests ?? [],
+    households: partial.households ?? [],
     tasks: partial.tasks ?? [],
     pendingTasks: partial.pendingTasks ?? [],
+    countdown: partial.countdown ?? null,
     schedule: partial.schedule ?? [],
+    scheduleIssues: partial.scheduleIssues ?? [],
     latestInvitation: partial.latestInvitation ?? null,
+    expenses: partial.expenses ?? [],
+    budget: partial.budget ?? EMPTY_BUDGET,
+    vendors: partial.vendors ?? [],
+    seating: partial.seating ?? EMPTY_SEATING,
+    activity: partial.activity ?? [],
   };
 }
 
@@ -146,8 +189,7 @@ function normalizeWidgetState(
   }
 
   return {
-    localGuests: partial.localGuests ?? [],
-    completedTaskIds: partial.completedTaskIds ?? [],
+    localGuests: (partial.localGuests ?? []).map(normalizeGuest),
   };
 }
 
@@ -166,6 +208,88 @@ function mergeGuests(serverGuests: Guest[], localGuests: Guest[]): Guest[] {
   return [...serverGuests, ...dedupedLocalGuests];
 }
 
+function describeGuest(guest: Guest, householdName: string | null): string[] {
+  const details: string[] = [];
+
+  if (householdName) {
+    details.push(householdName);
+  }
+
+  if (guest.side !== "Mutual") {
+    details.push(guest.side);
+  }
+
+  if (guest.age_group !== "Adult") {
+    details.push(guest.age_group);
+  }
+
+  if (guest.plus_one_allowed) {
+    details.push(guest.plus_one_name ? `+1 ${guest.plus_one_name}` : "+1");
+  }
+
+  if (guest.meal_choice) {
+    details.push(guest.meal_choice);
+  }
+
+  return [...details, ...guest.dietary_restrictions, ...guest.tags];
+}
+
+function describeVendorDates(vendor: Vendor): string | null {
+  const dates = [
+    vendor.deposit_due_date ? `Deposit due ${vendor.deposit_due_date}` : null,
+    vendor.balance_due_date ? `Balance due ${vendor.balance_due_date}` : null,
+  ].filter(Boolean);
+
+  return dates.length > 0 ? dates.join(" · ") : null;
+}
+
+function describeCountdown(countdown: WeddingCountdown | null): string | null {
+  const days = countdown?.days_until_wedding;
+
+  if (days === null || days === undefined) {
+    return null;
+  }
+
+  if (days === 0) {
+    return "Wedding day!";
+  }
+
+  if (days < 0) {
+    return `Married ${Math.abs(days)} day${days === -1 ? "" : "s"} ago`;
+  }
+
+  return `${days} day${days === 1 ? "" : "s"} to go`;
+}
+
+function describeDueOffset(offset: DueOffset): string {
+  if (offset.amount === 0) {
+    return "On the wedding day";
+  }
+
+  const amount = Math.abs(offset.amount);
+  const unit = amount === 1 ? offset.unit.replace(/s$/, "") : offset.unit;
+
+  return `${amount} ${unit} ${offset.amount < 0 ? "before" : "after"} the wedding`;
+}
+
+function describeTaskDue(task: Task, due: PendingTask | null | undefined): string {
+  if (!task.due_date) {
+    return task.due_offset ? describeDueOffset(task.due_offset) : "No due date";
+  }
+
+  const days = due?.days_until_due;
+
+  if (due?.due_status === "overdue" && days !== null && days !== undefined) {
+    return `Overdue by ${Math.abs(days)} day${days === -1 ? "" : "s"}`;
+  }
+
+  if (due?.due_status === "due_soon" && days !== null && days !== undefined) {
+    return days === 0 ? "Due today" : `Due in ${days} day${days === 1 ? "" : "s"}`;
+  }
+
+  return `Due ${task.due_date}`;
+}
+
 function isPlaceholderValue(value?: string): boolean {
   if (!value) {
     return true;
@@ -203,6 +327,32 @@ function formatSaveTime(date: Date): string {
   }).format(date);
 }
 
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) {
+    return `${rest} min`;
+  }
+
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function formatActivityTime(value: string): string {
+  const date = new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return new Intl.DateTimeFormat(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(date);
+}
+
 function buildFallbackInvitation(theme: string): string {
   if (theme === "formal") {
     return "Together with our families, we request the honor of your presence as we celebrate our wedding day.";
@@ -231,6 +381,14 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
 
+function getDashboardDataFromToolOutput(output: unknown): DashboardData | null {
+  if (!isRecord(output) || !isRecord(output.data)) {
+    return null;
+  }
+
+  return normalizeData(output.data as Partial<DashboardData>);
+}
+
 function getInvitationImageFromToolOutput(output: unknown): string | null {
   if (!isRecord(output)) {
     return null;
@@ -267,35 +425,44 @@ function App() {
     view: "event",
     data: EMPTY_DATA,
   });
-  const data = normalizeData(output.data);
+  // Data returned by tools called from the widget itself; it is newer than
+  // the tool output the widget was rendered with until the next model turn.
+  const [liveData, setLiveData] = useState<DashboardData | null>(null);
+  const data = liveData ?? normalizeData(output.data);
   const [widgetState, setWidgetState] =
     useWidgetState<DashboardWidgetState>(EMPTY_WIDGET_STATE);
   const persistedState = normalizeWidgetState(widgetState);
   const activeView = output.view ?? "event";
+  // The last failed call, from the model or from the widget's own buttons.
+  const [toolError, setToolError] = useState<ToolErrorOutput | null>(() =>
+    getToolErrorFromToolOutput(output),
+  );
+  // The server refuses changes from family viewers; the widget mirrors that.
+  const isViewOnly = data.currentUserRole === "family_viewer";
 
-  const taskItems = useMemo<DemoTaskItem[]>(
-    () =>
-      DEFAULT_PENDING_TASKS.map((task) => ({
-      id: task.id,
-      title: task.title,
-      dueDate: task.due_date,
-    })),
-    [],
+  // The event the event card, guest list and schedule show; null is the
+  // wedding day itself.
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(
+    output.event_id ?? null,
   );
-  const validTaskIds = useMemo(
-    () => new Set(taskItems.map((task) => task.id)),
-    [taskItems],
+  const selectedEvent = data.events.find((event) => event.id === selectedEventId) ?? null;
+
+  const taskItems = useMemo(
+    () => data.tasks.filter((task) => task.status !== "Cancelled"),
+    [data.tasks],
   );
-  const completedTaskIds = useMemo(
-    () =>
-      new Set(
-        persistedState.completedTaskIds.filter((taskId) => validTaskIds.has(taskId)),
-      ),
-    [persistedState.completedTaskIds, validTaskIds],
+  const dueStatusByTaskId = useMemo(
+    () => new Map(data.pendingTasks.map((task) => [task.id, task])),
+    [data.pendingTasks],
   );
+  const [pendingTaskIds, setPendingTaskIds] = useState<string[]>([]);
+  const [revertingChangeId, setRevertingChangeId] = useState<string | null>(null);
+  const [movingGuestIds, setMovingGuestIds] = useState<string[]>([]);
+  const [isAutoSeating, setAutoSeating] = useState(false);
 
   const [guestSearch, setGuestSearch] = useState("");
   const [guestFilter, setGuestFilter] = useState<RSVPFilter>("all");
+  const [guestFacets, setGuestFacets] = useState<GuestFacets>(DEFAULT_GUEST_FACETS);
   const [selectedGuestId, setSelectedGuestId] = useState<string | null>(
     output.guest_id ?? null,
   );
@@ -307,26 +474,17 @@ function App() {
   const [invitationText, setInvitationText] = useState("");
   const [invitationImageUrl, setInvitationImageUrl] = useState<string | null>(null);
   const [isGeneratingInvite, setGeneratingInvite] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
   const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved">("idle");
   const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
 
   useEffect(() => {
-    const nextCompletedTaskIds = persistedState.completedTaskIds.filter((taskId) =>
-      validTaskIds.has(taskId),
-    );
+    setLiveData(null);
+  }, [output.data]);
 
-    if (nextCompletedTaskIds.length === persistedState.completedTaskIds.length) {
-      return;
-    }
-
-    setWidgetState((current) => {
-      const normalizedState = normalizeWidgetState(current);
-      return {
-        ...normalizedState,
-        completedTaskIds: nextCompletedTaskIds,
-      };
-    });
-  }, [persistedState.completedTaskIds, setWidgetState, validTaskIds]);
+  useEffect(() => {
+    setToolError(getToolErrorFromToolOutput(output));
+  }, [output.error]);
 
   useEffect(() => {
     const serverContacts = new Set(
@@ -355,6 +513,17 @@ function App() {
     }
   }, [output.guest_id]);
 
+  useEffect(() => {
+    const scheduleItem = output.schedule_item_id
+      ? data.schedule.find((item) => item.id === output.schedule_item_id)
+      : undefined;
+    const eventId = output.event_id ?? scheduleItem?.event_id;
+
+    if (eventId !== undefined) {
+      setSelectedEventId(eventId);
+    }
+  }, [output.event_id, output.schedule_item_id]);
+
   useEffect(() => {
     if (!data.latestInvitation) {
       return;
@@ -392,28 +561,76 @@ function App() {
     [data.guests, persistedState.localGuests],
   );
 
+  const householdNames = useMemo(
+    () => new Map(data.households.map((household) => [household.id, household.name])),
+    [data.households],
+  );
+
+  const mealOptions = useMemo(
+    () =>
+      [...new Set(guests.flatMap((guest) => (guest.meal_choice ? [guest.meal_choice] : [])))].sort(),
+    [guests],
+  );
+
+  function guestStatus(guest: Guest): RSVPStatus {
+    return selectedEvent
+      ? (guest.event_rsvps[selectedEvent.id] ?? "Pending")
+      : guest.rsvp_status;
+  }
+
+  const invitedGuests = useMemo(
+    () =>
+      selectedEvent?.guest_ids
+        ? guests.filter((guest) => selectedEvent.guest_ids?.includes(guest.id))
+        : guests,
+    [guests, selectedEvent],
+  );
+
   const filteredGuests = useMemo(() => {
     const normalizedSearch = guestSearch.trim().toLowerCase();
 
-    return guests.filter((guest) => {
+    return invitedGuests.filter((guest) => {
+      const householdName = guest.household_id
+        ? householdNames.get(guest.household_id) ?? ""
+        : "";
+      const searchable = [
+        guest.name,
+        guest.contact,
+        householdName,
+        guest.plus_one_name ?? "",
+        ...guest.tags,
+      ];
       const matchesSearch =
         normalizedSearch.length === 0 ||
-        guest.name.toLowerCase().includes(normalizedSearch) ||
-        guest.contact.toLowerCase().includes(normalizedSearch);
-      const matchesFilter = guestFilter === "all" || guest.rsvp_status === guestFilter;
-
-      return matchesSearch && matchesFilter;
+        searchable.some((value) => value.toLowerCase().includes(normalizedSearch));
+      const matchesFilter = guestFilter === "all" || guestStatus(guest) === guestFilter;
+      const matchesFacets =
+        (guestFacets.side === "all" || guest.side === guestFacets.side) &&
+        (guestFacets.ageGroup === "all" || guest.age_group === guestFacets.ageGroup) &&
+        (guestFacets.meal === "all" ||
+          (guestFacets.meal === "none"
+            ? !guest.meal_choice
+            : guest.meal_choice === guestFacets.meal)) &&
+        (!guestFacets.dietaryOnly || guest.dietary_restrictions.length > 0);
+
+      return matchesSearch && matchesFilter && matchesFacets;
     });
-  }, [guestFilter, guestSearch, guests]);
+  }, [guestFacets, guestFilter, guestSearch, invitedGuests, householdNames, selectedEvent]);
 
-  const completedTaskCount = taskItems.filter((task) => completedTaskIds.has(task.id)).length;
+  const completedTaskCount = taskItems.filter((task) => task.status === "Done").length;
   const pendingTaskCount = Math.max(0, taskItems.length - completedTaskCount);
 
   const respondedGuestCount = guests.filter(
     (guest) => guest.rsvp_status !== "Pending",
   ).length;
+  const bookedVendorCount = data.vendors.filter(
+    (vendor) => vendor.contract_status === "Booked",
+  ).length;
   const venueBooked = Boolean(
-    data.eventDetails && !isPlaceholderValue(data.eventDetails.location),
+    (data.eventDetails && !isPlaceholderValue(data.eventDetails.location)) ||
+      data.vendors.some(
+        (vendor) => vendor.category === "Venue" && vendor.contract_status === "Booked",
+      ),
   );
 
   const taskProgress = taskItems.length > 0 ? completedTaskCount / taskItems.length : 0;
@@ -424,23 +641,11 @@ function App() {
   );
   const actionItemsLeft = pendingTaskCount + (venueBooked ? 0 : 1);
 
-  const totalBudget =
-    data.eventDetails && data.eventDetails.budget > 0 ? data.eventDetails.budget : 5000;
-  const spentRatio = clamp(0.12 + overallProgress / 150, 0.08, 0.9);
-  const spentBudget = Math.round(totalBudget * spentRatio);
-  const budgetProgress = Math.round((spentBudget / totalBudget) * 100);
-
-  const budgetCategories = useMemo(() => {
-    const venue = Math.round(spentBudget * 0.4);
-    const catering = Math.round(spentBudget * 0.35);
-    const flowers = Math.max(0, spentBudget - venue - catering);
-
-    return [
-      { label: "Venue", value: venue },
-      { label: "Catering", value: catering },
-      { label: "Flowers", value: flowers },
-    ];
-  }, [spentBudget]);
+  const totalBudget = data.budget.total_budget;
+  const spentBudget = data.budget.spent;
+  const budgetProgress =
+    totalBudget > 0 ? Math.round((spentBudget / totalBudget) * 100) : 0;
+  const budgetFill = clamp(budgetProgress, 0, 100);
 
   const containerStyle: CSSProperties | undefined = maxHeight
     ? {
@@ -454,7 +659,7 @@ function App() {
   };
 
   const budgetDonutStyle: CSSProperties = {
-    ["--budget-progress" as string]: `${budgetProgress}%`,
+    ["--budget-progress" as string]: `${budgetFill}%`,
   };
 
   async function requestDisplayMode(mode: "fullscreen" | "inline") {
@@ -507,25 +712,111 @@ function App() {
 
   function handleNewItem() {
     setGuestComposerOpen(true);
-    setStatusMessage("Task list is fixed for this demo. Add guests instead.");
+    setStatusMessage("Ask ChatGPT to add tasks. Add guests here instead.");
   }
 
-  function toggleChecklistTask(taskId: string) {
-    setWidgetState((current) => {
-      const normalizedState = normalizeWidgetState(current);
-      const next = new Set(normalizedState.completedTaskIds);
+  async function callDashboardTool(
+    name: string,
+    args: Record<string, unknown>,
+  ): Promise<boolean> {
+    if (!window?.openai?.callTool) {
+      setStatusMessage("Tool calls are unavailable in this host.");
+      return false;
+    }
+
+    if (isViewOnly) {
+      setStatusMessage("You have view-only access. Ask a wedding owner for planner access.");
+      return false;
+    }
 
-      if (next.has(taskId)) {
-        next.delete(taskId);
-      } else {
-        next.add(taskId);
+    try {
+      const response = await window.openai.callTool(name, args);
+      const error = getToolErrorFromToolOutput(response.structuredContent);
+      setToolError(error);
+      if (error) {
+        setStatusMessage(error.message);
+        return false;
       }
 
-      return {
-        ...normalizedState,
-        completedTaskIds: [...next],
-      };
-    });
+      const nextData = getDashboardDataFromToolOutput(response.structuredContent);
+      if (nextData) {
+        setLiveData(nextData);
+      }
+      if (response.result?.trim()) {
+        setStatusMessage(response.result.trim());
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Could not run ${name}.`;
+      setStatusMessage(message);
+      return false;
+    }
+  }
+
+  async function toggleChecklistTask(task: Task) {
+    setPendingTaskIds((current) => [...current, task.id]);
+
+    try {
+      await callDashboardTool(task.status === "Done" ? "reopenTask" : "completeTask", {
+        task_id: task.id,
+      });
+    } finally {
+      setPendingTaskIds((current) => current.filter((taskId) => taskId !== task.id));
+    }
+  }
+
+  async function handleRemoveGuest(guest: Guest) {
+    if (guest.id.startsWith("local_guest_")) {
+      setWidgetState((current) => {
+        const normalizedState = normalizeWidgetState(current);
+        return {
+          ...normalizedState,
+          localGuests: normalizedState.localGuests.filter(
+            (localGuest) => localGuest.id !== guest.id,
+          ),
+        };
+      });
+      setSelectedGuestId(null);
+      setStatusMessage(`Guest removed: ${guest.name}`);
+      return;
+    }
+
+    if (await callDashboardTool("removeGuest", { guest_id: guest.id })) {
+      setSelectedGuestId(null);
+    }
+  }
+
+  async function moveGuestToTable(guestId: string, tableId: string | null) {
+    setMovingGuestIds((current) => [...current, guestId]);
+
+    try {
+      await callDashboardTool("assignGuestToTable", {
+        guest_id: guestId,
+        table_id: tableId,
+      });
+    } finally {
+      setMovingGuestIds((current) => current.filter((id) => id !== guestId));
+    }
+  }
+
+  async function handleAutoSeat() {
+    setAutoSeating(true);
+
+    try {
+      await callDashboardTool("autoSeatGuests", { keep_existing: true });
+    } finally {
+      setAutoSeating(false);
+    }
+  }
+
+  async function revertActivity(entry: ActivityEntry) {
+    setRevertingChangeId(entry.id);
+
+    try {
+      await callDashboardTool("revertChange", { change_id: entry.id });
+    } finally {
+      setRevertingChangeId(null);
+    }
   }
 
   function handleAddGuest(event: FormEvent<HTMLFormElement>) {
@@ -549,12 +840,11 @@ function App() {
       return;
     }
 
-    const guest: Guest = {
+    const guest = normalizeGuest({
       id: `local_guest_${Date.now()}`,
       name,
       contact,
-      rsvp_status: "Pending",
-    };
+    });
 
     setWidgetState((current) => {
       const normalizedState = normalizeWidgetState(current);
@@ -580,6 +870,13 @@ function App() {
           theme: invitationTone,
         });
 
+        const error = getToolErrorFromToolOutput(response.structuredContent);
+        setToolError(error);
+        if (error) {
+          setStatusMessage(error.message);
+          return;
+        }
+
         const imageFromToolOutput = getInvitationImageFromToolOutput(
           (response as { structuredContent?: unknown }).structuredContent,
         );
@@ -606,6 +903,37 @@ function App() {
     }
   }
 
+  async function handleExportFile(format: ExportFormat) {
+    if (!window?.openai?.callTool) {
+      setStatusMessage("Exports are unavailable in this host.");
+      return;
+    }
+
+    setExportingFormat(format);
+
+    try {
+      const response = await window.openai.callTool("exportWeddingData", { format });
+      const exported = isRecord(response.structuredContent)
+        ? (response.structuredContent.export as PublishedExport | undefined)
+        : undefined;
+
+      if (!exported?.url) {
+        setStatusMessage(
+          getToolErrorFromToolOutput(response.structuredContent)?.message ??
+            "The export did not return a download link.",
+        );
+        return;
+      }
+
+      window.openai.openExternal({ href: exported.url });
+      setStatusMessage(`Downloading ${exported.filename}.`);
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? error.message : "Could not export.");
+    } finally {
+      setExportingFormat(null);
+    }
+  }
+
   function handleExportPdf() {
     if (typeof window !== "undefined") {
       window.print();
@@ -617,11 +945,56 @@ function App() {
     data.eventDetails && !isPlaceholderValue(data.eventDetails.event_date)
       ? data.eventDetails.event_date
       : "TBD";
+  const countdownLabel = describeCountdown(data.countdown);
   const eventLocation =
     data.eventDetails && !isPlaceholderValue(data.eventDetails.location)
       ? data.eventDetails.location
       : "TBD";
 
+  const eventSwitcher =
+    data.events.length > 0 ? (
+      <div className="event-switcher" role="toolbar" aria-label="Choose an event">
+        {[{ id: null, name: "Wedding day" }, ...data.events].map((event) => (
+          <button
+            key={event.id ?? "wedding"}
+            type="button"
+            className={`chip-button ${selectedEventId === event.id ? "is-active" : ""}`}
+            aria-pressed={selectedEventId === event.id}
+            onClick={() => setSelectedEventId(event.id)}
+          >
+            {event.name}
+          </button>
+        ))}
+      </div>
+    ) : null;
+
+  const selectedEventDetails = selectedEvent ? (
+    <ul className="detail-list" role="list">
+      <li className="detail-row">
+        <span className="detail-label">Date</span>
+        <span className="detail-value">{selectedEvent.date || "TBD"}</span>
+      </li>
+      <li className="detail-row">
+        <span className="detail-label">Time</span>
+        <span className="detail-value">
+          {selectedEvent.start_time
+            ? [selectedEvent.start_time, selectedEvent.end_time].filter(Boolean).join("-")
+            : "TBD"}
+        </span>
+      </li>
+      <li className="detail-row">
+        <span className="detail-label">Venue</span>
+        <span className="detail-value">{selectedEvent.venue ?? "TBD"}</span>
+      </li>
+      <li className="detail-row">
+        <span className="detail-label">Guests</span>
+        <span className="detail-value">
+          {`${selectedEvent.invited_guest_ids.length} invited · ${selectedEvent.rsvp_counts.Yes} attending · ${selectedEvent.rsvp_counts.Pending} awaiting reply`}
+        </span>
+      </li>
+    </ul>
+  ) : null;
+
   const eventCard = (
     <section
       className={`card card-event ${activeView === "event" ? "is-active" : ""}`}
@@ -634,29 +1007,56 @@ function App() {
         </button>
       </div>
 
-      <ul className="detail-list" role="list">
-        <li className="detail-row">
-          <span className="detail-label">Date</span>
-          <span className="detail-value">{eventDate}</span>
-          <button type="button" className="icon-btn small" aria-label="Edit date">
-            Edit
-          </button>
-        </li>
-        <li className="detail-row">
-          <span className="detail-label">Location</span>
-          <span className="detail-value">{eventLocation}</span>
-          <button type="button" className="icon-btn small" aria-label="Edit location">
-            Edit
-          </button>
-        </li>
-        <li className="detail-row">
-          <span className="detail-label">Budget</span>
-          <span className="detail-value">{formatUsd(totalBudget)}</span>
-          <button type="button" className="icon-btn small" aria-label="Edit budget">
-            Edit
-          </button>
-        </li>
-      </ul>
+      {eventSwitcher}
+
+      {selectedEventDetails ?? (
+        <ul className="detail-list" role="list">
+          <li className="detail-row">
+            <span className="detail-label">Date</span>
+            <span className="detail-value">
+              {eventDate}
+              {countdownLabel ? (
+                <span className="countdown-label">{countdownLabel}</span>
+              ) : null}
+            </span>
+            <button type="button" className="icon-btn small" aria-label="Edit date">
+              Edit
+            </button>
+          </li>
+          <li className="detail-row">
+            <span className="detail-label">Location</span>
+            <span className="detail-value">{eventLocation}</span>
+            <button type="button" className="icon-btn small" aria-label="Edit location">
+              Edit
+            </button>
+          </li>
+          <li className="detail-row">
+            <span className="detail-label">Budget</span>
+            <span className="detail-value">
+              {totalBudget > 0 ? formatUsd(totalBudget) : "TBD"}
+            </span>
+            <button type="button" className="icon-btn small" aria-label="Edit budget">
+              Edit
+            </button>
+          </li>
+        </ul>
+      )}
+
+      {data.collaborators.length > 1 ? (
+        <ul className="detail-list" role="list">
+          <li className="detail-row">
+            <span className="detail-label">Shared with</span>
+            <span className="detail-value">
+              {data.collaborators
+                .map(
+                  (collaborator) =>
+                    `${collaborator.name ?? collaborator.user_id} (${ROLE_LABELS[collaborator.role]})`,
+                )
+                .join(", ")}
+            </span>
+          </li>
+        </ul>
+      ) : null}
     </section>
   );
 
@@ -693,7 +1093,8 @@ function App() {
 
       <ul className="task-list" role="list">
         {taskItems.map((task) => {
-          const isDone = completedTaskIds.has(task.id);
+          const isDone = task.status === "Done";
+          const due = isDone ? null : dueStatusByTaskId.get(task.id);
 
           return (
             <li key={task.id} className={`task-row ${isDone ? "is-done" : ""}`}>
@@ -701,28 +1102,54 @@ function App() {
                 <input
                   type="checkbox"
                   checked={isDone}
-                  onChange={() => toggleChecklistTask(task.id)}
-                  aria-label={`Mark ${task.title} as complete`}
+                  disabled={pendingTaskIds.includes(task.id)}
+                  onChange={() => toggleChecklistTask(task)}
+                  aria-label={
+                    isDone ? `Reopen ${task.title}` : `Mark ${task.title} as complete`
+                  }
                 />
                 <span className="task-title">{task.title}</span>
+                {task.status === "In progress" ? (
+                  <span className="task-status">In progress</span>
+                ) : null}
               </label>
-              <span className="task-meta">
-                {task.dueDate ? `Due ${task.dueDate}` : "No due date"}
+              <span
+                className={`task-meta ${due ? `is-${due.due_status.replace("_", "-")}` : ""}`}
+                title={task.due_offset ? describeDueOffset(task.due_offset) : undefined}
+              >
+                {describeTaskDue(task, due)}
               </span>
             </li>
           );
         })}
       </ul>
+      {taskItems.length === 0 ? <p className="muted">No tasks yet.</p> : null}
     </section>
   );
 
+  const importReport = output.import_report ?? null;
+  const rsvpLinks = new Map(
+    (output.rsvp_links ?? []).map((link) => [link.guest_id, link.url]),
+  );
+
+  async function copyRsvpLink(guest: Guest, url: string) {
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatusMessage(`Copied the RSVP link for ${guest.name}.`);
+    } catch {
+      setStatusMessage(`RSVP link for ${guest.name}: ${url}`);
+    }
+  }
+
   const guestsCard = (
     <section
       className={`card card-guests ${activeView === "guests" ? "is-active" : ""}`}
       aria-labelledby="guests-title"
     >
       <div className="card-header">
-        <h2 id="guests-title">Guests ({guests.length})</h2>
+        <h2 id="guests-title">
+          {selectedEvent ? `${selectedEvent.name} guests` : "Guests"} ({invitedGuests.length})
+        </h2>
         <button
           type="button"
           className="btn btn-ghost btn-sm"
@@ -732,6 +1159,36 @@ function App() {
         </button>
       </div>
 
+      {importReport ? (
+        <div className="import-report" aria-live="polite">
+          <p className="import-summary">
+            {`Imported ${importReport.created.length} · skipped ${importReport.skipped.length} duplicate(s) · ${importReport.invalid.length} invalid`}
+          </p>
+          {importReport.skipped.length +
+            importReport.invalid.length +
+            (importReport.possible_duplicates?.length ?? 0) >
+          0 ? (
+            <ul className="budget-warnings" role="list">
+              {importReport.skipped.map((entry) => (
+                <li key={`skipped-${entry.row}`}>
+                  {`Row ${entry.row}: ${entry.name} skipped, ${entry.contact} is already on the list`}
+                </li>
+              ))}
+              {importReport.invalid.map((entry) => (
+                <li key={`invalid-${entry.row}`}>{`Row ${entry.row}: ${entry.reason}`}</li>
+              ))}
+              {importReport.possible_duplicates?.map((entry) => (
+                <li key={`duplicate-${entry.row}`}>
+                  {`Row ${entry.row}: ${entry.name} may be the same person as ${entry.matches
+                    .map((match) => match.name)
+                    .join(", ")}`}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+
       {isGuestComposerOpen ? (
         <form className="guest-composer" onSubmit={handleAddGuest}>
           <label htmlFor="guest-name" className="sr-only">
@@ -766,7 +1223,7 @@ function App() {
         className="guest-search"
         value={guestSearch}
         onChange={(event) => setGuestSearch(event.target.value)}
-        placeholder="Find guest by name or email"
+        placeholder="Find guest by name, email, household or tag"
       />
 
       <div className="guest-filter-row" role="toolbar" aria-label="Guest RSVP filters">
@@ -783,11 +1240,84 @@ function App() {
         ))}
       </div>
 
+      <div className="guest-facet-row" role="group" aria-label="Guest detail filters">
+        <label>
+          <span className="sr-only">Side</span>
+          <select
+            value={guestFacets.side}
+            onChange={(event) =>
+              setGuestFacets((current) => ({
+                ...current,
+                side: event.target.value as GuestFacets["side"],
+              }))
+            }
+          >
+            <option value="all">All sides</option>
+            {GUEST_SIDES.map((side) => (
+              <option key={side} value={side}>
+                {side}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className="sr-only">Age group</span>
+          <select
+            value={guestFacets.ageGroup}
+            onChange={(event) =>
+              setGuestFacets((current) => ({
+                ...current,
+                ageGroup: event.target.value as GuestFacets["ageGroup"],
+              }))
+            }
+          >
+            <option value="all">All ages</option>
+            {AGE_GROUPS.map((ageGroup) => (
+              <option key={ageGroup} value={ageGroup}>
+                {ageGroup}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className="sr-only">Meal choice</span>
+          <select
+            value={guestFacets.meal}
+            onChange={(event) =>
+              setGuestFacets((current) => ({ ...current, meal: event.target.value }))
+            }
+          >
+            <option value="all">All meals</option>
+            <option value="none">No meal yet</option>
+            {mealOptions.map((meal) => (
+              <option key={meal} value={meal}>
+                {meal}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          className={`chip-button ${guestFacets.dietaryOnly ? "is-active" : ""}`}
+          aria-pressed={guestFacets.dietaryOnly}
+          onClick={() =>
+            setGuestFacets((current) => ({ ...current, dietaryOnly: !current.dietaryOnly }))
+          }
+        >
+          Dietary needs
+        </button>
+      </div>
+
       {filteredGuests.length > 0 ? (
         <ul className="guest-list" role="list">
           {filteredGuests.map((guest) => {
             const isSelected = selectedGuestId === guest.id;
-            const statusClass = `rsvp-${guest.rsvp_status.toLowerCase()}`;
+            const status = guestStatus(guest);
+            const statusClass = `rsvp-${status.toLowerCase()}`;
+            const details = describeGuest(
+              guest,
+              guest.household_id ? householdNames.get(guest.household_id) ?? null : null,
+            );
 
             return (
               <li
@@ -801,10 +1331,33 @@ function App() {
                 <span className="guest-meta">
                   <span className="guest-name">{guest.name}</span>
                   <span className="guest-contact">{guest.contact}</span>
+                  {details.length > 0 ? (
+                    <span className="guest-details">{details.join(" · ")}</span>
+                  ) : null}
+                  {isSelected && guest.accessibility_notes ? (
+                    <span className="guest-details">
+                      Accessibility: {guest.accessibility_notes}
+                    </span>
+                  ) : null}
+                  {isSelected && guest.rsvp_note ? (
+                    <span className="guest-details">RSVP note: {guest.rsvp_note}</span>
+                  ) : null}
                 </span>
-                <span className={`rsvp-pill ${statusClass}`}>{statusLabel(guest.rsvp_status)}</span>
+                <span className={`rsvp-pill ${statusClass}`}>{statusLabel(status)}</span>
                 {isSelected ? (
                   <span className="guest-inline-actions">
+                    {rsvpLinks.has(guest.id) ? (
+                      <button
+                        type="button"
+                        className="icon-btn tiny"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          void copyRsvpLink(guest, rsvpLinks.get(guest.id) ?? "");
+                        }}
+                      >
+                        Copy RSVP link
+                      </button>
+                    ) : null}
                     <button
                       type="button"
                       className="icon-btn tiny"
@@ -820,7 +1373,7 @@ function App() {
                       className="icon-btn tiny"
                       onClick={(event) => {
                         event.stopPropagation();
-                        setStatusMessage(`Remove flow for ${guest.name} is ready.`);
+                        void handleRemoveGuest(guest);
                       }}
                     >
                       Remove
@@ -837,27 +1390,71 @@ function App() {
     </section>
   );
 
+  const scheduleItems = data.schedule.filter((item) => item.event_id === selectedEventId);
+
   const scheduleCard = (
     <section
       className={`card card-schedule ${activeView === "schedule" ? "is-active" : ""}`}
       aria-labelledby="schedule-title"
     >
       <div className="card-header">
-        <h2 id="schedule-title">Schedule</h2>
+        <h2 id="schedule-title">
+          {data.events.length > 0
+            ? `Schedule · ${selectedEvent?.name ?? "Wedding day"}`
+            : "Schedule"}
+        </h2>
         <button type="button" className="btn btn-ghost btn-sm">
           + Add item
         </button>
       </div>
 
-      {data.schedule.length > 0 ? (
+      {scheduleItems.length > 0 ? (
         <ol className="timeline" role="list">
-          {data.schedule.map((item) => (
-            <li key={item.id} className="timeline-item">
-              <span className="timeline-time">{item.time}</span>
-              <span className="timeline-dot" aria-hidden="true" />
-              <span className="timeline-description">{item.description}</span>
-            </li>
-          ))}
+          {scheduleItems.map((item) => {
+            const overlaps = data.scheduleIssues.filter(
+              (issue) => issue.type === "overlap" && issue.item_ids.includes(item.id),
+            );
+            const gapAfter = data.scheduleIssues.find(
+              (issue) => issue.type === "gap" && issue.item_ids[1] === item.id,
+            );
+            const details = [
+              item.duration_minutes ? formatDuration(item.duration_minutes) : null,
+              item.location,
+              item.owner,
+            ].filter(Boolean);
+
+            return (
+              <Fragment key={item.id}>
+                {gapAfter ? (
+                  <li className="timeline-gap" aria-label={gapAfter.message}>
+                    {formatDuration(gapAfter.minutes)} free
+                  </li>
+                ) : null}
+                <li
+                  className={`timeline-item ${overlaps.length > 0 ? "has-conflict" : ""} ${
+                    output.schedule_item_id === item.id ? "is-selected" : ""
+                  }`}
+                >
+                  <span className="timeline-time">
+                    {item.time}
+                    {item.end_time ? <small>{item.end_time}</small> : null}
+                  </span>
+                  <span className="timeline-dot" aria-hidden="true" />
+                  <span className="timeline-body">
+                    <span className="timeline-description">{item.description}</span>
+                    {details.length > 0 ? (
+                      <span className="timeline-details">{details.join(" · ")}</span>
+                    ) : null}
+                    {overlaps.map((issue) => (
+                      <span key={issue.message} className="timeline-conflict">
+                        {issue.message}
+                      </span>
+                    ))}
+                  </span>
+                </li>
+              </Fragment>
+            );
+          })}
         </ol>
       ) : (
         <div className="empty-panel">
@@ -871,49 +1468,270 @@ function App() {
   );
 
   const budgetCard = (
-    <section className="card card-budget" aria-labelledby="budget-title">
+    <section
+      className={`card card-budget ${activeView === "budget" ? "is-active" : ""} ${
+        data.budget.over_budget ? "is-over-budget" : ""
+      }`}
+      aria-labelledby="budget-title"
+    >
       <div className="card-header">
         <h2 id="budget-title">Budget overview</h2>
-        <button type="button" className="icon-btn" aria-label="Edit budget">
-          Edit
-        </button>
+        <span className="chip">{data.expenses.length} expenses</span>
       </div>
 
       <p className="budget-summary">
         <strong>
-          {formatUsd(spentBudget)} / {formatUsd(totalBudget)} used
+          {totalBudget > 0
+            ? `${formatUsd(spentBudget)} / ${formatUsd(totalBudget)} used`
+            : `${formatUsd(spentBudget)} committed, no budget set`}
         </strong>
       </p>
+      <p className="budget-paid muted">
+        {formatUsd(data.budget.paid)} paid, {formatUsd(data.budget.unpaid)} still owed
+      </p>
 
       <div
         className="progress-track small"
         role="progressbar"
         aria-valuemin={0}
         aria-valuemax={100}
-        aria-valuenow={budgetProgress}
+        aria-valuenow={budgetFill}
         aria-label="Budget spend progress"
       >
-        <span className="progress-fill" style={{ width: `${budgetProgress}%` }} />
+        <span className="progress-fill" style={{ width: `${budgetFill}%` }} />
       </div>
 
-      <div className="budget-body">
-        <ul className="budget-breakdown" role="list">
-          {budgetCategories.map((item) => (
-            <li key={item.label}>
-              <span>{formatUsd(item.value)}</span>
-              <span>{item.label}</span>
-            </li>
+      {data.budget.warnings.length > 0 ? (
+        <ul className="budget-warnings" role="list">
+          {data.budget.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
           ))}
         </ul>
+      ) : null}
+
+      <div className="budget-body">
+        {data.budget.categories.length > 0 ? (
+          <ul className="budget-breakdown" role="list">
+            {data.budget.categories.map((item) => (
+              <li key={item.category} className={item.over_budget ? "is-over" : ""}>
+                <span>
+                  {formatUsd(item.spent)}
+                  {item.allocated > 0 ? ` / ${formatUsd(item.allocated)}` : ""}
+                </span>
+                <span>{item.category}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="muted">No expenses recorded yet.</p>
+        )}
 
         <div className="budget-donut" style={budgetDonutStyle} aria-hidden="true">
           <span>{budgetProgress}%</span>
         </div>
       </div>
+    </section>
+  );
+
+  const vendorsCard = (
+    <section
+      className={`card card-vendors ${activeView === "vendors" ? "is-active" : ""}`}
+      aria-labelledby="vendors-title"
+    >
+      <div className="card-header">
+        <h2 id="vendors-title">Vendors</h2>
+        <span className="chip">
+          {bookedVendorCount}/{data.vendors.length} booked
+        </span>
+      </div>
+
+      {data.vendors.length > 0 ? (
+        <ul className="vendor-list" role="list">
+          {data.vendors.map((vendor) => {
+            const dates = describeVendorDates(vendor);
+
+            return (
+              <li
+                key={vendor.id}
+                className={`vendor-row ${output.vendor_id === vendor.id ? "is-selected" : ""}`}
+              >
+                <span className="vendor-meta">
+                  <span className="vendor-name">{vendor.name}</span>
+                  <span className="vendor-category">
+                    {vendor.category}
+                    {vendor.contact_name ? ` · ${vendor.contact_name}` : ""}
+                    {vendor.quote !== null ? ` · Quote ${formatUsd(vendor.quote)}` : ""}
+                  </span>
+                  {dates ? <span className="vendor-dates">{dates}</span> : null}
+                </span>
+                <span
+                  className={`vendor-status status-${vendor.contract_status.toLowerCase()}`}
+                >
+                  {vendor.contract_status}
+                </span>
+                {vendor.website ? (
+                  <button
+                    type="button"
+                    className="icon-btn tiny"
+                    onClick={() => {
+                      if (vendor.website) {
+                        window.openai?.openExternal?.({ href: vendor.website });
+                      }
+                    }}
+                  >
+                    Open
+                  </button>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="muted">
+          No vendors yet. Save a venue search result or ask ChatGPT to add one.
+        </p>
+      )}
+    </section>
+  );
+
+  const guestNames = new Map(data.guests.map((guest) => [guest.id, guest.name]));
+  const seatingIssues = output.seating_report?.issues ?? [];
+
+  function renderSeatMover(guestId: string, tableId: string | null) {
+    return (
+      <li key={guestId} className="seat-guest">
+        <span className="seat-guest-name">{guestNames.get(guestId) ?? guestId}</span>
+        <label>
+          <span className="sr-only">Move {guestNames.get(guestId) ?? guestId}</span>
+          <select
+            value={tableId ?? ""}
+            disabled={movingGuestIds.includes(guestId)}
+            onChange={(event) =>
+              void moveGuestToTable(guestId, event.target.value || null)
+            }
+          >
+            <option value="">Unassigned</option>
+            {data.seating.tables.map((table) => (
+              <option key={table.id} value={table.id}>
+                {table.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </li>
+    );
+  }
+
+  const seatingCard = (
+    <section
+      className={`card card-seating ${activeView === "seating" ? "is-active" : ""}`}
+      aria-labelledby="seating-title"
+    >
+      <div className="card-header">
+        <h2 id="seating-title">Seating</h2>
+        <button
+          type="button"
+          className="btn btn-ghost btn-sm"
+          disabled={isAutoSeating || data.seating.tables.length === 0}
+          onClick={() => void handleAutoSeat()}
+        >
+          {isAutoSeating ? "Seating…" : "Auto-seat"}
+        </button>
+      </div>
+
+      {seatingIssues.length > 0 ? (
+        <ul className="budget-warnings" role="list">
+          {seatingIssues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      {data.seating.tables.length > 0 ? (
+        <div className="seating-grid">
+          {data.seating.tables.map((table) => (
+            <div
+              key={table.id}
+              className={`seating-table shape-${table.shape.toLowerCase()} ${
+                table.seats_used >= table.capacity ? "is-full" : ""
+              }`}
+            >
+              <div className="seating-table-header">
+                <strong>{table.name}</strong>
+                <span className="chip">
+                  {table.seats_used}/{table.capacity}
+                </span>
+              </div>
+              {table.guest_ids.length > 0 ? (
+                <ul className="seat-list" role="list">
+                  {table.guest_ids.map((guestId) => renderSeatMover(guestId, table.id))}
+                </ul>
+              ) : (
+                <p className="muted">Empty</p>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="muted">No tables yet. Ask ChatGPT to add tables to start seating.</p>
+      )}
+
+      {data.seating.unassigned_guest_ids.length > 0 ? (
+        <div className="seating-unassigned">
+          <h3>Confirmed, not seated ({data.seating.unassigned_guest_ids.length})</h3>
+          <ul className="seat-list" role="list">
+            {data.seating.unassigned_guest_ids.map((guestId) =>
+              renderSeatMover(guestId, null),
+            )}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+
+  const activityCard = (
+    <section
+      className={`card card-activity ${activeView === "activity" ? "is-active" : ""}`}
+      aria-labelledby="activity-title"
+    >
+      <div className="card-header">
+        <h2 id="activity-title">Activity</h2>
+        <span className="chip">{data.activity.length} recent</span>
+      </div>
 
-      <button type="button" className="btn btn-ghost btn-sm">
-        Connect spreadsheet
-      </button>
+      {data.activity.length > 0 ? (
+        <ul className="activity-list" role="list">
+          {data.activity.map((entry) => (
+            <li
+              key={entry.id}
+              className={`activity-row ${entry.reverted_by ? "is-reverted" : ""} ${
+                output.change_id === entry.id ? "is-selected" : ""
+              }`}
+            >
+              <span className="activity-meta">
+                <span className="activity-summary">{entry.summary}</span>
+                <span className="activity-details">
+                  {formatActivityTime(entry.at)}
+                  {entry.tool ? ` · ${entry.tool}` : ""}
+                  {entry.reverted_by ? " · undone" : ""}
+                </span>
+              </span>
+              {entry.can_revert ? (
+                <button
+                  type="button"
+                  className="icon-btn tiny"
+                  disabled={revertingChangeId !== null}
+                  onClick={() => void revertActivity(entry)}
+                >
+                  {revertingChangeId === entry.id ? "Undoing…" : "Undo"}
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="muted">Changes made to the plan will show up here.</p>
+      )}
     </section>
   );
 
@@ -1012,9 +1830,13 @@ function App() {
             <span className="brand-dot dot-sm" />
             <span className="brand-dot dot-md" />
           </div>
-          <p className="eyebrow">Wedding Planner MVP</p>
+          <p className="eyebrow">{data.wedding?.name ?? "Wedding Planner MVP"}</p>
           <h1>Planning dashboard</h1>
-          <p className="subtitle">A romantic overview for your special day</p>
+          <p className="subtitle">
+            {isViewOnly
+              ? "View only: ask a wedding owner for planner access to make changes"
+              : "A romantic overview for your special day"}
+          </p>
 
           <div className="progress-inline" aria-live="polite">
             <p className="progress-copy">
@@ -1031,9 +1853,11 @@ function App() {
               <span className="progress-fill" style={progressStyle} />
             </div>
             <ul className="progress-metrics" role="list">
+              {countdownLabel ? <li>{countdownLabel}</li> : null}
               <li>{`${completedTaskCount}/${taskItems.length || 0} tasks done`}</li>
               <li>{`${respondedGuestCount}/${guests.length || 0} RSVPs in`}</li>
               <li>{venueBooked ? "Venue booked" : "Venue pending"}</li>
+              <li>{`${bookedVendorCount} vendors booked`}</li>
             </ul>
           </div>
         </div>
@@ -1054,11 +1878,31 @@ function App() {
         </p>
       ) : null}
 
+      {toolError ? (
+        <div className="notice notice-error" role="alert">
+          <p>{toolError.message}</p>
+          {toolError.fields.length > 0 ? (
+            <ul>
+              {toolError.fields.map((field) => (
+                <li key={`${field.path}:${field.message}`}>
+                  {field.path ? `${field.path}: ${field.message}` : field.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          <button type="button" className="btn btn-ghost" onClick={() => setToolError(null)}>
+            Dismiss
+          </button>
+        </div>
+      ) : null}
+
       <main className="dashboard-main">
         <section className="dashboard-column primary-column">
           {eventCard}
           {progressCardMobile}
           {tasksCard}
+          {vendorsCard}
+          {seatingCard}
           {invitationCard}
         </section>
 
@@ -1066,6 +1910,7 @@ function App() {
           {guestsCard}
           {scheduleCard}
           {budgetCard}
+          {activityCard}
         </aside>
       </main>
 
@@ -1088,6 +1933,27 @@ function App() {
         <button type="button" className="btn btn-ghost" onClick={handleExportPdf}>
           Export PDF
         </button>
+        <label className="export-select">
+          <span className="sr-only">Export a file</span>
+          <select
+            className="btn btn-ghost"
+            value=""
+            disabled={exportingFormat !== null}
+            onChange={(event) => {
+              const format = event.target.value as ExportFormat;
+              if (format) {
+                void handleExportFile(format);
+              }
+            }}
+          >
+            <option value="">{exportingFormat ? "Exporting..." : "Export file..."}</option>
+            {EXPORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
         <span className={`toolbar-progress ${overallProgress === 100 ? "is-complete" : ""}`}>
           {overallProgress}% complete - {actionItemsLeft} items left
         </span>
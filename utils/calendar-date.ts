@@ -0,0 +1,245 @@
+// Calendar dates are plain "YYYY-MM-DD" strings. Arithmetic happens in UTC so
+// no local time zone or daylight-saving shift can move a date by a day.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+export type DateUnit = "days" | "weeks" | "months";
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+function parseIsoParts(date: string): [number, number, number] {
+  const [year, month, day] = date.split("-").map(Number);
+  return [year, month, day];
+}
+
+function monthFromName(name: string): number | null {
+  const lower = name.toLowerCase();
+
+  if (lower.length < 3) {
+    return null;
+  }
+
+  const index = MONTHS.findIndex((month) => month.startsWith(lower));
+  return index >= 0 ? index + 1 : null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+// Offset of `timeZone` from UTC at `instant`, in milliseconds.
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second"),
+  );
+
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant a wall-clock time on `date` happens in `timeZone`. The offset
+// is checked twice so times next to a daylight-saving switch land correctly.
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = parseIsoParts(date);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const guess = wallClock - timeZoneOffset(wallClock, timeZone);
+
+  return new Date(wallClock - timeZoneOffset(guess, timeZone));
+}
+
+export function addToDate(date: string, amount: number, unit: DateUnit): string {
+  const [year, month, day] = parseIsoParts(date);
+
+  if (unit === "months") {
+    // Clamp to the last day of the target month (Jan 31 + 1 month = Feb 28).
+    const target = new Date(Date.UTC(year, month - 1 + amount, 1));
+    const lastDay = new Date(
+      Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+  }
+
+  const days = unit === "weeks" ? amount * 7 : amount;
+  return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = parseIsoParts(from);
+  const [toYear, toMonth, toDay] = parseIsoParts(to);
+
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) /
+      MS_PER_DAY,
+  );
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+export function parseAmount(text: string): number | null {
+  const lower = text.toLowerCase();
+
+  if (/^\d+$/.test(lower)) {
+    return Number(lower);
+  }
+
+  return NUMBER_WORDS[lower] ?? null;
+}
+
+export function normalizeUnit(text: string): DateUnit | null {
+  const lower = text.toLowerCase().replace(/s$/, "");
+
+  if (lower === "day") {
+    return "days";
+  }
+  if (lower === "week") {
+    return "weeks";
+  }
+  if (lower === "month") {
+    return "months";
+  }
+
+  return null;
+}
+
+// Parses an absolute or today-relative date into "YYYY-MM-DD". Accepts ISO
+// dates, month names ("June 12, 2027", "12 June 2027", "Jun 12"), US numeric
+// dates ("6/12/2027"), and "today", "tomorrow" or "in 3 weeks". Dates without
+// a year resolve to their next occurrence. Returns null when nothing matches.
+export function parseCalendarDate(input: string, today: string): string | null {
+  const text = input
+    .trim()
+    .toLowerCase()
+    .replace(/(\d)(st|nd|rd|th)\b/g, "$1")
+    .replace(/,/g, " ")
+    .replace(/\s+/g, " ");
+
+  if (text === "today") {
+    return today;
+  }
+
+  if (text === "tomorrow") {
+    return addToDate(today, 1, "days");
+  }
+
+  const relative = /^in (\w+) (days?|weeks?|months?)$/.exec(text);
+  if (relative) {
+    const amount = parseAmount(relative[1]);
+    const unit = normalizeUnit(relative[2]);
+    return amount !== null && unit ? addToDate(today, amount, unit) : null;
+  }
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const numeric = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (numeric) {
+    return toIsoDate(Number(numeric[3]), Number(numeric[1]), Number(numeric[2]));
+  }
+
+  const monthFirst = /^([a-z]+) (\d{1,2})(?: (\d{4}))?$/.exec(text);
+  const dayFirst = /^(\d{1,2}) ([a-z]+)(?: (\d{4}))?$/.exec(text);
+  const named = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst
+      ? { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] }
+      : null;
+
+  if (!named) {
+    return null;
+  }
+
+  const month = monthFromName(named.month);
+  if (month === null) {
+    return null;
+  }
+
+  if (named.year) {
+    return toIsoDate(Number(named.year), month, Number(named.day));
+  }
+
+  const [currentYear] = parseIsoParts(today);
+  const thisYear = toIsoDate(currentYear, month, Number(named.day));
+
+  if (thisYear && thisYear >= today) {
+    return thisYear;
+  }
+
+  return toIsoDate(currentYear + 1, month, Number(named.day));
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { configureDefaultPhoneRegion, contactKey, parseContact } from "./contact";
+
+describe("parseContact", () => {
+  it("lowercases email addresses", () => {
+    assert.deepEqual(parseContact(" Ann.Lee@Example.COM "), {
+      type: "email",
+      value: "ann.lee@example.com",
+    });
+    assert.deepEqual(parseContact("mailto:bo@example.com"), {
+      type: "email",
+      value: "bo@example.com",
+    });
+    assert.equal(parseContact("ann@example"), null);
+  });
+
+  it("writes phone numbers in E.164, reading national numbers as US by default", () => {
+    for (const phone of ["(512) 555-0100", "512.555.0100", "1 512 555 0100", "+1 512-555-0100"]) {
+      assert.deepEqual(parseContact(phone), { type: "phone", value: "+15125550100" }, phone);
+    }
+    assert.equal(parseContact("011 44 20 7946 0958")?.value, "+442079460958");
+    assert.equal(parseContact("0044 20 7946 0958")?.value, "+442079460958");
+  });
+
+  it("reads national numbers in the region it is given", () => {
+    assert.equal(parseContact("020 7946 0958", "GB")?.value, "+442079460958");
+    assert.equal(parseContact("06 12 34 56 78", "fr")?.value, "+33612345678");
+    assert.equal(parseContact("333 123 4567", "IT")?.value, "+393331234567");
+  });
+
+  it("returns null for values that are neither", () => {
+    assert.equal(parseContact("555-0100"), null);
+    assert.equal(parseContact("123-456-7890"), null);
+    assert.equal(parseContact("+1234"), null);
+    assert.equal(parseContact("call Ann"), null);
+  });
+});
+
+describe("contactKey", () => {
+  it("compares contacts by their canonical form", () => {
+    assert.equal(contactKey("(512) 555-0100"), contactKey("+15125550100"));
+    assert.equal(contactKey("ANN@example.com"), "ann@example.com");
+    assert.equal(contactKey(" Front Desk "), "front desk");
+  });
+});
+
+describe("configureDefaultPhoneRegion", () => {
+  it("refuses regions it cannot read numbers in", () => {
+    assert.throws(() => configureDefaultPhoneRegion("XX"), /Unsupported phone region "XX"/);
+  });
+});
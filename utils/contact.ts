@@ -0,0 +1,150 @@
+// Classifies contact details as an email address or a phone number and puts
+// them in one canonical form, so the same person entered twice compares
+// equal: emails are lowercased and phone numbers are written in E.164
+// ("+15125550100").
+
+export type ContactType = "email" | "phone";
+
+export type ParsedContact = {
+  type: ContactType;
+  value: string;
+};
+
+type PhoneRegion = {
+  callingCode: string;
+  // Digit dialled before national numbers inside the country, dropped in
+  // E.164.
+  trunkPrefix: string | null;
+  nationalLengths: [number, number];
+};
+
+// Regions numbers without a country code can be read in. Everything else
+// needs a leading "+" or international prefix.
+const PHONE_REGIONS: Record<string, PhoneRegion> = {
+  US: { callingCode: "1", trunkPrefix: "1", nationalLengths: [10, 10] },
+  CA: { callingCode: "1", trunkPrefix: "1", nationalLengths: [10, 10] },
+  GB: { callingCode: "44", trunkPrefix: "0", nationalLengths: [9, 10] },
+  IE: { callingCode: "353", trunkPrefix: "0", nationalLengths: [7, 9] },
+  FR: { callingCode: "33", trunkPrefix: "0", nationalLengths: [9, 9] },
+  DE: { callingCode: "49", trunkPrefix: "0", nationalLengths: [6, 11] },
+  NL: { callingCode: "31", trunkPrefix: "0", nationalLengths: [9, 9] },
+  BE: { callingCode: "32", trunkPrefix: "0", nationalLengths: [8, 9] },
+  CH: { callingCode: "41", trunkPrefix: "0", nationalLengths: [9, 9] },
+  AT: { callingCode: "43", trunkPrefix: "0", nationalLengths: [6, 13] },
+  // Italian and Spanish numbers keep their leading digits in E.164.
+  IT: { callingCode: "39", trunkPrefix: null, nationalLengths: [6, 11] },
+  ES: { callingCode: "34", trunkPrefix: null, nationalLengths: [9, 9] },
+  PT: { callingCode: "351", trunkPrefix: null, nationalLengths: [9, 9] },
+  SE: { callingCode: "46", trunkPrefix: "0", nationalLengths: [7, 9] },
+  NO: { callingCode: "47", trunkPrefix: null, nationalLengths: [8, 8] },
+  DK: { callingCode: "45", trunkPrefix: null, nationalLengths: [8, 8] },
+  AU: { callingCode: "61", trunkPrefix: "0", nationalLengths: [9, 9] },
+  NZ: { callingCode: "64", trunkPrefix: "0", nationalLengths: [8, 10] },
+  IN: { callingCode: "91", trunkPrefix: "0", nationalLengths: [10, 10] },
+  MX: { callingCode: "52", trunkPrefix: null, nationalLengths: [10, 10] },
+  BR: { callingCode: "55", trunkPrefix: "0", nationalLengths: [10, 11] },
+  JP: { callingCode: "81", trunkPrefix: "0", nationalLengths: [9, 10] },
+  ZA: { callingCode: "27", trunkPrefix: "0", nationalLengths: [9, 9] },
+};
+
+export const PHONE_REGION_CODES = Object.keys(PHONE_REGIONS);
+
+let defaultPhoneRegion = "US";
+
+export function configureDefaultPhoneRegion(region: string) {
+  const code = region.trim().toUpperCase();
+
+  if (!PHONE_REGIONS[code]) {
+    throw new Error(
+      `Unsupported phone region "${region}". Use one of: ${PHONE_REGION_CODES.join(", ")}.`,
+    );
+  }
+
+  defaultPhoneRegion = code;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:".]{2,}$/;
+
+// E.164 allows at most 15 digits including the country code.
+const MAX_E164_DIGITS = 15;
+const MIN_INTERNATIONAL_DIGITS = 8;
+
+function parseEmail(value: string): string | null {
+  const email = value
+    .replace(/^mailto:/i, "")
+    .trim()
+    .toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+function parsePhone(value: string, region: PhoneRegion): string | null {
+  // Spaces, dashes, dots, slashes and brackets are only visual grouping.
+  const compact = value
+    .replace(/^tel:/i, "")
+    .trim()
+    .replace(/[\s\-./()]/g, "");
+
+  let international: string | null = null;
+  if (compact.startsWith("+")) {
+    international = compact.slice(1);
+  } else if (compact.startsWith("00")) {
+    international = compact.slice(2);
+  } else if (region.callingCode === "1" && compact.startsWith("011")) {
+    international = compact.slice(3);
+  }
+
+  if (international !== null) {
+    return /^[1-9]\d*$/.test(international) &&
+      international.length >= MIN_INTERNATIONAL_DIGITS &&
+      international.length <= MAX_E164_DIGITS
+      ? `+${international}`
+      : null;
+  }
+
+  if (!/^\d+$/.test(compact)) {
+    return null;
+  }
+
+  const [minLength, maxLength] = region.nationalLengths;
+  let national = compact;
+  if (
+    region.trunkPrefix &&
+    national.startsWith(region.trunkPrefix) &&
+    national.length > minLength
+  ) {
+    national = national.slice(region.trunkPrefix.length);
+  }
+
+  if (national.length < minLength || national.length > maxLength) {
+    return null;
+  }
+
+  // North American area codes and exchanges never start with 0 or 1.
+  if (region.callingCode === "1" && !/^[2-9]\d{2}[2-9]/.test(national)) {
+    return null;
+  }
+
+  return `+${region.callingCode}${national}`;
+}
+
+// Returns null when the value is neither a plausible email address nor a
+// phone number. `region` is the ISO country code numbers without a country
+// code are read in; it defaults to the configured region.
+export function parseContact(value: string, region = defaultPhoneRegion): ParsedContact | null {
+  const trimmed = value.trim();
+
+  if (trimmed.includes("@")) {
+    const email = parseEmail(trimmed);
+    return email ? { type: "email", value: email } : null;
+  }
+
+  const phoneRegion = PHONE_REGIONS[region.toUpperCase()] ?? PHONE_REGIONS[defaultPhoneRegion];
+  const phone = parsePhone(trimmed, phoneRegion);
+  return phone ? { type: "phone", value: phone } : null;
+}
+
+// Comparison key for contacts that may predate validation: the canonical
+// form when the value parses, otherwise the trimmed, lowercased text.
+export function contactKey(value: string): string {
+  return parseContact(value)?.value ?? value.trim().toLowerCase();
+}
@@ -0,0 +1,36 @@
+// Text encoding shared by vCard (RFC 6350) and iCalendar (RFC 5545), which
+// use the same "content line" format.
+
+export function escapeText(value: string): string {
+  return value.replace(/[\\,;]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded with CRLF + space, between code
+// points so no UTF-8 sequence is split.
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    // Continuation lines lose one octet to the leading space.
+    const limit = parts.length === 0 ? 75 : 74;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function joinContentLines(lines: string[]): string {
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
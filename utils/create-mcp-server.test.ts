@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod/v3";
+import { createMcpServer } from "./create-mcp-server";
+import { defineTool, type ToolContext, type ToolDefinition } from "./define-tool";
+import type { Logger } from "./logger";
+import { ForbiddenError, NotFoundError } from "./tool-errors";
+import { createWidgetCatalog } from "./widget-catalog";
+
+const annotations = { readOnlyHint: true, openWorldHint: false, destructiveHint: false };
+
+const testTools = [
+  defineTool({
+    name: "findGuest",
+    title: "Find Guest",
+    description: "Looks up a guest.",
+    annotations,
+    input: z.object({ guest_id: z.string().min(1), limit: z.number().int().optional() }),
+    output: z.object({ name: z.string(), caller: z.string().nullable() }),
+    invoking: "Finding guest",
+    invoked: "Guest found",
+    async handler(input, context) {
+      if (input.guest_id !== "guest_1") {
+        throw new NotFoundError(`Guest with id "${input.guest_id}" was not found.`);
+      }
+      return {
+        content: [{ type: "text", text: "Ann" }],
+        structuredContent: { name: "Ann", caller: context.userId },
+      };
+    },
+  }),
+  defineTool({
+    name: "readStorage",
+    title: "Read Storage",
+    description: "Fails the way a broken disk would.",
+    annotations,
+    input: z.object({}),
+    invoking: "Reading",
+    invoked: "Read",
+    async handler() {
+      throw new Error("EACCES: permission denied, open '/var/lib/planner/wedding_1.json'");
+    },
+  }),
+  defineTool({
+    name: "driftingOutput",
+    title: "Drifting Output",
+    description: "Returns something other than what it publishes.",
+    annotations,
+    input: z.object({}),
+    output: z.object({ count: z.number() }),
+    invoking: "Counting",
+    invoked: "Counted",
+    async handler() {
+      return {
+        content: [{ type: "text", text: "many" }],
+        structuredContent: { count: "many" } as unknown as { count: number },
+      };
+    },
+  }),
+];
+
+function recordingLogger() {
+  const errors: unknown[][] = [];
+  const logger: Logger = { log() {}, warn() {}, error: (...args) => errors.push(args) };
+  return { logger, errors };
+}
+
+async function connectClient(
+  options: {
+    logger?: Logger;
+    trustHostSubject?: boolean;
+    authorizeToolCall?: (tool: ToolDefinition, context: ToolContext) => void;
+  } = {},
+) {
+  const server = createMcpServer({
+    name: "test",
+    version: "1.0.0",
+    widgetCatalog: createWidgetCatalog(testTools, [], "assets"),
+    validateToolOutput: true,
+    logger: options.logger ?? recordingLogger().logger,
+    trustHostSubject: options.trustHostSubject,
+    authorizeToolCall: options.authorizeToolCall,
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe("createMcpServer tool errors", () => {
+  it("returns tool errors as isError results with a code and hint", async () => {
+    const { logger, errors } = recordingLogger();
+    const client = await connectClient({ logger });
+
+    const result = await client.callTool({
+      name: "findGuest",
+      arguments: { guest_id: "guest_9" },
+    });
+
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.structuredContent, {
+      error: {
+        code: "not_found",
+        message: 'Guest with id "guest_9" was not found.',
+        hint: "The id may be stale or mistyped. Use an id from the latest planner data instead of guessing one.",
+        fields: [],
+      },
+    });
+    assert.deepEqual(errors, []);
+    await client.close();
+  });
+
+  it("lists the arguments that fail the input schema", async () => {
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "findGuest",
+      arguments: { guest_id: "", limit: 1.5 },
+    });
+    const content = result.content as Array<{ text: string }>;
+
+    assert.equal(result.isError, true);
+    assert.deepEqual(
+      (result.structuredContent as { error: { fields: Array<{ path: string }> } }).error.fields.map(
+        (field) => field.path,
+      ),
+      ["guest_id", "limit"],
+    );
+    assert.match(content[0].text, /^The arguments for findGuest are invalid\.\n- guest_id: /);
+    await client.close();
+  });
+
+  it("keeps unexpected error details in the log", async () => {
+    const { logger, errors } = recordingLogger();
+    const client = await connectClient({ logger });
+
+    const result = await client.callTool({ name: "readStorage", arguments: {} });
+
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.structuredContent, {
+      error: { code: "failed", message: "readStorage failed.", hint: null, fields: [] },
+    });
+    assert.doesNotMatch(JSON.stringify(result), /EACCES/);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0][0], "Tool readStorage failed");
+    await client.close();
+  });
+
+  it("fails calls whose output drifts from the published schema", async () => {
+    const { logger, errors } = recordingLogger();
+    const client = await connectClient({ logger });
+
+    const result = await client.callTool({ name: "driftingOutput", arguments: {} });
+
+    assert.equal(result.isError, true);
+    assert.match(
+      String((errors[0][1] as Error).message),
+      /driftingOutput returned structuredContent that does not match its output schema \(count: /,
+    );
+    await client.close();
+  });
+
+  it("reports calls the authorizer refuses", async () => {
+    const { logger, errors } = recordingLogger();
+    const client = await connectClient({
+      logger,
+      authorizeToolCall(tool) {
+        throw new ForbiddenError(`${tool.title} needs owner access to this wedding.`);
+      },
+    });
+
+    const result = await client.callTool({ name: "findGuest", arguments: { guest_id: "guest_1" } });
+
+    assert.equal(result.isError, true);
+    assert.equal((result.structuredContent as { error: { code: string } }).error.code, "forbidden");
+    assert.deepEqual(errors, []);
+    await client.close();
+  });
+});
+
+describe("createMcpServer callers", () => {
+  it("only trusts the host's subject when told to", async () => {
+    const call = { name: "findGuest", arguments: { guest_id: "guest_1" } };
+    const meta = { _meta: { "openai/subject": "host-user" } };
+    const untrusted = await connectClient();
+    const trusted = await connectClient({ trustHostSubject: true });
+
+    assert.deepEqual((await untrusted.callTool({ ...call, ...meta })).structuredContent, {
+      name: "Ann",
+      caller: null,
+    });
+    assert.deepEqual((await trusted.callTool({ ...call, ...meta })).structuredContent, {
+      name: "Ann",
+      caller: "host-user",
+    });
+    await untrusted.close();
+    await trusted.close();
+  });
+});
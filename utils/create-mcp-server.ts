@@ -11,14 +11,72 @@ import {
   type ListToolsRequest,
   type ReadResourceRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import { ZodError } from "zod/v3";
+import type { ToolContext, ToolDefinition } from "./define-tool";
+import type { Logger } from "./logger";
+import { createToolErrorResponse, ToolError } from "./tool-errors";
 import type { WidgetCatalog } from "./widget-catalog";
 
 type CreateMcpServerOptions = {
   name: string;
   version: string;
   widgetCatalog: WidgetCatalog;
+  // Runs before every tool handler with the parsed call context; throw (a
+  // ForbiddenError) to refuse the call.
+  authorizeToolCall?: (tool: ToolDefinition, context: ToolContext) => void | Promise<void>;
+  // Check structuredContent against the tool's output schema, so a handler
+  // drifting from what it publishes fails loudly during development.
+  validateToolOutput?: boolean;
+  // Receives failures that are not the caller's fault; defaults to console.
+  logger?: Logger;
+  // Take the caller from `_meta["openai/subject"]` when the request carries no
+  // authenticated subject. The client sets that value, so anyone can claim to
+  // be anybody; only for servers reachable by a trusted host alone.
+  trustHostSubject?: boolean;
 };
 
+type CallToolExtra = {
+  authInfo?: ToolContext["authInfo"];
+  sessionId?: string;
+};
+
+function readSubject(authInfo: ToolContext["authInfo"]): string | null {
+  const subject = authInfo?.extra?.subject;
+  return typeof subject === "string" && subject ? subject : null;
+}
+
+function checkToolOutput(tool: ToolDefinition, structuredContent: unknown) {
+  const result = tool.output?.safeParse(structuredContent);
+
+  if (result && !result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "structuredContent"}: ${issue.message}`,
+    );
+    throw new Error(
+      `${tool.name} returned structuredContent that does not match its output schema (${issues.join("; ")}).`,
+    );
+  }
+}
+
+function createToolContext(
+  request: CallToolRequest,
+  extra: CallToolExtra,
+  trustHostSubject: boolean,
+): ToolContext {
+  const meta: Record<string, unknown> = { ...(request.params._meta ?? {}) };
+  const hostSubject = trustHostSubject ? meta["openai/subject"] : undefined;
+
+  return {
+    userId:
+      readSubject(extra.authInfo) ??
+      (typeof hostSubject === "string" && hostSubject ? hostSubject : null),
+    toolName: request.params.name,
+    sessionId: extra.sessionId,
+    authInfo: extra.authInfo,
+    meta,
+  };
+}
+
 export function createMcpServer(options: CreateMcpServerOptions): Server {
   const server = new Server(
     {
@@ -73,7 +131,7 @@ export function createMcpServer(options: CreateMcpServerOptions): Server {
 
   server.setRequestHandler(
     CallToolRequestSchema,
-    async (request: CallToolRequest) => {
+    async (request: CallToolRequest, extra) => {
       const invocation = options.widgetCatalog.getToolInvocation(
         request.params.name,
       );
@@ -82,13 +140,34 @@ export function createMcpServer(options: CreateMcpServerOptions): Server {
         throw new Error(`Unknown tool: ${request.params.name}`);
       }
 
-      const input = invocation.tool.input.parse(request.params.arguments ?? {});
-      const result = await invocation.tool.handler(input);
+      const context = createToolContext(request, extra, options.trustHostSubject ?? false);
 
-      return {
-        ...result,
-        _meta: invocation.meta,
-      };
+      try {
+        await options.authorizeToolCall?.(invocation.tool, context);
+
+        const input = invocation.tool.input.parse(request.params.arguments ?? {});
+        const result = await invocation.tool.handler(input, context);
+
+        if (options.validateToolOutput) {
+          checkToolOutput(invocation.tool, result.structuredContent);
+        }
+
+        return {
+          ...result,
+          _meta: invocation.meta,
+        };
+      } catch (error) {
+        // Expected failures are reported to the caller only; anything else
+        // is probably a bug and worth a log line too.
+        if (!(error instanceof ToolError) && !(error instanceof ZodError)) {
+          (options.logger ?? console).error(`Tool ${request.params.name} failed`, error);
+        }
+
+        return {
+          ...createToolErrorResponse(request.params.name, error),
+          _meta: invocation.meta,
+        };
+      }
     },
   );
 
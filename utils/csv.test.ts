@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectCsvDelimiter, formatCsv, parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with delimiters, quotes and line breaks", () => {
+    assert.deepEqual(parseCsv('name,note\r\n"Lee, Ann","said ""hi""\nthen left"\r\n\r\nBo,\n'), [
+      ["name", "note"],
+      ["Lee, Ann", 'said "hi"\nthen left'],
+      ["Bo", ""],
+    ]);
+  });
+
+  it("detects semicolon and tab delimited exports", () => {
+    assert.equal(detectCsvDelimiter("Name;Email;Side\nAnn;a@b.c;Mutual"), ";");
+    assert.equal(detectCsvDelimiter("Name\tEmail\n"), "\t");
+    assert.equal(detectCsvDelimiter("Name\n"), ",");
+  });
+
+  it("refuses data that ends inside a quoted field", () => {
+    assert.throws(() => parseCsv('name\n"Ann'), /ends inside a quoted field/);
+  });
+});
+
+describe("formatCsv", () => {
+  it("quotes only the fields that need it and ends records with CRLF", () => {
+    assert.equal(
+      formatCsv([
+        ["Name", "Note"],
+        ["Ann", 'a "quoted", note'],
+        [" Bo", "line\nbreak"],
+      ]),
+      'Name,Note\r\nAnn,"a ""quoted"", note"\r\n" Bo","line\nbreak"\r\n',
+    );
+  });
+
+  it("keeps spreadsheet apps from running cells as formulas", () => {
+    const csv = formatCsv([
+      ['=HYPERLINK("http://evil.example")', "+15125550100", "-1", "@SUM(A1)"],
+    ]);
+
+    assert.equal(csv, `"'=HYPERLINK(""http://evil.example"")",'+15125550100,'-1,'@SUM(A1)\r\n`);
+    assert.ok(csv.split(/[,\r\n]/).every((cell) => !/^"?[=+\-@]/.test(cell)));
+  });
+
+  it("reads its own output back unchanged", () => {
+    const records = [
+      ["=1+1", "+15125550100", "-", "@home", "'quoted'", "plain"],
+      ["Lee, Ann", 'say "hi"', "multi\nline", " padded ", "", "x"],
+    ];
+
+    assert.deepEqual(parseCsv(formatCsv(records)), records);
+  });
+});
@@ -0,0 +1,98 @@
+import { InvalidInputError } from "./tool-errors";
+
+// Minimal RFC 4180 CSV support: quoted fields may contain delimiters, quotes
+// ("" escapes) and line breaks. Spreadsheet exports often use ";" or tabs, so
+// the delimiter is detected from the first line unless given.
+
+const DELIMITERS = [",", ";", "\t"] as const;
+
+// Spreadsheet apps run cells starting with these as formulas, so formatCsv
+// writes such values behind a "'" and parseCsv drops it again. Phone numbers
+// in E.164 form start with "+" and round-trip the same way.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export type CsvDelimiter = (typeof DELIMITERS)[number];
+
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = DELIMITERS.map((delimiter) => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+
+  return counts[best] > 0 ? DELIMITERS[best] : ",";
+}
+
+// Returns one array of raw field values per record. Blank lines are dropped.
+export function parseCsv(text: string, delimiter = detectCsvDelimiter(text)): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  function endField() {
+    const guarded = field.startsWith("'") && FORMULA_START.test(field.slice(1));
+    record.push(guarded ? field.slice(1) : field);
+    field = "";
+  }
+
+  function endRecord() {
+    endField();
+    if (record.length > 1 || record[0].trim() !== "") {
+      records.push(record);
+    }
+    record = [];
+  }
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new InvalidInputError("CSV data ends inside a quoted field.");
+  }
+
+  if (field !== "" || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+function quoteCsvField(value: string): string {
+  const field = FORMULA_START.test(value) ? `'${value}` : value;
+
+  return /[",;\t\r\n]/.test(field) || /^\s|\s$/.test(field)
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+}
+
+// Records end with CRLF as RFC 4180 specifies; spreadsheet apps expect it.
+export function formatCsv(records: string[][]): string {
+  return records.map((record) => record.map(quoteCsvField).join(",")).join("\r\n") + "\r\n";
+}
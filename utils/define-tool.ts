@@ -1,6 +1,8 @@
 import { zodToJsonSchema } from "zod-to-json-schema";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import type { z } from "zod/v3";
+import { toolErrorStructuredContent } from "./tool-errors";
 
 export type ToolAnnotations = {
   readOnlyHint: boolean;
@@ -8,11 +10,26 @@ export type ToolAnnotations = {
   destructiveHint: boolean;
 };
 
-export type ToolResponse = {
+export type ToolResponse<TStructured = Record<string, unknown>> = {
   content: Array<{ type: "text"; text: string }>;
-  structuredContent: Record<string, unknown>;
+  structuredContent: TStructured;
 };
 
+export type ToolContext = {
+  // Stable caller identity: the authenticated subject, or the host-provided
+  // `openai/subject` when the server is configured to trust it.
+  userId: string | null;
+  toolName: string;
+  sessionId?: string;
+  authInfo?: AuthInfo;
+  meta: Record<string, unknown>;
+};
+
+export type ToolHandler<TInput, TStructured = Record<string, unknown>> = (
+  input: TInput,
+  context: ToolContext,
+) => ToolResponse<TStructured> | Promise<ToolResponse<TStructured>>;
+
 export type ToolDefinition = {
   name: string;
   title: string;
@@ -20,16 +37,33 @@ export type ToolDefinition = {
   annotations: ToolAnnotations;
   input: z.ZodTypeAny;
   inputSchema: Tool["inputSchema"];
-  ui: string;
+  // Shape of `structuredContent`, when the tool declares one.
+  output?: z.ZodTypeAny;
+  // Schemas inside `output` that are published under `definitions` and
+  // referenced with `$ref` rather than written out where they occur.
+  outputDefinitions?: Record<string, z.ZodTypeAny>;
+  outputSchema?: Tool["outputSchema"];
+  // Name of the widget that renders the result; omit for data-only tools.
+  ui?: string;
+  // Lets widgets call the tool themselves, for data-only tools they rely on.
+  widgetAccessible?: boolean;
   invoking: string;
   invoked: string;
-  handler: (input: unknown) => ToolResponse | Promise<ToolResponse>;
+  handler: ToolHandler<unknown>;
 };
 
-export function defineTool<TInput extends z.ZodTypeAny>(
-  tool: Omit<ToolDefinition, "input" | "inputSchema" | "handler"> & {
+// With an `output` schema, the handler's structuredContent is checked against
+// it at compile time. TResult is what the handler actually returns (`const`
+// keeps literals such as `view: "guests"` from widening to string).
+export function defineTool<
+  TInput extends z.ZodTypeAny,
+  TStructured extends Record<string, unknown> = Record<string, unknown>,
+  const TResult extends TStructured = TStructured,
+>(
+  tool: Omit<ToolDefinition, "input" | "inputSchema" | "output" | "outputSchema" | "handler"> & {
     input: TInput;
-    handler: (input: z.infer<TInput>) => ToolResponse | Promise<ToolResponse>;
+    output?: z.ZodType<TStructured, z.ZodTypeDef, unknown>;
+    handler: ToolHandler<z.infer<TInput>, TResult>;
   },
 ): ToolDefinition {
   const rawSchema = zodToJsonSchema(tool.input, {
@@ -43,9 +77,26 @@ export function defineTool<TInput extends z.ZodTypeAny>(
       ? (rawSchema as Tool["inputSchema"])
       : { type: "object" };
 
+  // Failed calls carry `{ error }` instead (see tool-errors.ts), and clients
+  // check those against the schema too. Keys the schema does not list are
+  // allowed so that adding a field is not a breaking change. A schema used
+  // twice is written out once and referenced the second time.
+  const outputSchema = tool.output
+    ? ({
+        type: "object",
+        ...zodToJsonSchema(tool.output.or(toolErrorStructuredContent), {
+          $refStrategy: "root",
+          definitions: tool.outputDefinitions ?? {},
+          removeAdditionalStrategy: "strict",
+          allowedAdditionalProperties: undefined,
+        }),
+      } as Tool["outputSchema"])
+    : undefined;
+
   return {
     ...tool,
     inputSchema,
+    outputSchema,
     handler: tool.handler as ToolDefinition["handler"],
   };
 }
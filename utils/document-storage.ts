@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+
+export type DocumentStorage = {
+  read<T>(key: string): T | null;
+  write<T>(key: string, value: T): void;
+  remove(key: string): void;
+};
+
+export type DocumentStorageDriver = "memory" | "json" | "sqlite";
+
+const DEFAULT_JSON_DIR = "data/wedding-store";
+const DEFAULT_SQLITE_FILE = "data/wedding-store.sqlite";
+
+export function createMemoryStorage(): DocumentStorage {
+  const documents = new Map<string, string>();
+
+  return {
+    read<T>(key: string) {
+      const raw = documents.get(key);
+      return raw === undefined ? null : (JSON.parse(raw) as T);
+    },
+    write<T>(key: string, value: T) {
+      documents.set(key, JSON.stringify(value));
+    },
+    remove(key: string) {
+      documents.delete(key);
+    },
+  };
+}
+
+function documentFileName(key: string): string {
+  return `${encodeURIComponent(key)}.json`;
+}
+
+function writeFileAtomic(filePath: string, contents: string) {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const handle = fs.openSync(tempPath, "w");
+
+  try {
+    fs.writeFileSync(handle, contents, "utf8");
+    fs.fsyncSync(handle);
+  } finally {
+    fs.closeSync(handle);
+  }
+
+  try {
+    // rename(2) replaces the target in one step, so readers never observe a
+    // partially written document.
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export function createJsonFileStorage(directory: string): DocumentStorage {
+  const rootDir = path.resolve(directory);
+  fs.mkdirSync(rootDir, { recursive: true });
+
+  return {
+    read<T>(key: string) {
+      const filePath = path.join(rootDir, documentFileName(key));
+
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+
+      return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+    },
+    write<T>(key: string, value: T) {
+      writeFileAtomic(
+        path.join(rootDir, documentFileName(key)),
+        `${JSON.stringify(value, null, 2)}\n`,
+      );
+    },
+    remove(key: string) {
+      fs.rmSync(path.join(rootDir, documentFileName(key)), { force: true });
+    },
+  };
+}
+
+function openSqliteDatabase(filePath: string): DatabaseSync {
+  const require = createRequire(import.meta.url);
+  let sqlite: typeof import("node:sqlite");
+
+  try {
+    sqlite = require("node:sqlite") as typeof import("node:sqlite");
+  } catch {
+    throw new Error(
+      `SQLite storage requires Node.js 22.5 or newer (running ${process.version}). Use WEDDING_STORE_DRIVER=json instead.`,
+    );
+  }
+
+  return new sqlite.DatabaseSync(filePath);
+}
+
+export function createSqliteStorage(filePath: string): DocumentStorage {
+  const resolvedPath = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+
+  const database = openSqliteDatabase(resolvedPath);
+  database.exec(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS documents (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+
+  const selectStatement = database.prepare(
+    "SELECT value FROM documents WHERE key = ?",
+  );
+  const upsertStatement = database.prepare(`
+    INSERT INTO documents (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `);
+  const deleteStatement = database.prepare("DELETE FROM documents WHERE key = ?");
+
+  return {
+    read<T>(key: string) {
+      const row = selectStatement.get(key);
+
+      if (!row || typeof row.value !== "string") {
+        return null;
+      }
+
+      return JSON.parse(row.value) as T;
+    },
+    write<T>(key: string, value: T) {
+      upsertStatement.run(key, JSON.stringify(value), new Date().toISOString());
+    },
+    remove(key: string) {
+      deleteStatement.run(key);
+    },
+  };
+}
+
+export function createDocumentStorageFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): DocumentStorage {
+  const driver = (env.WEDDING_STORE_DRIVER?.trim().toLowerCase() ||
+    "json") as DocumentStorageDriver;
+  const storePath = env.WEDDING_STORE_PATH?.trim();
+
+  switch (driver) {
+    case "memory":
+      return createMemoryStorage();
+    case "json":
+      return createJsonFileStorage(storePath || DEFAULT_JSON_DIR);
+    case "sqlite":
+      return createSqliteStorage(storePath || DEFAULT_SQLITE_FILE);
+    default:
+      throw new Error(
+        `Unknown WEDDING_STORE_DRIVER "${driver}". Expected memory, json, or sqlite.`,
+      );
+  }
+}
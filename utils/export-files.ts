@@ -0,0 +1,61 @@
+import { randomUUID } from "node:crypto";
+import { publicUrl } from "./public-url";
+
+// Generated downloads are kept in memory under an unguessable token and
+// served by startHttpServer until they expire.
+
+export type ExportFile = {
+  filename: string;
+  mimeType: string;
+  content: string;
+};
+
+export type PublishedExport = {
+  filename: string;
+  mime_type: string;
+  url: string;
+  expires_at: string;
+};
+
+const EXPORT_TTL_MS = 60 * 60 * 1000;
+
+const EXPORTS_PATH = "/exports";
+
+const files = new Map<string, ExportFile & { expiresAt: number }>();
+
+export function getExportsPath(): string {
+  return EXPORTS_PATH;
+}
+
+function pruneExpired(now: number) {
+  for (const [token, file] of files) {
+    if (file.expiresAt <= now) {
+      files.delete(token);
+    }
+  }
+}
+
+export function publishExportFile(file: ExportFile): PublishedExport {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const token = randomUUID();
+  const expiresAt = now + EXPORT_TTL_MS;
+  files.set(token, { ...file, expiresAt });
+
+  return {
+    filename: file.filename,
+    mime_type: file.mimeType,
+    url: publicUrl(`${EXPORTS_PATH}/${token}/${encodeURIComponent(file.filename)}`),
+    expires_at: new Date(expiresAt).toISOString(),
+  };
+}
+
+export function readExportFile(token: string): ExportFile | null {
+  pruneExpired(Date.now());
+  const file = files.get(token);
+
+  return file
+    ? { filename: file.filename, mimeType: file.mimeType, content: file.content }
+    : null;
+}
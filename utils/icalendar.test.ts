@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { escapeText, foldLine } from "./content-lines";
+import { formatICalendar } from "./icalendar";
+
+function octets(line: string): number {
+  return Buffer.byteLength(line, "utf8");
+}
+
+describe("foldLine", () => {
+  it("leaves lines of up to 75 octets alone", () => {
+    const line = "x".repeat(75);
+    assert.equal(foldLine(line), line);
+  });
+
+  it("folds long lines at 75 octets, continuations included", () => {
+    const line = `DESCRIPTION:${"a".repeat(200)}`;
+    const parts = foldLine(line).split("\r\n");
+
+    assert.ok(parts.length > 1);
+    assert.ok(parts.every((part) => octets(part) <= 75));
+    assert.ok(parts.slice(1).every((part) => part.startsWith(" ")));
+    assert.equal(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join(""), line);
+  });
+
+  it("never splits a multi-byte character", () => {
+    const line = `SUMMARY:${"é".repeat(60)}💍${"ü".repeat(60)}`;
+    const parts = foldLine(line).split("\r\n");
+
+    assert.ok(parts.every((part) => octets(part) <= 75));
+    for (const part of parts) {
+      assert.ok(!part.includes("�"));
+      assert.equal(Buffer.from(part, "utf8").toString("utf8"), part);
+    }
+    assert.equal(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join(""), line);
+  });
+});
+
+describe("escapeText", () => {
+  it("escapes separators and newlines", () => {
+    assert.equal(escapeText("a,b;c\\d\r\ne"), "a\\,b\\;c\\\\d\\ne");
+  });
+});
+
+describe("formatICalendar", () => {
+  const now = new Date("2026-05-01T12:00:00Z");
+
+  it("writes all-day and timed events with CRLF line endings", () => {
+    const feed = formatICalendar(
+      {
+        name: "Ann & Bo",
+        events: [
+          { uid: "wedding@test", summary: "Wedding", start: { date: "2026-09-12" } },
+          {
+            uid: "schedule_1@test",
+            summary: "Ceremony",
+            start: { dateTime: new Date("2026-09-12T14:00:00Z") },
+            end: { dateTime: new Date("2026-09-12T15:00:00Z") },
+            location: "Garden, north lawn",
+          },
+        ],
+      },
+      now,
+    );
+
+    assert.ok(feed.endsWith("END:VCALENDAR\r\n"));
+    assert.ok(!/[^\r]\n/.test(feed));
+    assert.match(feed, /\r\nDTSTART;VALUE=DATE:20260912\r\n/);
+    assert.match(feed, /\r\nDTSTART:20260912T140000Z\r\nDTEND:20260912T150000Z\r\n/);
+    assert.match(feed, /\r\nLOCATION:Garden\\, north lawn\r\n/);
+    assert.match(feed, /\r\nDTSTAMP:20260501T120000Z\r\n/);
+  });
+
+  it("writes SEQUENCE and LAST-MODIFIED only when given", () => {
+    const feed = formatICalendar(
+      {
+        name: "Ann & Bo",
+        events: [
+          {
+            uid: "task_1@test",
+            summary: "Book florist",
+            start: { date: "2026-06-01" },
+            sequence: 4,
+            lastModified: new Date("2026-04-30T08:15:00Z"),
+          },
+          { uid: "task_2@test", summary: "Send invitations", start: { date: "2026-06-15" } },
+        ],
+      },
+      now,
+    );
+
+    assert.match(feed, /\r\nLAST-MODIFIED:20260430T081500Z\r\nSEQUENCE:4\r\n/);
+    assert.equal(feed.match(/SEQUENCE:/g)?.length, 1);
+    assert.equal(feed.match(/LAST-MODIFIED:/g)?.length, 1);
+  });
+});
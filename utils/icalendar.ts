@@ -0,0 +1,72 @@
+import { escapeText, joinContentLines } from "./content-lines";
+
+// All-day events take "YYYY-MM-DD" dates; timed events take instants and are
+// written in UTC so no VTIMEZONE definitions are needed.
+export type CalendarEventTime = { date: string } | { dateTime: Date };
+
+// Calendar apps match events by `uid`, so an event whose uid stays the same
+// is updated in place when a subscribed feed refreshes.
+export type CalendarEvent = {
+  uid: string;
+  summary: string;
+  start: CalendarEventTime;
+  end?: CalendarEventTime;
+  description?: string | null;
+  location?: string | null;
+  // Revision number and time of the event's last change, so clients can tell
+  // which of two copies is newer.
+  sequence?: number;
+  lastModified?: Date;
+};
+
+export type CalendarFeed = {
+  name: string;
+  events: CalendarEvent[];
+};
+
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function formatTimeProperty(name: string, time: CalendarEventTime): string {
+  return "date" in time
+    ? `${name};VALUE=DATE:${time.date.replace(/-/g, "")}`
+    : `${name}:${formatUtc(time.dateTime)}`;
+}
+
+export function formatICalendar(feed: CalendarFeed, now: Date = new Date()): string {
+  const stamp = formatUtc(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Wedding Planner//Wedding Planner Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(feed.name)}`,
+    // Ask subscribed clients to refresh hourly.
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of feed.events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${escapeText(event.uid)}`,
+      `DTSTAMP:${stamp}`,
+      ...(event.lastModified ? [`LAST-MODIFIED:${formatUtc(event.lastModified)}`] : []),
+      ...(event.sequence !== undefined ? [`SEQUENCE:${event.sequence}`] : []),
+      formatTimeProperty("DTSTART", event.start),
+      ...(event.end ? [formatTimeProperty("DTEND", event.end)] : []),
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return joinContentLines(lines);
+}
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync } from "node:crypto";
+import { describe, it } from "node:test";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { createJwtVerifier, signJwt, type JwtClaims } from "./jwt";
+
+const ISSUER = "https://auth.example.com";
+const AUDIENCE = "https://planner.example.com/mcp";
+
+function createKey(kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return { privateKey, kid, jwk: { ...publicKey.export({ format: "jwk" }), kid } };
+}
+
+const key = createKey("key-1");
+const otherKey = createKey("key-2");
+
+const verifier = createJwtVerifier({
+  issuer: ISSUER,
+  audience: AUDIENCE,
+  keys: [key.jwk],
+  requiredScopes: ["planner"],
+});
+
+function claims(overrides: JwtClaims = {}): JwtClaims {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: ISSUER,
+    aud: AUDIENCE,
+    sub: "alice",
+    client_id: "chatgpt",
+    scope: "planner profile",
+    iat: now,
+    exp: now + 300,
+    ...overrides,
+  };
+}
+
+describe("createJwtVerifier", () => {
+  it("accepts a valid token and reads the caller from it", async () => {
+    const token = signJwt(claims(), key);
+    const info = await verifier.verifyAccessToken(token);
+
+    assert.equal(info.token, token);
+    assert.equal(info.clientId, "chatgpt");
+    assert.deepEqual(info.scopes, ["planner", "profile"]);
+    assert.deepEqual(info.extra, { subject: "alice" });
+    assert.equal(info.resource?.href, AUDIENCE);
+  });
+
+  it("accepts an audience list that contains the resource", async () => {
+    const token = signJwt(claims({ aud: ["https://other.example.com", AUDIENCE] }), key);
+    await verifier.verifyAccessToken(token);
+  });
+
+  it("refuses tokens whose claims do not match", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const cases: Array<[string, JwtClaims]> = [
+      ["another issuer", { iss: "https://evil.example.com" }],
+      ["another audience", { aud: "https://other.example.com/mcp" }],
+      ["expired", { exp: now - 120 }],
+      ["no expiry", { exp: undefined }],
+      ["not valid yet", { nbf: now + 600 }],
+      ["no subject", { sub: "" }],
+    ];
+
+    for (const [name, overrides] of cases) {
+      await assert.rejects(
+        verifier.verifyAccessToken(signJwt(claims(overrides), key)),
+        InvalidTokenError,
+        name,
+      );
+    }
+  });
+
+  it("tolerates small clock differences", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await verifier.verifyAccessToken(signJwt(claims({ exp: now - 30, nbf: now + 30 }), key));
+  });
+
+  it("refuses tokens lacking a required scope with an insufficient scope error", async () => {
+    await assert.rejects(
+      verifier.verifyAccessToken(signJwt(claims({ scope: "profile" }), key)),
+      InsufficientScopeError,
+    );
+  });
+
+  it("refuses unknown keys and forged signatures", async () => {
+    await assert.rejects(verifier.verifyAccessToken(signJwt(claims(), otherKey)), /unknown key/);
+
+    const forged = signJwt(claims(), { privateKey: otherKey.privateKey, kid: key.kid });
+    await assert.rejects(verifier.verifyAccessToken(forged), /Invalid access token signature/);
+
+    const [header, , signature] = signJwt(claims(), key).split(".");
+    const altered = Buffer.from(JSON.stringify(claims({ sub: "mallory" }))).toString("base64url");
+    await assert.rejects(
+      verifier.verifyAccessToken(`${header}.${altered}.${signature}`),
+      /Invalid access token signature/,
+    );
+  });
+
+  it("refuses malformed tokens and unsupported algorithms", async () => {
+    for (const token of ["", "a.b", "a.b.c.d", "not-json.not-json.sig"]) {
+      await assert.rejects(verifier.verifyAccessToken(token), InvalidTokenError, token);
+    }
+
+    const [, payload, signature] = signJwt(claims(), key).split(".");
+    const none = Buffer.from(JSON.stringify({ alg: "none", kid: key.kid })).toString("base64url");
+    await assert.rejects(
+      verifier.verifyAccessToken(`${none}.${payload}.${signature}`),
+      /Unsupported token algorithm/,
+    );
+  });
+});
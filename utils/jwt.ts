@@ -0,0 +1,274 @@
+import {
+  constants,
+  createPublicKey,
+  sign,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { AccessTokenVerifier } from "./mcp-auth";
+
+// JWT access tokens (RFC 9068) checked against the signing keys an
+// authorization server publishes as a JWKS, plus RS256 signing for the local
+// test issuer.
+
+export type JwtClaims = Record<string, unknown>;
+
+type JwtHeader = {
+  alg?: unknown;
+  kid?: unknown;
+};
+
+type JwtVerifierOptions = {
+  issuer: string;
+  // Expected `aud`; normally the public URL of the MCP endpoint.
+  audience?: string;
+  // Where the issuer publishes its keys; read from the issuer's metadata when
+  // omitted.
+  jwksUrl?: string;
+  // Fixed keys, for an issuer running in this process.
+  keys?: JsonWebKey[];
+  // Scopes every token must carry.
+  requiredScopes?: string[];
+};
+
+const SIGNATURE_OPTIONS: Record<string, { hash: string; options?: object }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: {
+    hash: "sha256",
+    options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+  },
+  ES256: { hash: "sha256", options: { dsaEncoding: "ieee-p1363" } },
+  ES384: { hash: "sha384", options: { dsaEncoding: "ieee-p1363" } },
+};
+
+// Tolerated clock difference between this server and the issuer.
+const CLOCK_SKEW_SECONDS = 60;
+// Keys are refetched after this long, or sooner when a token names an unknown
+// key id (issuers rotate keys), but never more than once per cooldown.
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeSegment<T>(segment: string): T {
+  const value: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InvalidTokenError("Malformed access token");
+  }
+
+  return value as T;
+}
+
+export function signJwt(claims: JwtClaims, key: { privateKey: KeyObject; kid: string }): string {
+  const signingInput = `${encodeSegment({ alg: "RS256", typ: "at+jwt", kid: key.kid })}.${encodeSegment(claims)}`;
+  const signature = sign("sha256", Buffer.from(signingInput), key.privateKey);
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+function readScopes(claims: JwtClaims): string[] {
+  // `scope` is the standard claim; some issuers send `scp` instead.
+  const scopes = claims.scope ?? claims.scp;
+
+  if (typeof scopes === "string") {
+    return scopes.split(" ").filter(Boolean);
+  }
+
+  return Array.isArray(scopes)
+    ? scopes.filter((scope): scope is string => typeof scope === "string")
+    : [];
+}
+
+function hasAudience(claims: JwtClaims, audience: string): boolean {
+  return Array.isArray(claims.aud) ? claims.aud.includes(audience) : claims.aud === audience;
+}
+
+// RFC 8414 metadata for issuers with a path lives at
+// `/.well-known/oauth-authorization-server/<path>`; OpenID providers use
+// `<issuer>/.well-known/openid-configuration`.
+async function discoverJwksUrl(issuer: string): Promise<string> {
+  const issuerUrl = new URL(issuer);
+  const issuerPath = issuerUrl.pathname === "/" ? "" : issuerUrl.pathname.replace(/\/+$/, "");
+  const candidates = [
+    new URL(`/.well-known/oauth-authorization-server${issuerPath}`, issuerUrl).href,
+    `${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`,
+  ];
+
+  for (const candidate of candidates) {
+    const response = await fetch(candidate, { headers: { Accept: "application/json" } });
+
+    if (response.ok) {
+      const metadata = (await response.json()) as { jwks_uri?: unknown };
+      if (typeof metadata.jwks_uri === "string") {
+        return metadata.jwks_uri;
+      }
+    }
+  }
+
+  throw new Error(`Could not find the signing keys (jwks_uri) of issuer ${issuer}.`);
+}
+
+function importKeys(keys: JsonWebKey[]): Map<string, KeyObject> {
+  const imported = new Map<string, KeyObject>();
+
+  for (const jwk of keys) {
+    // Encryption keys can share the set; only signing keys matter here.
+    if (jwk.use === "enc") {
+      continue;
+    }
+
+    try {
+      imported.set(
+        typeof jwk.kid === "string" ? jwk.kid : "",
+        createPublicKey({ key: jwk, format: "jwk" }),
+      );
+    } catch {
+      // Key types node cannot read are skipped rather than failing the set.
+    }
+  }
+
+  return imported;
+}
+
+// Tokens without a key id are accepted when the issuer has a single key.
+function findKey(keys: Map<string, KeyObject>, kid: string | undefined): KeyObject | undefined {
+  if (kid !== undefined) {
+    return keys.get(kid);
+  }
+
+  return keys.size === 1 ? [...keys.values()][0] : undefined;
+}
+
+function createKeySource(options: JwtVerifierOptions) {
+  if (options.keys) {
+    const keys = importKeys(options.keys);
+    return async (kid: string | undefined) => findKey(keys, kid);
+  }
+
+  let keys = new Map<string, KeyObject>();
+  let fetchedAt = 0;
+  let pending: Promise<void> | null = null;
+
+  const refresh = () => {
+    pending ??= (async () => {
+      try {
+        const jwksUrl = options.jwksUrl ?? (await discoverJwksUrl(options.issuer));
+        const response = await fetch(jwksUrl, { headers: { Accept: "application/json" } });
+
+        if (!response.ok) {
+          throw new Error(`Fetching ${jwksUrl} failed with HTTP ${response.status}.`);
+        }
+
+        const jwks = (await response.json()) as { keys?: unknown };
+        keys = importKeys(Array.isArray(jwks.keys) ? (jwks.keys as JsonWebKey[]) : []);
+        fetchedAt = Date.now();
+      } finally {
+        pending = null;
+      }
+    })();
+    return pending;
+  };
+
+  return async (kid: string | undefined) => {
+    const age = Date.now() - fetchedAt;
+
+    if (age > JWKS_CACHE_MS || (!findKey(keys, kid) && age > JWKS_REFETCH_COOLDOWN_MS)) {
+      await refresh();
+    }
+
+    return findKey(keys, kid);
+  };
+}
+
+export function createJwtVerifier(options: JwtVerifierOptions): AccessTokenVerifier {
+  const getKey = createKeySource(options);
+
+  return {
+    async verifyAccessToken(token) {
+      const [encodedHeader, encodedClaims, encodedSignature, ...rest] = token.split(".");
+
+      if (!encodedHeader || !encodedClaims || !encodedSignature || rest.length > 0) {
+        throw new InvalidTokenError("Malformed access token");
+      }
+
+      let header: JwtHeader;
+      let claims: JwtClaims;
+      try {
+        header = decodeSegment<JwtHeader>(encodedHeader);
+        claims = decodeSegment<JwtClaims>(encodedClaims);
+      } catch {
+        throw new InvalidTokenError("Malformed access token");
+      }
+
+      const algorithm = typeof header.alg === "string" ? SIGNATURE_OPTIONS[header.alg] : undefined;
+      if (!algorithm) {
+        throw new InvalidTokenError(`Unsupported token algorithm "${String(header.alg)}"`);
+      }
+
+      const key = await getKey(typeof header.kid === "string" ? header.kid : undefined);
+      if (!key) {
+        throw new InvalidTokenError("Access token was signed with an unknown key");
+      }
+
+      let validSignature = false;
+      try {
+        validSignature = verify(
+          algorithm.hash,
+          Buffer.from(`${encodedHeader}.${encodedClaims}`),
+          { key, ...algorithm.options },
+          Buffer.from(encodedSignature, "base64url"),
+        );
+      } catch {
+        // The key does not fit the algorithm.
+      }
+      if (!validSignature) {
+        throw new InvalidTokenError("Invalid access token signature");
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (claims.iss !== options.issuer) {
+        throw new InvalidTokenError("Access token was issued by another issuer");
+      }
+      if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+        throw new InvalidTokenError("Access token has expired");
+      }
+      if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+        throw new InvalidTokenError("Access token is not valid yet");
+      }
+      if (options.audience && !hasAudience(claims, options.audience)) {
+        throw new InvalidTokenError("Access token is for another resource");
+      }
+      if (typeof claims.sub !== "string" || !claims.sub) {
+        throw new InvalidTokenError("Access token has no subject");
+      }
+
+      const scopes = readScopes(claims);
+      const missingScopes = (options.requiredScopes ?? []).filter(
+        (scope) => !scopes.includes(scope),
+      );
+      if (missingScopes.length > 0) {
+        throw new InsufficientScopeError(`Access token lacks scope: ${missingScopes.join(" ")}`);
+      }
+
+      const clientId = claims.client_id ?? claims.azp;
+
+      return {
+        token,
+        clientId: typeof clientId === "string" ? clientId : claims.sub,
+        scopes,
+        expiresAt: claims.exp,
+        resource: options.audience ? new URL(options.audience) : undefined,
+        extra: { subject: claims.sub },
+      };
+    },
+  };
+}
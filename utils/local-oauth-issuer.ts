@@ -0,0 +1,480 @@
+import { createHash, generateKeyPairSync, randomBytes, randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { URL } from "node:url";
+import type {
+  OAuthClientInformationFull,
+  OAuthMetadata,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { createJwtVerifier, signJwt } from "./jwt";
+import type { AccessTokenVerifier } from "./mcp-auth";
+import type { HttpRoute } from "./start-http-server";
+
+// A throwaway OAuth authorization server for exercising the protected MCP
+// endpoint offline: it registers any client (RFC 7591), signs in whoever
+// types a name, and issues JWT access tokens through the authorization code
+// flow with PKCE. Clients, codes and the signing key live in memory, so
+// tokens stop working on restart. Anyone who can reach it can sign in as
+// anybody; never use it on a server other people can reach.
+
+type LocalOAuthIssuerOptions = {
+  // Public URL the issuer is served under; it needs a path, e.g.
+  // `http://localhost:8000/oauth`.
+  issuerUrl: string;
+  // The MCP endpoint URL, which issued tokens are for.
+  resourceUrl: string;
+  // Granted to every token, whatever the client asks for.
+  scopes?: string[];
+};
+
+export type LocalOAuthIssuer = {
+  issuer: string;
+  routes: HttpRoute[];
+  verifier: AccessTokenVerifier;
+};
+
+type AuthorizationRequest = {
+  client: OAuthClientInformationFull;
+  redirectUri: string;
+  codeChallenge: string;
+  state: string | null;
+  scope: string;
+};
+
+type AuthorizationCode = {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  subject: string;
+  scope: string;
+  expiresAt: number;
+};
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const AUTHORIZATION_CODE_TTL_MS = 5 * 60 * 1000;
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_SUBJECT_LENGTH = 100;
+
+const PAGE_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; background: #faf6f1; color: #3b2f2a; margin: 0; }
+  main { max-width: 420px; margin: 48px auto; padding: 32px; background: #fff; border-radius: 16px; box-shadow: 0 8px 30px rgba(59, 47, 42, 0.08); }
+  h1 { font-size: 1.5rem; margin: 0 0 8px; }
+  p { color: #7b6a5d; }
+  label { display: block; font-weight: 600; margin: 16px 0 6px; }
+  input[type="text"] { font: inherit; padding: 8px 10px; border: 1px solid #d9cbbd; border-radius: 8px; width: 100%; box-sizing: border-box; }
+  button { font: inherit; background: #b28b6b; color: #fff; border: 0; border-radius: 999px; padding: 10px 20px; margin-top: 18px; cursor: pointer; }
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function sendPage(res: ServerResponse, status: number, title: string, body: string) {
+  res.writeHead(status, {
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+    "Content-Security-Policy":
+      "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'none'",
+  });
+  res.end(`<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body><main>${body}</main></body>
+</html>`);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Cache-Control": "no-store",
+    "Content-Type": "application/json",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendOAuthError(res: ServerResponse, status: number, error: string, description: string) {
+  sendJson(res, status, { error, error_description: description });
+}
+
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return null;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function isUrl(value: unknown): value is string {
+  if (typeof value !== "string") {
+    return false;
+  }
+
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sameResource(a: string, b: string): boolean {
+  return a.replace(/\/+$/, "") === b.replace(/\/+$/, "");
+}
+
+function pkceChallenge(verifier: string): string {
+  return createHash("sha256").update(verifier).digest("base64url");
+}
+
+export function createLocalOAuthIssuer(options: LocalOAuthIssuerOptions): LocalOAuthIssuer {
+  const issuer = options.issuerUrl.replace(/\/+$/, "");
+  const issuerPath = new URL(issuer).pathname;
+
+  if (issuerPath === "/") {
+    throw new Error(
+      "The local OAuth issuer needs a URL with a path, e.g. http://localhost:8000/oauth.",
+    );
+  }
+
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = randomUUID();
+  const publicJwk = { ...publicKey.export({ format: "jwk" }), kid, alg: "RS256", use: "sig" };
+
+  const clients = new Map<string, OAuthClientInformationFull>();
+  const codes = new Map<string, AuthorizationCode>();
+
+  const metadata: OAuthMetadata = {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    registration_endpoint: `${issuer}/register`,
+    jwks_uri: `${issuer}/jwks.json`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code"],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: ["none"],
+    ...(options.scopes ? { scopes_supported: options.scopes } : {}),
+  };
+
+  const issueToken = (subject: string, clientId: string, scope: string) => {
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = signJwt(
+      {
+        iss: issuer,
+        sub: subject,
+        aud: options.resourceUrl,
+        client_id: clientId,
+        scope,
+        iat: now,
+        exp: now + ACCESS_TOKEN_TTL_SECONDS,
+        jti: randomUUID(),
+      },
+      { privateKey, kid },
+    );
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      ...(scope ? { scope } : {}),
+    };
+  };
+
+  // Returns the problem as text for the sign-in page when the request is
+  // unusable.
+  const readAuthorizationRequest = (params: URLSearchParams): AuthorizationRequest | string => {
+    const client = clients.get(params.get("client_id") ?? "");
+    if (!client) {
+      return "Unknown client. Clients must register first.";
+    }
+
+    const redirectUri =
+      params.get("redirect_uri") ??
+      (client.redirect_uris.length === 1 ? client.redirect_uris[0] : null);
+    if (!redirectUri || !client.redirect_uris.includes(redirectUri)) {
+      return "The redirect URI is not registered for this client.";
+    }
+
+    if (params.get("response_type") !== "code") {
+      return 'Only response_type "code" is supported.';
+    }
+
+    const codeChallenge = params.get("code_challenge");
+    if (!codeChallenge || params.get("code_challenge_method") !== "S256") {
+      return "A PKCE code_challenge with method S256 is required.";
+    }
+
+    const resource = params.get("resource");
+    if (resource && !sameResource(resource, options.resourceUrl)) {
+      return `This issuer only issues tokens for ${options.resourceUrl}.`;
+    }
+
+    return {
+      client,
+      redirectUri,
+      codeChallenge,
+      state: params.get("state"),
+      scope: options.scopes ? options.scopes.join(" ") : (params.get("scope") ?? ""),
+    };
+  };
+
+  const renderSignIn = (
+    params: URLSearchParams,
+    request: AuthorizationRequest,
+    problem?: string,
+  ) => {
+    const hidden = [...params]
+      .filter(([name]) => name !== "subject")
+      .map(
+        ([name, value]) =>
+          `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`,
+      )
+      .join("\n      ");
+
+    return `
+    <h1>Local test sign-in</h1>
+    <p>${escapeHtml(request.client.client_name ?? request.client.client_id)} wants to use the wedding planner. This test issuer accepts any name.</p>
+    ${problem ? `<p role="alert">${escapeHtml(problem)}</p>` : ""}
+    <form method="post" action="${escapeHtml(`${issuer}/authorize`)}">
+      ${hidden}
+      <label for="subject">Sign in as</label>
+      <input type="text" id="subject" name="subject" maxlength="${MAX_SUBJECT_LENGTH}" required autofocus>
+      <button type="submit">Sign in</button>
+    </form>`;
+  };
+
+  const handleAuthorize = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    let params = url.searchParams;
+
+    if (req.method === "POST") {
+      const body = await readBody(req);
+      if (body === null) {
+        res.writeHead(413).end("Request too large");
+        return;
+      }
+      params = new URLSearchParams(body);
+    } else if (req.method !== "GET") {
+      res.writeHead(405, { Allow: "GET, POST" }).end("Method Not Allowed");
+      return;
+    }
+
+    const request = readAuthorizationRequest(params);
+    if (typeof request === "string") {
+      sendPage(res, 400, "Sign-in failed", `<h1>Sign-in failed</h1><p>${escapeHtml(request)}</p>`);
+      return;
+    }
+
+    if (req.method === "GET") {
+      sendPage(res, 200, "Sign in", renderSignIn(params, request));
+      return;
+    }
+
+    const subject = params.get("subject")?.trim() ?? "";
+    if (!subject || subject.length > MAX_SUBJECT_LENGTH) {
+      sendPage(res, 400, "Sign in", renderSignIn(params, request, "Enter a name to sign in as."));
+      return;
+    }
+
+    const now = Date.now();
+    for (const [code, entry] of codes) {
+      if (entry.expiresAt < now) {
+        codes.delete(code);
+      }
+    }
+
+    const code = randomBytes(24).toString("base64url");
+    codes.set(code, {
+      clientId: request.client.client_id,
+      redirectUri: request.redirectUri,
+      codeChallenge: request.codeChallenge,
+      subject,
+      scope: request.scope,
+      expiresAt: now + AUTHORIZATION_CODE_TTL_MS,
+    });
+
+    const location = new URL(request.redirectUri);
+    location.searchParams.set("code", code);
+    location.searchParams.set("iss", issuer);
+    if (request.state !== null) {
+      location.searchParams.set("state", request.state);
+    }
+    res.writeHead(302, { Location: location.href }).end();
+  };
+
+  const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end("Method Not Allowed");
+      return;
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      sendOAuthError(res, 413, "invalid_request", "Request too large");
+      return;
+    }
+
+    const params = new URLSearchParams(body);
+    if (params.get("grant_type") !== "authorization_code") {
+      sendOAuthError(res, 400, "unsupported_grant_type", "Only authorization_code is supported");
+      return;
+    }
+
+    const code = params.get("code") ?? "";
+    const entry = codes.get(code);
+    // Codes are single-use, whether or not the exchange succeeds.
+    codes.delete(code);
+
+    if (
+      !entry ||
+      entry.expiresAt < Date.now() ||
+      entry.clientId !== params.get("client_id") ||
+      entry.redirectUri !== (params.get("redirect_uri") ?? entry.redirectUri)
+    ) {
+      sendOAuthError(
+        res,
+        400,
+        "invalid_grant",
+        "Unknown, expired or mismatched authorization code",
+      );
+      return;
+    }
+
+    if (pkceChallenge(params.get("code_verifier") ?? "") !== entry.codeChallenge) {
+      sendOAuthError(res, 400, "invalid_grant", "code_verifier does not match the code challenge");
+      return;
+    }
+
+    const resource = params.get("resource");
+    if (resource && !sameResource(resource, options.resourceUrl)) {
+      sendOAuthError(
+        res,
+        400,
+        "invalid_target",
+        `Tokens are only issued for ${options.resourceUrl}`,
+      );
+      return;
+    }
+
+    sendJson(res, 200, issueToken(entry.subject, entry.clientId, entry.scope));
+  };
+
+  const handleRegister = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end("Method Not Allowed");
+      return;
+    }
+
+    const body = await readBody(req);
+    let metadata: Record<string, unknown>;
+    try {
+      metadata = JSON.parse(body ?? "") as Record<string, unknown>;
+    } catch {
+      sendOAuthError(
+        res,
+        400,
+        "invalid_client_metadata",
+        "Expected a JSON client metadata document",
+      );
+      return;
+    }
+
+    const redirectUris = metadata?.redirect_uris;
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0 || !redirectUris.every(isUrl)) {
+      sendOAuthError(res, 400, "invalid_redirect_uri", "redirect_uris must list absolute URLs");
+      return;
+    }
+
+    const client: OAuthClientInformationFull = {
+      client_id: randomUUID(),
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      redirect_uris: redirectUris,
+      ...(typeof metadata.client_name === "string" ? { client_name: metadata.client_name } : {}),
+      token_endpoint_auth_method: "none",
+      grant_types: ["authorization_code"],
+      response_types: ["code"],
+    };
+    clients.set(client.client_id, client);
+    sendJson(res, 201, client);
+  };
+
+  const handleIssuerRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const endpoint = url.pathname.slice(issuerPath.length);
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "authorization, content-type",
+      });
+      res.end();
+      return;
+    }
+
+    switch (endpoint) {
+      case "/authorize":
+        await handleAuthorize(req, res, url);
+        return;
+      case "/token":
+        await handleToken(req, res);
+        return;
+      case "/register":
+        await handleRegister(req, res);
+        return;
+      case "/jwks.json":
+        sendJson(res, 200, { keys: [publicJwk] });
+        return;
+      // Skips the browser sign-in, for trying the endpoint with curl.
+      case "/test-token": {
+        const subject = url.searchParams.get("subject")?.trim() || "local-tester";
+        sendJson(
+          res,
+          200,
+          issueToken(subject, "local-test-token", (options.scopes ?? []).join(" ")),
+        );
+        return;
+      }
+      default:
+        res.writeHead(404).end("Not Found");
+    }
+  };
+
+  return {
+    issuer,
+    routes: [
+      { path: issuerPath, handle: handleIssuerRequest },
+      {
+        // RFC 8414 location for an issuer with a path.
+        path: `/.well-known/oauth-authorization-server${issuerPath}`,
+        handle: (req, res) => {
+          if (req.method === "OPTIONS") {
+            res.writeHead(204, { "Access-Control-Allow-Origin": "*" }).end();
+            return;
+          }
+          sendJson(res, 200, metadata);
+        },
+      },
+    ],
+    verifier: createJwtVerifier({
+      issuer,
+      audience: options.resourceUrl,
+      keys: [publicJwk],
+      requiredScopes: options.scopes,
+    }),
+  };
+}
@@ -0,0 +1,3 @@
+// Where the HTTP server and MCP servers report what happens to them;
+// `console` unless the host wires in something else.
+export type Logger = Pick<Console, "log" | "warn" | "error">;
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, it } from "node:test";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { Logger } from "./logger";
+import {
+  authenticateRequest,
+  getRequestCaller,
+  getResourceMetadataUrl,
+  type AuthenticatedRequest,
+  type McpAuthOptions,
+} from "./mcp-auth";
+
+type AuthResponse = { status: number; headers: Record<string, string>; body: string };
+
+function authOptions(verify: (token: string) => Promise<unknown>): McpAuthOptions {
+  return {
+    verifier: {
+      async verifyAccessToken(token) {
+        await verify(token);
+        return { token, clientId: "client", scopes: [], extra: { subject: "ann" } };
+      },
+    },
+    resourceUrl: "https://planner.example.com/mcp",
+    authorizationServers: ["https://auth.example.com"],
+  };
+}
+
+function recordingLogger() {
+  const errors: unknown[][] = [];
+  const logger: Logger = { log() {}, warn() {}, error: (...args) => errors.push(args) };
+  return { logger, errors };
+}
+
+// Calls authenticateRequest with just enough of a request and response.
+async function authenticate(
+  authorization: string | undefined,
+  auth: McpAuthOptions,
+  logger: Logger = recordingLogger().logger,
+) {
+  const response: AuthResponse = { status: 0, headers: {}, body: "" };
+  const res = {
+    writeHead(status: number, headers: Record<string, string> = {}) {
+      response.status = status;
+      response.headers = headers;
+      return res;
+    },
+    end(body?: string) {
+      response.body = body ?? "";
+      return res;
+    },
+  };
+  const authInfo = await authenticateRequest(
+    { headers: { authorization } } as IncomingMessage,
+    res as unknown as ServerResponse,
+    auth,
+    logger,
+  );
+  return { authInfo, response };
+}
+
+describe("authenticateRequest", () => {
+  it("passes verified callers through", async () => {
+    const { authInfo, response } = await authenticate(
+      "Bearer good-token",
+      authOptions(async () => {}),
+    );
+
+    assert.equal(authInfo?.token, "good-token");
+    assert.equal(response.status, 0);
+  });
+
+  it("points callers without a token at the resource metadata", async () => {
+    const { authInfo, response } = await authenticate(
+      undefined,
+      authOptions(async () => {}),
+    );
+
+    assert.equal(authInfo, null);
+    assert.equal(response.status, 401);
+    assert.equal(
+      response.headers["WWW-Authenticate"],
+      'Bearer resource_metadata="https://planner.example.com/.well-known/oauth-protected-resource/mcp"',
+    );
+  });
+
+  it("refuses invalid tokens and tokens without the needed scope", async () => {
+    const invalid = await authenticate(
+      "Bearer expired",
+      authOptions(async () => {
+        throw new InvalidTokenError("Token expired");
+      }),
+    );
+    const narrow = await authenticate(
+      "Bearer narrow",
+      authOptions(async () => {
+        throw new InsufficientScopeError("Missing scope planner");
+      }),
+    );
+
+    assert.equal(invalid.response.status, 401);
+    assert.match(invalid.response.headers["WWW-Authenticate"], /error="invalid_token"/);
+    assert.equal(narrow.response.status, 403);
+    assert.deepEqual(JSON.parse(narrow.response.body), {
+      error: "insufficient_scope",
+      error_description: "Missing scope planner",
+    });
+  });
+
+  it("logs verifier failures through the server's logger", async () => {
+    const { logger, errors } = recordingLogger();
+    const failure = new Error("JWKS endpoint unreachable");
+
+    const { authInfo, response } = await authenticate(
+      "Bearer token",
+      authOptions(async () => {
+        throw failure;
+      }),
+      logger,
+    );
+
+    assert.equal(authInfo, null);
+    assert.equal(response.status, 503);
+    assert.deepEqual(errors, [["Failed to verify access token", failure]]);
+  });
+});
+
+describe("getResourceMetadataUrl", () => {
+  it("puts the resource path after the well-known prefix", () => {
+    assert.equal(
+      getResourceMetadataUrl("https://planner.example.com/"),
+      "https://planner.example.com/.well-known/oauth-protected-resource",
+    );
+  });
+});
+
+describe("getRequestCaller", () => {
+  it("identifies callers by client and subject", () => {
+    const auth = { token: "t", clientId: "client", scopes: [], extra: { subject: "ann" } };
+
+    assert.equal(getRequestCaller({ auth } as unknown as AuthenticatedRequest), "client:ann");
+    assert.equal(getRequestCaller({} as AuthenticatedRequest), null);
+  });
+});
@@ -0,0 +1,155 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { URL } from "node:url";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthProtectedResourceMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { Logger } from "./logger";
+
+// OAuth for the MCP endpoints, as the MCP authorization spec describes it:
+// requests carry a bearer token from an authorization server, and clients
+// without one are pointed at the protected resource metadata (RFC 9728),
+// which names the authorization servers to get one from.
+
+// Turns a bearer token into the caller's identity. Throw InvalidTokenError
+// for tokens that must be refused (401) and InsufficientScopeError for valid
+// tokens missing a required scope (403). `extra.subject` becomes the tool
+// caller's user id.
+export type AccessTokenVerifier = {
+  verifyAccessToken(token: string): Promise<AuthInfo>;
+};
+
+export type McpAuthOptions = {
+  verifier: AccessTokenVerifier;
+  // Public URL of the MCP endpoint, which tokens are requested for.
+  resourceUrl: string;
+  authorizationServers: string[];
+  scopesSupported?: string[];
+  resourceName?: string;
+};
+
+export type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+const METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+// RFC 9728 inserts the resource's path after the well-known prefix.
+export function getResourceMetadataUrl(resourceUrl: string): string {
+  const url = new URL(resourceUrl);
+  const resourcePath = url.pathname === "/" ? "" : url.pathname;
+  return new URL(`${METADATA_PATH}${resourcePath}`, url).href;
+}
+
+// Answers at both the path-specific and the root location, since clients
+// differ in which one they try first.
+export function serveResourceMetadata(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  auth: McpAuthOptions,
+): boolean {
+  if (
+    req.method !== "GET" ||
+    (url.pathname !== METADATA_PATH &&
+      url.pathname !== new URL(getResourceMetadataUrl(auth.resourceUrl)).pathname)
+  ) {
+    return false;
+  }
+
+  const metadata: OAuthProtectedResourceMetadata = {
+    resource: auth.resourceUrl,
+    authorization_servers: auth.authorizationServers,
+    bearer_methods_supported: ["header"],
+    ...(auth.scopesSupported ? { scopes_supported: auth.scopesSupported } : {}),
+    ...(auth.resourceName ? { resource_name: auth.resourceName } : {}),
+  };
+
+  res.writeHead(200, {
+    "Access-Control-Allow-Origin": "*",
+    "Cache-Control": "max-age=3600",
+    "Content-Type": "application/json",
+  });
+  res.end(JSON.stringify(metadata));
+  return true;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, "")}"`;
+}
+
+function sendAuthError(
+  res: ServerResponse,
+  status: number,
+  auth: McpAuthOptions,
+  error?: { code: string; description: string },
+) {
+  const params = [`resource_metadata=${quote(getResourceMetadataUrl(auth.resourceUrl))}`];
+  if (error) {
+    params.unshift(`error=${quote(error.code)}`, `error_description=${quote(error.description)}`);
+  }
+
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "WWW-Authenticate": `Bearer ${params.join(", ")}`,
+  });
+  res.end(
+    JSON.stringify(
+      error
+        ? { error: error.code, error_description: error.description }
+        : { error: "invalid_token", error_description: "Missing bearer token" },
+    ),
+  );
+}
+
+function readBearerToken(req: IncomingMessage): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? "");
+  return match ? match[1] : null;
+}
+
+// Resolves to the caller's auth info, or to null after answering the request
+// with 401/403. Verifiers failing for other reasons are logged and answered
+// with 503.
+export async function authenticateRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  auth: McpAuthOptions,
+  logger: Logger,
+): Promise<AuthInfo | null> {
+  const token = readBearerToken(req);
+
+  if (!token) {
+    sendAuthError(res, 401, auth);
+    return null;
+  }
+
+  try {
+    return await auth.verifier.verifyAccessToken(token);
+  } catch (error) {
+    if (error instanceof InvalidTokenError) {
+      sendAuthError(res, 401, auth, { code: "invalid_token", description: error.message });
+    } else if (error instanceof InsufficientScopeError) {
+      sendAuthError(res, 403, auth, { code: "insufficient_scope", description: error.message });
+    } else {
+      logger.error("Failed to verify access token", error);
+      res.writeHead(503, { "Content-Type": "application/json" }).end(
+        JSON.stringify({
+          error: "temporarily_unavailable",
+          error_description: "Could not verify the access token",
+        }),
+      );
+    }
+    return null;
+  }
+}
+
+// Who a session belongs to, so a session id cannot be used with someone
+// else's token.
+export function getRequestCaller(req: AuthenticatedRequest): string | null {
+  if (!req.auth) {
+    return null;
+  }
+
+  const subject = req.auth.extra?.subject;
+  return `${req.auth.clientId}:${typeof subject === "string" ? subject : ""}`;
+}
@@ -0,0 +1,59 @@
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// Keeps the messages sent on a Streamable HTTP session so a client that lost
+// its connection can reconnect with `Last-Event-ID` and receive what it
+// missed. One store belongs to one session and goes away with it; only the
+// newest `maxEvents` messages are kept.
+
+type StoredEvent = {
+  id: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+};
+
+const DEFAULT_MAX_EVENTS = 500;
+
+export function createMemoryEventStore(maxEvents = DEFAULT_MAX_EVENTS): EventStore {
+  const events: StoredEvent[] = [];
+  let nextEventNumber = 1;
+
+  return {
+    async storeEvent(streamId, message) {
+      const id = `${streamId}:${nextEventNumber}`;
+      nextEventNumber += 1;
+
+      events.push({ id, streamId, message });
+      if (events.length > maxEvents) {
+        events.splice(0, events.length - maxEvents);
+      }
+
+      return id;
+    },
+    // Unknown ids (never sent, or already dropped) make the transport refuse
+    // the reconnect instead of silently skipping messages.
+    async getStreamIdForEventId(eventId) {
+      return events.find((event) => event.id === eventId)?.streamId;
+    },
+    async replayEventsAfter(lastEventId, { send }) {
+      const index = events.findIndex((event) => event.id === lastEventId);
+
+      if (index < 0) {
+        throw new Error(`Event "${lastEventId}" is no longer available.`);
+      }
+
+      const { streamId } = events[index];
+      for (const event of events.slice(index + 1)) {
+        if (event.streamId === streamId) {
+          await send(event.id, event.message);
+        }
+      }
+
+      return streamId;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { namesLookAlike } from "./name-similarity";
+
+describe("namesLookAlike", () => {
+  it("ignores case, accents, word order and honorifics", () => {
+    assert.ok(namesLookAlike("José García", "jose garcia"));
+    assert.ok(namesLookAlike("Garcia, Jose", "José García"));
+    assert.ok(namesLookAlike("Dr. Ann Lee", "Ann Lee"));
+  });
+
+  it("allows small typos in full names only", () => {
+    assert.ok(namesLookAlike("Jon Smith", "John Smith"));
+    assert.equal(namesLookAlike("Ann Lee", "Anna Leeds"), false);
+    assert.equal(namesLookAlike("Sam", "Pam"), false);
+    assert.equal(namesLookAlike("Ann Lee", "Bo Park"), false);
+    assert.equal(namesLookAlike("Mr.", "Mr."), false);
+  });
+});
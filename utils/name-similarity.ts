@@ -0,0 +1,74 @@
+// Loose comparison of people's names, for spotting the same guest entered
+// twice: "José García", "jose garcia" and "Garcia, Jose" all match, and so do
+// small typos such as "Jon Smith" / "John Smith".
+
+// Honorifics that say nothing about who the person is.
+const IGNORED_WORDS = new Set(["mr", "mrs", "ms", "miss", "dr", "prof", "jr", "sr"]);
+
+function nameWords(name: string): string[] {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word && !IGNORED_WORDS.has(word));
+}
+
+// Word order is ignored so "Smith John" and "John Smith" compare equal.
+function comparableName(name: string): string {
+  return nameWords(name).sort().join(" ");
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent swaps.
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const columns = b.length + 1;
+  const distances: number[][] = Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => (row === 0 ? column : column === 0 ? row : 0)),
+  );
+
+  for (let row = 1; row < rows; row += 1) {
+    for (let column = 1; column < columns; column += 1) {
+      const cost = a[row - 1] === b[column - 1] ? 0 : 1;
+      let distance = Math.min(
+        distances[row - 1][column] + 1,
+        distances[row][column - 1] + 1,
+        distances[row - 1][column - 1] + cost,
+      );
+
+      if (row > 1 && column > 1 && a[row - 1] === b[column - 2] && a[row - 2] === b[column - 1]) {
+        distance = Math.min(distance, distances[row - 2][column - 2] + 1);
+      }
+
+      distances[row][column] = distance;
+    }
+  }
+
+  return distances[a.length][b.length];
+}
+
+// Allow one typo in short names and two in longer ones.
+function allowedDistance(length: number): number {
+  return length < 8 ? 1 : 2;
+}
+
+export function namesLookAlike(first: string, second: string): boolean {
+  const a = comparableName(first);
+  const b = comparableName(second);
+
+  if (!a || !b) {
+    return false;
+  }
+
+  if (a === b) {
+    return true;
+  }
+
+  // Single names ("Sam") are too common to flag on a near miss.
+  if (!a.includes(" ") || !b.includes(" ")) {
+    return false;
+  }
+
+  return editDistance(a, b) <= allowedDistance(Math.min(a.length, b.length));
+}
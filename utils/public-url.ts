@@ -0,0 +1,12 @@
+// Links handed to people outside ChatGPT (downloads, RSVP pages) must use the
+// address the server is publicly reachable on, e.g. an ngrok URL.
+
+let publicBaseUrl = "http://localhost:8000";
+
+export function configurePublicBaseUrl(baseUrl: string) {
+  publicBaseUrl = baseUrl.replace(/\/+$/, "");
+}
+
+export function publicUrl(pathname: string): string {
+  return `${publicBaseUrl}${pathname.startsWith("/") ? "" : "/"}${pathname}`;
+}
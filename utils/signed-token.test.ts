@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { configureTokenSigning, createSignedToken, verifySignedToken } from "./signed-token";
+
+describe("signed tokens", () => {
+  configureTokenSigning({ secret: "test-secret" });
+
+  it("round-trips the payload", () => {
+    const token = createSignedToken({ t: "rsvp", w: "wedding_1", g: "guest_1" });
+
+    assert.deepEqual(verifySignedToken(token), { t: "rsvp", w: "wedding_1", g: "guest_1" });
+  });
+
+  it("rejects a tampered payload", () => {
+    const [, signature] = createSignedToken({ g: "guest_1" }).split(".");
+    const forged = Buffer.from(JSON.stringify({ g: "guest_2" })).toString("base64url");
+
+    assert.equal(verifySignedToken(`${forged}.${signature}`), null);
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = createSignedToken({ g: "guest_1" });
+    configureTokenSigning({ secret: "rotated-secret" });
+
+    try {
+      assert.equal(verifySignedToken(token), null);
+    } finally {
+      configureTokenSigning({ secret: "test-secret" });
+    }
+  });
+
+  it("rejects malformed tokens", () => {
+    const token = createSignedToken({ g: "guest_1" });
+
+    for (const candidate of ["", "abc", `${token}.extra`, `${token.split(".")[0]}.`]) {
+      assert.equal(verifySignedToken(candidate), null, candidate);
+    }
+  });
+});
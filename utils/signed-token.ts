@@ -0,0 +1,43 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Compact HMAC-SHA256 signed tokens: base64url(JSON payload) + "." +
+// base64url(signature). The payload is readable but cannot be altered or
+// forged without the secret.
+
+// Without a configured secret, tokens only verify until the process restarts.
+let signingSecret = randomBytes(32).toString("hex");
+
+export function configureTokenSigning(options: { secret: string }) {
+  signingSecret = options.secret;
+}
+
+function sign(encodedPayload: string): Buffer {
+  return createHmac("sha256", signingSecret).update(encodedPayload).digest();
+}
+
+export function createSignedToken(payload: unknown): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload).toString("base64url")}`;
+}
+
+// Returns null for malformed tokens and tokens signed with another secret.
+export function verifySignedToken<T>(token: string): T | null {
+  const [encodedPayload, encodedSignature, ...rest] = token.split(".");
+
+  if (!encodedPayload || !encodedSignature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = sign(encodedPayload);
+  const actual = Buffer.from(encodedSignature, "base64url");
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Logger } from "./logger";
+import { startHttpServer } from "./start-http-server";
+
+const silentLogger: Logger = { log() {}, warn() {}, error() {} };
+
+function createTestServer(): Server {
+  return new Server({ name: "test", version: "1.0.0" }, { capabilities: {} });
+}
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+describe("startHttpServer", () => {
+  const httpServer = startHttpServer({
+    createMcpServer: createTestServer,
+    port: 0,
+    routes: [{ path: "/hello", handle: (_req, res) => void res.writeHead(200).end("hi") }],
+    logger: silentLogger,
+  });
+  let baseUrl = "";
+
+  before(async () => {
+    if (!httpServer.listening) {
+      await new Promise((resolve) => httpServer.once("listening", resolve));
+    }
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  function postMcp(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("starts Streamable HTTP sessions with an initialize request", async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const client = new Client({ name: "test", version: "1.0.0" });
+
+    await client.connect(transport);
+    const sessionId = transport.sessionId;
+
+    assert.ok(sessionId);
+    assert.deepEqual(await client.ping(), {});
+
+    await transport.terminateSession();
+    await client.close();
+
+    const ended = await postMcp(
+      { jsonrpc: "2.0", id: 2, method: "ping" },
+      { "Mcp-Session-Id": sessionId },
+    );
+    assert.equal(ended.status, 404);
+  });
+
+  it("answers the session id header and exposes it to browsers", async () => {
+    const response = await postMcp(INITIALIZE_REQUEST);
+
+    assert.equal(response.status, 200);
+    assert.ok(response.headers.get("mcp-session-id"));
+    assert.match(response.headers.get("access-control-expose-headers") ?? "", /mcp-session-id/);
+    await response.body?.cancel();
+  });
+
+  it("refuses requests outside a session", async () => {
+    const withoutSession = await postMcp({ jsonrpc: "2.0", id: 1, method: "ping" });
+    const unknownSession = await postMcp(
+      { jsonrpc: "2.0", id: 1, method: "ping" },
+      { "Mcp-Session-Id": "not-a-session" },
+    );
+    const invalidJson = await fetch(`${baseUrl}/mcp`, { method: "POST", body: "{" });
+
+    assert.equal(withoutSession.status, 400);
+    assert.match(
+      (await withoutSession.json()).error.message,
+      /Missing Mcp-Session-Id header; start with an initialize request/,
+    );
+    assert.equal(unknownSession.status, 404);
+    assert.equal((await unknownSession.json()).error.message, "Session not found");
+    assert.equal(invalidJson.status, 400);
+  });
+
+  it("keeps serving the legacy SSE transport", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    assert.deepEqual(await client.ping(), {});
+    await client.close();
+
+    const unknownSession = await fetch(`${baseUrl}/sse/messages?sessionId=missing`, {
+      method: "POST",
+    });
+    assert.equal(unknownSession.status, 404);
+  });
+
+  it("answers CORS preflights and serves extra routes", async () => {
+    const preflight = await fetch(`${baseUrl}/mcp`, { method: "OPTIONS" });
+    const page = await fetch(`${baseUrl}/hello/world`);
+    const missing = await fetch(`${baseUrl}/nothing-here`);
+
+    assert.equal(preflight.status, 204);
+    assert.equal(
+      preflight.headers.get("access-control-allow-methods"),
+      "GET, POST, DELETE, OPTIONS",
+    );
+    assert.equal(await page.text(), "hi");
+    assert.equal(missing.status, 404);
+  });
+});
@@ -0,0 +1,614 @@
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from "node:http";
+import fs from "node:fs";
+import path from "node:path";
+import { URL } from "node:url";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { readExportFile } from "./export-files";
+import type { Logger } from "./logger";
+import {
+  authenticateRequest,
+  getRequestCaller,
+  getResourceMetadataUrl,
+  serveResourceMetadata,
+  type AuthenticatedRequest,
+  type McpAuthOptions,
+} from "./mcp-auth";
+import { createMemoryEventStore } from "./memory-event-store";
+
+// Serves MCP over Streamable HTTP on one endpoint (POST for messages, GET for
+// the server-to-client stream, DELETE to end a session), plus the deprecated
+// HTTP+SSE transport for older clients, widget assets, exports and extra
+// pages. With `auth`, every MCP request needs a bearer token and the verified
+// caller reaches tool handlers as `authInfo`.
+
+// Extra pages served next to the MCP endpoints. A route handles its path and
+// everything below it, for every method.
+export type HttpRoute = {
+  path: string;
+  handle: (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void> | void;
+};
+
+type StartHttpServerOptions = {
+  createMcpServer: () => Server;
+  port: number;
+  serverLabel?: string;
+  // Streamable HTTP endpoint.
+  mcpPath?: string;
+  // Legacy SSE stream and message endpoints; a null `ssePath` turns the
+  // legacy transport off.
+  ssePath?: string | null;
+  postPath?: string;
+  staticAssetsDir?: string;
+  staticAssetsPath?: string;
+  exportsPath?: string;
+  routes?: HttpRoute[];
+  auth?: McpAuthOptions;
+  logger?: Logger;
+};
+
+type SseSession = {
+  server: Server;
+  transport: SSEServerTransport;
+  // Authenticated caller that opened the session (null without auth).
+  caller: string | null;
+  lastSeenAt: number;
+};
+
+type StreamableSession = {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  caller: string | null;
+  lastSeenAt: number;
+  // Open GET streams; a session with a listening client is never idle.
+  openStreams: number;
+};
+
+// Streamable HTTP sessions end with a DELETE, but clients that simply go away
+// never send one. Legacy SSE sessions end when their stream closes, which a
+// proxy or half-open connection can put off indefinitely, so they expire
+// after the same time without messages.
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Generous enough for guest lists and backups pasted into tool arguments.
+const MAX_MCP_BODY_BYTES = 8 * 1024 * 1024;
+
+const MCP_REQUEST_HEADERS =
+  "authorization, content-type, mcp-session-id, mcp-protocol-version, last-event-id";
+const MCP_RESPONSE_HEADERS = "mcp-session-id, www-authenticate";
+
+function setCorsHeaders(res: ServerResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", MCP_REQUEST_HEADERS);
+  res.setHeader("Access-Control-Expose-Headers", MCP_RESPONSE_HEADERS);
+}
+
+function getMimeType(filePath: string): string {
+  const ext = path.extname(filePath).toLowerCase();
+  switch (ext) {
+    case ".html":
+      return "text/html; charset=utf-8";
+    case ".js":
+      return "application/javascript; charset=utf-8";
+    case ".css":
+      return "text/css; charset=utf-8";
+    case ".json":
+      return "application/json; charset=utf-8";
+    case ".map":
+      return "application/json; charset=utf-8";
+    case ".svg":
+      return "image/svg+xml";
+    case ".png":
+      return "image/png";
+    case ".jpg":
+    case ".jpeg":
+      return "image/jpeg";
+    case ".webp":
+      return "image/webp";
+    default:
+      return "application/octet-stream";
+  }
+}
+
+function isInsideDir(candidate: string, parentDir: string): boolean {
+  const relative = path.relative(parentDir, candidate);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+async function serveStaticAsset(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  assetsDir: string,
+  assetsPath: string,
+  logger: Logger,
+) {
+  if (req.method !== "GET") {
+    return false;
+  }
+
+  if (
+    url.pathname !== assetsPath &&
+    !url.pathname.startsWith(`${assetsPath}/`)
+  ) {
+    return false;
+  }
+
+  let decodedPath = "";
+  try {
+    decodedPath = decodeURIComponent(url.pathname.slice(assetsPath.length));
+  } catch {
+    res.writeHead(400).end("Invalid path encoding");
+    return true;
+  }
+  const relativePath = decodedPath.replace(/^\/+/, "");
+
+  if (!relativePath) {
+    res.writeHead(404).end("Not Found");
+    return true;
+  }
+
+  const rootDir = path.resolve(assetsDir);
+  const candidatePath = path.resolve(rootDir, relativePath);
+
+  if (!isInsideDir(candidatePath, rootDir)) {
+    res.writeHead(400).end("Invalid path");
+    return true;
+  }
+
+  try {
+    const stats = await fs.promises.stat(candidatePath);
+    if (!stats.isFile()) {
+      res.writeHead(404).end("Not Found");
+      return true;
+    }
+  } catch {
+    res.writeHead(404).end("Not Found");
+    return true;
+  }
+
+  setCorsHeaders(res);
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("Content-Type", getMimeType(candidatePath));
+
+  const stream = fs.createReadStream(candidatePath);
+  stream.on("error", (error) => {
+    logger.error("Failed to stream static asset", error);
+    if (!res.headersSent) {
+      res.writeHead(500).end("Failed to read asset");
+    } else {
+      res.end();
+    }
+  });
+  stream.pipe(res);
+
+  return true;
+}
+
+// Export URLs look like `${exportsPath}/<token>/<filename>`; the filename is
+// only there so browsers save the download under a sensible name.
+function serveExportFile(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  exportsPath: string,
+) {
+  if (req.method !== "GET" || !url.pathname.startsWith(`${exportsPath}/`)) {
+    return false;
+  }
+
+  const [token] = url.pathname.slice(exportsPath.length + 1).split("/");
+  const file = token ? readExportFile(token) : null;
+
+  if (!file) {
+    res.writeHead(404).end("Export not found or expired");
+    return true;
+  }
+
+  setCorsHeaders(res);
+  res.writeHead(200, {
+    "Cache-Control": "no-store",
+    "Content-Type": file.mimeType,
+    "Content-Disposition": `attachment; filename="${file.filename.replace(/["\\]/g, "")}"`,
+  });
+  res.end(file.content);
+
+  return true;
+}
+
+function getRequestUrl(req: IncomingMessage): URL | null {
+  if (!req.url) {
+    return null;
+  }
+
+  return new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
+}
+
+async function connectSseSession(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  postPath: string,
+  sessions: Map<string, SseSession>,
+  createMcpServer: () => Server,
+  logger: Logger,
+) {
+  setCorsHeaders(res);
+  const server = createMcpServer();
+  const transport = new SSEServerTransport(postPath, res);
+  const sessionId = transport.sessionId;
+
+  sessions.set(sessionId, {
+    server,
+    transport,
+    caller: getRequestCaller(req),
+    lastSeenAt: Date.now(),
+  });
+
+  // Server.connect(...) takes ownership of transport callbacks, so lifecycle
+  // handlers must be registered on the server instance, not on transport.
+  server.onclose = () => {
+    sessions.delete(sessionId);
+  };
+
+  server.onerror = (error) => {
+    logger.error("SSE session error", error);
+  };
+
+  try {
+    await server.connect(transport);
+  } catch (error) {
+    sessions.delete(sessionId);
+    logger.error("Failed to start SSE session", error);
+    await server.close().catch(() => {});
+    if (!res.headersSent) {
+      res.writeHead(500).end("Failed to establish SSE connection");
+    }
+  }
+}
+
+async function handleMessagePost(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  url: URL,
+  sessions: Map<string, SseSession>,
+  logger: Logger,
+) {
+  setCorsHeaders(res);
+  const sessionId = url.searchParams.get("sessionId");
+
+  if (!sessionId) {
+    res.writeHead(400).end("Missing sessionId query parameter");
+    return;
+  }
+
+  const session = sessions.get(sessionId);
+
+  if (!session) {
+    res.writeHead(404).end("Unknown session");
+    return;
+  }
+
+  if (session.caller !== getRequestCaller(req)) {
+    res.writeHead(403).end("Session belongs to another caller");
+    return;
+  }
+
+  session.lastSeenAt = Date.now();
+  try {
+    await session.transport.handlePostMessage(req, res);
+  } catch (error) {
+    logger.error("Failed to process message", error);
+    if (!res.headersSent) {
+      res.writeHead(500).end("Failed to process message");
+    }
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+  res
+    .writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_MCP_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function getSessionIdHeader(req: IncomingMessage): string | undefined {
+  const header = req.headers["mcp-session-id"];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+// A session starts with an initialize POST without a session id; every later
+// request carries the `Mcp-Session-Id` the server answered with.
+async function handleStreamableRequest(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  sessions: Map<string, StreamableSession>,
+  createMcpServer: () => Server,
+  logger: Logger,
+) {
+  setCorsHeaders(res);
+  const sessionId = getSessionIdHeader(req);
+
+  let body: unknown;
+  if (req.method === "POST") {
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, error instanceof Error ? error.message : "Invalid JSON");
+      return;
+    }
+  }
+
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+
+    if (!session) {
+      // Tells the client to start a new session (initialize again).
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    if (session.caller !== getRequestCaller(req)) {
+      sendJsonRpcError(res, 403, "Session belongs to another caller");
+      return;
+    }
+
+    session.lastSeenAt = Date.now();
+    if (req.method === "GET") {
+      session.openStreams += 1;
+      res.on("close", () => {
+        session.openStreams -= 1;
+        session.lastSeenAt = Date.now();
+      });
+    }
+
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method !== "POST" || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, "Missing Mcp-Session-Id header; start with an initialize request");
+    return;
+  }
+
+  const server = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: randomUUID,
+    eventStore: createMemoryEventStore(),
+    onsessioninitialized: (newSessionId) => {
+      sessions.set(newSessionId, {
+        server,
+        transport,
+        caller: getRequestCaller(req),
+        lastSeenAt: Date.now(),
+        openStreams: 0,
+      });
+    },
+  });
+
+  // As with SSE sessions, lifecycle handlers go on the server, which owns the
+  // transport callbacks once connected.
+  server.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+    }
+  };
+
+  server.onerror = (error) => {
+    logger.error("Streamable HTTP session error", error);
+  };
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  } finally {
+    // Without a session id the initialize request was rejected and nothing
+    // will reach this server again.
+    if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+      await server.close().catch((error) => {
+        logger.error("Failed to close rejected session", error);
+      });
+    }
+  }
+}
+
+function closeIdleSessions(
+  sessions: Map<string, SseSession | StreamableSession>,
+  logger: Logger,
+) {
+  const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+
+  for (const [sessionId, session] of sessions) {
+    const openStreams = "openStreams" in session ? session.openStreams : 0;
+    if (openStreams === 0 && session.lastSeenAt < cutoff) {
+      sessions.delete(sessionId);
+      session.server.close().catch((error) => {
+        logger.error("Failed to close idle session", error);
+      });
+    }
+  }
+}
+
+export function startHttpServer(options: StartHttpServerOptions): HttpServer {
+  const mcpPath = options.mcpPath ?? "/mcp";
+  const ssePath = options.ssePath === undefined ? "/sse" : options.ssePath;
+  const postPath = options.postPath ?? `${ssePath ?? mcpPath}/messages`;
+  const staticAssetsPath = options.staticAssetsPath ?? "/assets";
+  const sseSessions = new Map<string, SseSession>();
+  const streamableSessions = new Map<string, StreamableSession>();
+  const logger = options.logger ?? console;
+
+  setInterval(() => {
+    closeIdleSessions(streamableSessions, logger);
+    closeIdleSessions(sseSessions, logger);
+  }, SESSION_SWEEP_INTERVAL_MS).unref();
+
+  const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = getRequestUrl(req);
+
+    if (!url) {
+      res.writeHead(400).end("Missing URL");
+      return;
+    }
+
+    const isMcpPath = url.pathname === mcpPath;
+    const isLegacyPath =
+      ssePath !== null && (url.pathname === ssePath || url.pathname === postPath);
+
+    if (req.method === "OPTIONS" && (isMcpPath || isLegacyPath)) {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": isMcpPath
+          ? "GET, POST, DELETE, OPTIONS"
+          : "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": MCP_REQUEST_HEADERS,
+        "Access-Control-Expose-Headers": MCP_RESPONSE_HEADERS,
+      });
+      res.end();
+      return;
+    }
+
+    if (options.auth && serveResourceMetadata(req, res, url, options.auth)) {
+      return;
+    }
+
+    if (options.auth && (isMcpPath || isLegacyPath)) {
+      setCorsHeaders(res);
+      const authInfo = await authenticateRequest(req, res, options.auth, logger);
+      if (!authInfo) {
+        return;
+      }
+      (req as AuthenticatedRequest).auth = authInfo;
+    }
+
+    // Clients configured before Streamable HTTP open the legacy stream with a
+    // plain GET on the MCP URL; a Streamable HTTP GET always has a session id.
+    const isLegacyStreamRequest =
+      req.method === "GET" &&
+      ssePath !== null &&
+      (url.pathname === ssePath || (isMcpPath && !getSessionIdHeader(req)));
+
+    if (isLegacyStreamRequest) {
+      await connectSseSession(req, res, postPath, sseSessions, options.createMcpServer, logger);
+      return;
+    }
+
+    if (ssePath !== null && req.method === "POST" && url.pathname === postPath) {
+      await handleMessagePost(req, res, url, sseSessions, logger);
+      return;
+    }
+
+    if (isMcpPath) {
+      try {
+        await handleStreamableRequest(
+          req,
+          res,
+          streamableSessions,
+          options.createMcpServer,
+          logger,
+        );
+      } catch (error) {
+        logger.error("Failed to handle MCP request", error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, "Internal server error");
+        }
+      }
+      return;
+    }
+
+    if (options.exportsPath && serveExportFile(req, res, url, options.exportsPath)) {
+      return;
+    }
+
+    const route = options.routes?.find(
+      (candidate) =>
+        url.pathname === candidate.path || url.pathname.startsWith(`${candidate.path}/`),
+    );
+    if (route) {
+      try {
+        await route.handle(req, res, url);
+      } catch (error) {
+        logger.error(`Failed to handle ${url.pathname}`, error);
+        if (!res.headersSent) {
+          res.writeHead(500).end("Internal Server Error");
+        }
+      }
+      return;
+    }
+
+    if (options.staticAssetsDir) {
+      const served = await serveStaticAsset(
+        req,
+        res,
+        url,
+        options.staticAssetsDir,
+        staticAssetsPath,
+        logger,
+      );
+      if (served) {
+        return;
+      }
+    }
+
+    res.writeHead(404).end("Not Found");
+  });
+
+  httpServer.on("clientError", (error: Error, socket) => {
+    logger.error("HTTP client error", error);
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+  });
+
+  httpServer.listen(options.port, () => {
+    const label = options.serverLabel ?? "MCP server";
+    logger.log(`${label} listening on http://localhost:${options.port}`);
+    logger.log(`  Streamable HTTP: POST/GET/DELETE http://localhost:${options.port}${mcpPath}`);
+    if (ssePath !== null) {
+      logger.log(`  Legacy SSE stream: GET http://localhost:${options.port}${ssePath}`);
+      logger.log(
+        `  Legacy message endpoint: POST http://localhost:${options.port}${postPath}?sessionId=...`,
+      );
+    }
+    if (options.auth) {
+      logger.log(
+        `  OAuth: bearer tokens from ${options.auth.authorizationServers.join(", ")}; metadata at ${getResourceMetadataUrl(options.auth.resourceUrl)}`,
+      );
+    }
+    for (const route of options.routes ?? []) {
+      logger.log(`  Page: http://localhost:${options.port}${route.path}/...`);
+    }
+    if (options.exportsPath) {
+      logger.log(
+        `  Exported files: GET http://localhost:${options.port}${options.exportsPath}/...`,
+      );
+    }
+    if (options.staticAssetsDir) {
+      logger.log(
+        `  Widget assets: GET http://localhost:${options.port}${staticAssetsPath}/...`,
+      );
+    }
+  });
+
+  return httpServer;
+}
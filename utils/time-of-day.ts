@@ -0,0 +1,51 @@
+const MINUTES_PER_DAY = 24 * 60;
+
+const NAMED_TIMES: Record<string, number> = {
+  noon: 12 * 60,
+  midday: 12 * 60,
+  midnight: 0,
+};
+
+// Parses clock times as people type them ("3pm", "3:30 PM", "15:00", "1530",
+// "noon") into minutes after midnight. Returns null when the text is not a
+// time of day.
+export function parseTimeOfDay(input: string): number | null {
+  const text = input.trim().toLowerCase().replace(/\./g, ":");
+
+  if (text in NAMED_TIMES) {
+    return NAMED_TIMES[text];
+  }
+
+  const match = /^(\d{1,2})(?::?(\d{2}))?\s*(am|pm|a|p)?$/.exec(text);
+
+  if (!match) {
+    return null;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.[0];
+
+  if (minutes > 59) {
+    return null;
+  }
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === "p" ? 12 : 0);
+  } else if (!match[2] || hours > 23) {
+    // A bare "3" is ambiguous; require minutes or am/pm for 24-hour input.
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+
+  return `${String(hours).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,139 @@
+import { z, ZodError } from "zod/v3";
+import type { ToolResponse } from "./define-tool";
+
+// Problems a tool call can run into that the caller can do something about.
+// createMcpServer turns these, and arguments that fail the tool's input
+// schema, into `isError` tool results: readable text for the model and an
+// `error` field in structuredContent for the widget, instead of an opaque
+// JSON-RPC error.
+
+export type ToolErrorCode =
+  "invalid_input" | "not_found" | "duplicate" | "conflict" | "forbidden" | "failed";
+
+export type ToolErrorField = {
+  // Dotted path of the argument, e.g. "guests.2.contact"; empty for the
+  // arguments as a whole.
+  path: string;
+  message: string;
+};
+
+// Shape of `structuredContent.error` on failed calls.
+export type ToolErrorOutput = {
+  code: ToolErrorCode;
+  message: string;
+  hint: string | null;
+  fields: ToolErrorField[];
+};
+
+// structuredContent of failed calls, for the outputSchema defineTool publishes.
+export const toolErrorStructuredContent = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    hint: z.string().nullable(),
+    fields: z.array(z.object({ path: z.string(), message: z.string() })),
+  }),
+});
+
+export type ToolErrorResponse = ToolResponse<{ error: ToolErrorOutput }> & { isError: true };
+
+export class ToolError extends Error {
+  readonly code: ToolErrorCode;
+
+  constructor(code: ToolErrorCode, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+// A value that is well-typed but unusable, such as a date that cannot be read.
+export class InvalidInputError extends ToolError {
+  constructor(message: string) {
+    super("invalid_input", message);
+  }
+}
+
+export class NotFoundError extends ToolError {
+  constructor(message: string) {
+    super("not_found", message);
+  }
+}
+
+export class DuplicateError extends ToolError {
+  constructor(message: string) {
+    super("duplicate", message);
+  }
+}
+
+// The request is valid but the current state of the plan does not allow it.
+export class ConflictError extends ToolError {
+  constructor(message: string) {
+    super("conflict", message);
+  }
+}
+
+export class ForbiddenError extends ToolError {
+  constructor(message: string) {
+    super("forbidden", message);
+  }
+}
+
+// Next steps for the model; the message already says what went wrong.
+const HINTS: Record<ToolErrorCode, string | null> = {
+  invalid_input: "Correct the arguments and call the tool again.",
+  not_found:
+    "The id may be stale or mistyped. Use an id from the latest planner data instead of guessing one.",
+  duplicate: "Update the existing record instead of adding it again.",
+  conflict: "Change the plan so the request fits, or ask the user how to proceed.",
+  forbidden: "Do not retry; tell the user what access they need.",
+  failed: null,
+};
+
+function describeIssues(error: ZodError): ToolErrorField[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+export function toToolErrorOutput(toolName: string, error: unknown): ToolErrorOutput {
+  if (error instanceof ZodError) {
+    return {
+      code: "invalid_input",
+      message: `The arguments for ${toolName} are invalid.`,
+      hint: HINTS.invalid_input,
+      fields: describeIssues(error),
+    };
+  }
+
+  if (error instanceof ToolError) {
+    return { code: error.code, message: error.message, hint: HINTS[error.code], fields: [] };
+  }
+
+  // Anything else may carry storage or file system details; those stay in the
+  // server log.
+  return {
+    code: "failed",
+    message: `${toolName} failed.`,
+    hint: HINTS.failed,
+    fields: [],
+  };
+}
+
+export function createToolErrorResponse(toolName: string, error: unknown): ToolErrorResponse {
+  const output = toToolErrorOutput(toolName, error);
+  const lines = [
+    output.message,
+    ...output.fields.map((field) => `- ${field.path || "arguments"}: ${field.message}`),
+  ];
+  if (output.hint) {
+    lines.push(output.hint);
+  }
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: { error: output },
+    isError: true,
+  };
+}
@@ -0,0 +1,142 @@
+import { escapeText, joinContentLines } from "./content-lines";
+
+// Reads the parts of vCard 2.1/3.0/4.0 contacts a guest list needs, and
+// writes vCard 3.0. Unknown properties are ignored.
+
+export type VCardContact = {
+  name: string;
+  emails: string[];
+  phones: string[];
+  organization: string | null;
+  note: string | null;
+};
+
+// Continuation lines start with a space or tab (RFC 6350 section 3.2); vCard
+// 2.1 quoted-printable values continue with a trailing "=".
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const previous = lines[lines.length - 1];
+
+    if (previous !== undefined && /^[ \t]/.test(line)) {
+      lines[lines.length - 1] = previous + line.slice(1);
+    } else if (
+      previous !== undefined &&
+      /QUOTED-PRINTABLE/i.test(previous) &&
+      previous.endsWith("=")
+    ) {
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes = value.replace(/=([0-9A-F]{2})/gi, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16)),
+  );
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+function splitComponents(value: string): string[] {
+  return value.split(/(?<!\\);/).map((part) => unescapeText(part).trim());
+}
+
+// "N" is family;given;additional;prefix;suffix.
+function nameFromStructured(value: string): string {
+  const [family = "", given = "", additional = "", prefix = "", suffix = ""] =
+    splitComponents(value);
+
+  return [prefix, given, additional, family, suffix].filter(Boolean).join(" ");
+}
+
+export function parseVCards(text: string): VCardContact[] {
+  const contacts: VCardContact[] = [];
+  let current: (VCardContact & { structuredName: string }) | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const separator = line.indexOf(":");
+
+    if (separator < 0) {
+      continue;
+    }
+
+    // Properties may carry a group prefix ("item1.EMAIL") and parameters.
+    const [property, ...parameters] = line.slice(0, separator).split(";");
+    const key = property.replace(/^[^.]*\./, "").toUpperCase();
+    const rawValue = line.slice(separator + 1);
+    const value = parameters.some((parameter) => /QUOTED-PRINTABLE/i.test(parameter))
+      ? decodeQuotedPrintable(rawValue)
+      : rawValue;
+
+    if (key === "BEGIN" && value.trim().toUpperCase() === "VCARD") {
+      current = {
+        name: "",
+        structuredName: "",
+        emails: [],
+        phones: [],
+        organization: null,
+        note: null,
+      };
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (key === "END" && value.trim().toUpperCase() === "VCARD") {
+      const { structuredName, ...contact } = current;
+      contacts.push({ ...contact, name: contact.name || structuredName });
+      current = null;
+      continue;
+    }
+
+    const content = unescapeText(value).trim();
+
+    if (key === "FN") {
+      current.name = content;
+    } else if (key === "N") {
+      current.structuredName = nameFromStructured(value);
+    } else if (key === "EMAIL" && content) {
+      current.emails.push(content);
+    } else if (key === "TEL" && content) {
+      current.phones.push(content.replace(/^tel:/i, ""));
+    } else if (key === "ORG") {
+      current.organization = splitComponents(value).filter(Boolean).join(", ") || null;
+    } else if (key === "NOTE") {
+      current.note = content || null;
+    }
+  }
+
+  return contacts;
+}
+
+export function formatVCard(contact: VCardContact): string {
+  const nameParts = contact.name.trim().split(/\s+/);
+  const family = nameParts.length > 1 ? nameParts[nameParts.length - 1] : "";
+  const given = nameParts.length > 1 ? nameParts.slice(0, -1).join(" ") : nameParts[0];
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `FN:${escapeText(contact.name)}`,
+    `N:${escapeText(family)};${escapeText(given)};;;`,
+    ...contact.emails.map((email) => `EMAIL;TYPE=INTERNET:${escapeText(email)}`),
+    ...contact.phones.map((phone) => `TEL:${escapeText(phone)}`),
+    ...(contact.organization ? [`ORG:${escapeText(contact.organization)}`] : []),
+    ...(contact.note ? [`NOTE:${escapeText(contact.note)}`] : []),
+    "END:VCARD",
+  ];
+
+  return joinContentLines(lines);
+}
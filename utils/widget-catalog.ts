@@ -8,20 +8,29 @@ import type {
 } from "@modelcontextprotocol/sdk/types.js";
 import type { ToolDefinition } from "./define-tool";
 
-type Widget = {
-  toolName: string;
+// A UI bundle from `ui/<name>` that tools render their results with. It is
+// served once as a `ui://widget/<name>.html` resource however many tools use
+// it; tools refer to it by name through their `ui` field.
+export type WidgetDefinition = {
+  name: string;
   title: string;
-  uiName: string;
+  // Tells the model what the widget shows, so it does not repeat it in text.
+  description: string;
+};
+
+type Widget = WidgetDefinition & {
   templateUri: string;
-  invoking: string;
-  invoked: string;
 };
 
-type DescriptorMeta = {
-  "openai/outputTemplate": string;
+type ToolDescriptorMeta = {
+  "openai/outputTemplate"?: string;
   "openai/toolInvocation/invoking": string;
   "openai/toolInvocation/invoked": string;
-  "openai/widgetAccessible": true;
+  "openai/widgetAccessible"?: true;
+};
+
+type WidgetResourceMeta = {
+  "openai/widgetDescription": string;
 };
 
 type InvocationMeta = {
@@ -33,7 +42,7 @@ type ResourceContent = {
   uri: string;
   mimeType: "text/html+skybridge";
   text: string;
-  _meta: DescriptorMeta;
+  _meta: WidgetResourceMeta;
 };
 
 export type WidgetCatalog = {
@@ -81,86 +90,97 @@ function readWidgetHtml(assetsDir: string, uiName: string): string {
   return htmlContents;
 }
 
-function descriptorMeta(widget: Widget): DescriptorMeta {
+function invocationMeta(tool: ToolDefinition): InvocationMeta {
   return {
-    "openai/outputTemplate": widget.templateUri,
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
-    "openai/widgetAccessible": true,
+    "openai/toolInvocation/invoking": tool.invoking,
+    "openai/toolInvocation/invoked": tool.invoked,
   };
 }
 
-function invocationMeta(widget: Widget): InvocationMeta {
+// Tools without a widget return data only; the host renders nothing for them.
+function toolDescriptorMeta(tool: ToolDefinition, widget: Widget | undefined): ToolDescriptorMeta {
+  return widget
+    ? {
+        "openai/outputTemplate": widget.templateUri,
+        ...invocationMeta(tool),
+        "openai/widgetAccessible": true,
+      }
+    : {
+        ...invocationMeta(tool),
+        ...(tool.widgetAccessible ? { "openai/widgetAccessible": true as const } : {}),
+      };
+}
+
+function widgetResourceMeta(widget: Widget): WidgetResourceMeta {
   return {
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
+    "openai/widgetDescription": widget.description,
   };
 }
 
-function createWidget(definition: ToolDefinition, assetsDir: string): Widget {
+function createWidget(definition: WidgetDefinition, assetsDir: string): Widget {
   // Fail fast if assets are missing at startup.
-  readWidgetHtml(assetsDir, definition.ui);
+  readWidgetHtml(assetsDir, definition.name);
 
   return {
-    toolName: definition.name,
-    title: definition.title,
-    uiName: definition.ui,
-    templateUri: `ui://widget/${definition.ui}.html`,
-    invoking: definition.invoking,
-    invoked: definition.invoked,
+    ...definition,
+    templateUri: `ui://widget/${definition.name}.html`,
   };
 }
 
 export function createWidgetCatalog(
   toolDefinitions: ToolDefinition[],
+  widgetDefinitions: WidgetDefinition[],
   assetsDir: string,
 ): WidgetCatalog {
-  const widgets = toolDefinitions.map((tool) => createWidget(tool, assetsDir));
+  const widgets = widgetDefinitions.map((widget) => createWidget(widget, assetsDir));
 
-  const widgetsByToolName = new Map<string, Widget>();
+  const widgetsByName = new Map<string, Widget>();
   const widgetsByUri = new Map<string, Widget>();
   const toolsByName = new Map<string, ToolDefinition>();
 
   widgets.forEach((widget) => {
-    widgetsByToolName.set(widget.toolName, widget);
+    if (widgetsByName.has(widget.name)) {
+      throw new Error(`Widget "${widget.name}" is defined more than once.`);
+    }
+
+    widgetsByName.set(widget.name, widget);
     widgetsByUri.set(widget.templateUri, widget);
   });
 
   toolDefinitions.forEach((tool) => {
-    toolsByName.set(tool.name, tool);
-  });
-
-  const tools: Tool[] = toolDefinitions.map((tool) => {
-    const widget = widgetsByToolName.get(tool.name);
-
-    if (!widget) {
-      throw new Error(`Tool "${tool.name}" is missing a widget definition.`);
+    if (tool.ui && !widgetsByName.has(tool.ui)) {
+      throw new Error(`Tool "${tool.name}" uses widget "${tool.ui}", which is not defined.`);
     }
 
-    return {
-      name: tool.name,
-      title: tool.title,
-      description: tool.description,
-      inputSchema: tool.inputSchema,
-      _meta: descriptorMeta(widget),
-      annotations: tool.annotations,
-    };
+    toolsByName.set(tool.name, tool);
   });
 
+  const tools: Tool[] = toolDefinitions.map((tool) => ({
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+    _meta: toolDescriptorMeta(tool, tool.ui ? widgetsByName.get(tool.ui) : undefined),
+    annotations: tool.annotations,
+  }));
+
   const resources: Resource[] = widgets.map((widget) => ({
     uri: widget.templateUri,
-    name: widget.title,
-    description: `${widget.title} widget markup`,
+    name: widget.name,
+    title: widget.title,
+    description: widget.description,
     mimeType: "text/html+skybridge",
-    _meta: descriptorMeta(widget),
+    _meta: widgetResourceMeta(widget),
   }));
 
   const resourceTemplates: ResourceTemplate[] = widgets.map((widget) => ({
     uriTemplate: widget.templateUri,
-    name: widget.title,
-    description: `${widget.title} widget markup`,
+    name: widget.name,
+    title: widget.title,
+    description: widget.description,
     mimeType: "text/html+skybridge",
-    _meta: descriptorMeta(widget),
+    _meta: widgetResourceMeta(widget),
   }));
 
   return {
@@ -179,21 +199,20 @@ export function createWidgetCatalog(
         mimeType: "text/html+skybridge",
         // Read latest asset HTML on each request so UI rebuilds are reflected
         // without requiring an MCP server restart.
-        text: readWidgetHtml(assetsDir, widget.uiName),
-        _meta: descriptorMeta(widget),
+        text: readWidgetHtml(assetsDir, widget.name),
+        _meta: widgetResourceMeta(widget),
       };
     },
     getToolInvocation(toolName: string) {
       const tool = toolsByName.get(toolName);
-      const widget = widgetsByToolName.get(toolName);
 
-      if (!tool || !widget) {
+      if (!tool) {
         return undefined;
       }
 
       return {
         tool,
-        meta: invocationMeta(widget),
+        meta: invocationMeta(tool),
       };
     },
   };